@@ -0,0 +1,14 @@
+-- TOTP authenticator-app second factor.
+--
+-- mfa_method selects which factor /auth/verify-otp expects after the
+-- password check. totp_pending_secret holds a secret between
+-- /auth/mfa/totp/setup and /auth/mfa/totp/confirm; totp_last_step stops
+-- an accepted code from being replayed within its 30-second window.
+
+ALTER TABLE auth_users
+  ADD COLUMN IF NOT EXISTS mfa_method TEXT NOT NULL DEFAULT 'email'
+    CHECK (mfa_method IN ('email', 'totp')),
+  ADD COLUMN IF NOT EXISTS totp_secret TEXT,
+  ADD COLUMN IF NOT EXISTS totp_pending_secret TEXT,
+  ADD COLUMN IF NOT EXISTS totp_last_step BIGINT,
+  ADD COLUMN IF NOT EXISTS totp_enrolled_at TIMESTAMPTZ;
@@ -0,0 +1,16 @@
+-- Single-use MFA recovery codes.
+--
+-- Codes are stored as SHA-256 hashes of their normalised form (uppercase,
+-- no separator). Regenerating deletes the unused set; used rows are kept,
+-- and every use is also written to auth_otp with purpose 'recovery_code'.
+
+CREATE TABLE IF NOT EXISTS auth_recovery_codes (
+  id          UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id     UUID NOT NULL REFERENCES auth_users(id) ON DELETE CASCADE,
+  code_hash   TEXT NOT NULL,
+  used_at     TIMESTAMPTZ,
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_auth_recovery_codes_user
+  ON auth_recovery_codes (user_id) WHERE used_at IS NULL;
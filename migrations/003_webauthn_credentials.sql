@@ -0,0 +1,21 @@
+-- WebAuthn / passkey credentials.
+--
+-- credential_id is the base64url credential ID reported by the
+-- authenticator; public_key is the COSE key converted to a JWK so the
+-- Worker can import it directly with Web Crypto.
+
+CREATE TABLE IF NOT EXISTS auth_webauthn_credentials (
+  id             UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id        UUID NOT NULL REFERENCES auth_users(id) ON DELETE CASCADE,
+  credential_id  TEXT NOT NULL UNIQUE,
+  public_key     JSONB NOT NULL,
+  alg            INTEGER NOT NULL,
+  sign_count     BIGINT NOT NULL DEFAULT 0,
+  transports     JSONB,
+  name           TEXT NOT NULL DEFAULT 'Passkey',
+  created_at     TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_used_at   TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_auth_webauthn_credentials_user
+  ON auth_webauthn_credentials (user_id);
@@ -0,0 +1,33 @@
+-- Per-tenant OIDC single sign-on providers.
+--
+-- allowed_domains is a JSON array of lower-case email domains; a login
+-- email whose domain appears here is sent to the provider. Users are
+-- linked to the IdP subject on their first SSO login.
+
+CREATE TABLE IF NOT EXISTS auth_oidc_providers (
+  id                     UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id              TEXT NOT NULL,
+  name                   TEXT NOT NULL,
+  issuer                 TEXT NOT NULL,
+  client_id              TEXT NOT NULL,
+  client_secret          TEXT,
+  allowed_domains        JSONB NOT NULL DEFAULT '[]'::jsonb,
+  default_role           TEXT NOT NULL DEFAULT 'tenant'
+                           CHECK (default_role IN ('tenant', 'customer')),
+  default_customer_name  TEXT,
+  is_active              BOOLEAN NOT NULL DEFAULT true,
+  created_by             UUID REFERENCES auth_users(id) ON DELETE SET NULL,
+  created_at             TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at             TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_auth_oidc_providers_domains
+  ON auth_oidc_providers USING GIN (allowed_domains);
+
+ALTER TABLE auth_users
+  ADD COLUMN IF NOT EXISTS oidc_provider_id UUID REFERENCES auth_oidc_providers(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS oidc_subject     TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_auth_users_oidc_subject
+  ON auth_users (oidc_provider_id, oidc_subject)
+  WHERE oidc_subject IS NOT NULL;
@@ -0,0 +1,25 @@
+-- Short-lived access tokens + rotating refresh tokens.
+--
+-- auth_sessions.id is now the JWT `sid` claim and token_hash is the SHA-256
+-- of that id. expires_at slides forward on each refresh; absolute_expires_at
+-- caps the session regardless of activity.
+--
+-- Refresh tokens are stored hashed and used once. replaced_by chains each
+-- token to its successor; presenting a used token revokes the session, and
+-- deleting the session removes the whole chain.
+
+ALTER TABLE auth_sessions
+  ADD COLUMN IF NOT EXISTS absolute_expires_at TIMESTAMPTZ;
+
+CREATE TABLE IF NOT EXISTS auth_refresh_tokens (
+  id           UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id   UUID NOT NULL REFERENCES auth_sessions(id) ON DELETE CASCADE,
+  token_hash   TEXT NOT NULL UNIQUE,
+  expires_at   TIMESTAMPTZ NOT NULL,
+  used_at      TIMESTAMPTZ,
+  replaced_by  UUID REFERENCES auth_refresh_tokens(id) ON DELETE SET NULL,
+  created_at   TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_auth_refresh_tokens_session
+  ON auth_refresh_tokens (session_id);
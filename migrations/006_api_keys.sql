@@ -0,0 +1,24 @@
+-- Self-service API keys.
+--
+-- Only the SHA-256 hash of a key is stored; key_prefix keeps the first
+-- characters so users can tell keys apart. scopes is a JSON array of report
+-- types. The Worker authenticates from a KV snapshot (apikey:<hash>), so
+-- revoked_at is the source of truth for listing and the KV entry is
+-- deleted alongside it.
+
+CREATE TABLE IF NOT EXISTS auth_api_keys (
+  id             UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id        UUID NOT NULL REFERENCES auth_users(id) ON DELETE CASCADE,
+  name           TEXT NOT NULL,
+  key_hash       TEXT NOT NULL UNIQUE,
+  key_prefix     TEXT NOT NULL,
+  scopes         JSONB NOT NULL,
+  customer_name  TEXT,
+  expires_at     TIMESTAMPTZ NOT NULL,
+  last_used_at   TIMESTAMPTZ,
+  revoked_at     TIMESTAMPTZ,
+  created_at     TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_auth_api_keys_user
+  ON auth_api_keys (user_id);
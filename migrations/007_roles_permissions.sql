@@ -0,0 +1,28 @@
+-- Named roles carrying fine-grained permissions.
+--
+-- permissions is a JSON array of permission strings (src/permissions.ts).
+-- auth_users.role_id is optional: users without a named role keep the
+-- default permissions of their legacy role (admin / tenant / customer),
+-- which still determines data scope.
+
+CREATE TABLE IF NOT EXISTS auth_roles (
+  id           UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name         TEXT NOT NULL,
+  description  TEXT,
+  permissions  JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_by   UUID REFERENCES auth_users(id) ON DELETE SET NULL,
+  created_at   TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at   TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_auth_roles_name
+  ON auth_roles (lower(name));
+
+ALTER TABLE auth_users
+  ADD COLUMN IF NOT EXISTS role_id UUID REFERENCES auth_roles(id) ON DELETE SET NULL;
+
+-- Example: tenant finance users can see revenue but not manage users
+INSERT INTO auth_roles (name, description, permissions)
+VALUES ('Finance', 'Reporting and revenue, no user management',
+        '["usage:read", "inventory:read", "revenue:read", "export:run", "pricing:read"]')
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,52 @@
+-- Append-only audit log of admin and security-relevant actions.
+--
+-- Actor and target are stored as plain values rather than foreign keys so
+-- entries survive the deletion of the users and objects they describe.
+-- changes holds a field-level diff: { "<field>": { "from": ..., "to": ... } }.
+-- tenant_id is the tenant the affected object belongs to and is what
+-- GET /admin/audit scopes tenant admins by.
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id             BIGSERIAL PRIMARY KEY,
+  occurred_at    TIMESTAMPTZ NOT NULL DEFAULT now(),
+  actor_user_id  UUID,
+  actor_email    TEXT,
+  actor_method   TEXT,
+  tenant_id      TEXT,
+  action         TEXT NOT NULL,
+  target_type    TEXT,
+  target_id      TEXT,
+  changes        JSONB,
+  metadata       JSONB,
+  ip_address     TEXT,
+  user_agent     TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_occurred
+  ON audit_log (occurred_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_tenant
+  ON audit_log (tenant_id, occurred_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor
+  ON audit_log (actor_user_id, occurred_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_target
+  ON audit_log (target_type, target_id);
+
+-- Rows can be added but never changed or removed
+CREATE OR REPLACE FUNCTION audit_log_immutable() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_audit_log_immutable ON audit_log;
+CREATE TRIGGER trg_audit_log_immutable
+  BEFORE UPDATE OR DELETE ON audit_log
+  FOR EACH ROW EXECUTE FUNCTION audit_log_immutable();
+
+DROP TRIGGER IF EXISTS trg_audit_log_no_truncate ON audit_log;
+CREATE TRIGGER trg_audit_log_no_truncate
+  BEFORE TRUNCATE ON audit_log
+  FOR EACH STATEMENT EXECUTE FUNCTION audit_log_immutable();
@@ -0,0 +1,33 @@
+-- Per-tenant password policy and password history.
+--
+-- Tenants without a row in auth_password_policies use the defaults in
+-- src/utils/password-policy.ts. max_age_days NULL means passwords never
+-- expire; history_count 0 disables the reuse check.
+--
+-- auth_password_history keeps the hashes of previous passwords so they can
+-- be refused on change; only the most recent entries are retained.
+
+CREATE TABLE IF NOT EXISTS auth_password_policies (
+  tenant_id               TEXT PRIMARY KEY,
+  min_length              INTEGER NOT NULL DEFAULT 12,
+  require_uppercase       BOOLEAN NOT NULL DEFAULT false,
+  require_lowercase       BOOLEAN NOT NULL DEFAULT false,
+  require_digit           BOOLEAN NOT NULL DEFAULT false,
+  require_symbol          BOOLEAN NOT NULL DEFAULT false,
+  disallow_personal_info  BOOLEAN NOT NULL DEFAULT true,
+  history_count           INTEGER NOT NULL DEFAULT 5,
+  max_age_days            INTEGER,
+  updated_by              UUID REFERENCES auth_users(id) ON DELETE SET NULL,
+  updated_at              TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS auth_password_history (
+  id             UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id        UUID NOT NULL REFERENCES auth_users(id) ON DELETE CASCADE,
+  password_hash  TEXT NOT NULL,
+  salt           TEXT NOT NULL,
+  created_at     TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_auth_password_history_user
+  ON auth_password_history (user_id, created_at DESC);
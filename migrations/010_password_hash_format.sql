@@ -0,0 +1,10 @@
+-- Self-describing password hashes.
+--
+-- password_hash now carries its own algorithm, iterations and salt
+-- ("pbkdf2-sha256$100000$<salt>$<hash>"), so the salt column is only read
+-- for hashes written before this change. Those are rehashed on the user's
+-- next successful login and their salt cleared; history rows keep theirs
+-- until they age out.
+
+ALTER TABLE auth_password_history
+  ALTER COLUMN salt DROP NOT NULL;
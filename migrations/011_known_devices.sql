@@ -0,0 +1,17 @@
+-- Devices and countries each user has signed in from.
+--
+-- device is a coarse label such as "Chrome on macOS"; country is the ISO
+-- code Cloudflare reports ("XX" when unknown). A sign-in that adds a row
+-- with an unseen device or country triggers an alert email — see
+-- src/utils/login-anomaly.ts.
+
+CREATE TABLE IF NOT EXISTS auth_known_devices (
+  id             UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id        UUID NOT NULL REFERENCES auth_users(id) ON DELETE CASCADE,
+  device         TEXT NOT NULL,
+  country        TEXT NOT NULL,
+  last_ip        TEXT,
+  first_seen_at  TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_seen_at   TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (user_id, device, country)
+);
@@ -0,0 +1,16 @@
+-- Per-tenant IP allowlists.
+--
+-- A tenant with any rows here can only be reached (JWT, API key or service
+-- token) from a listed network; a tenant with none is unrestricted. cidr
+-- is stored in the canonical text form produced by normalizeCidr() in
+-- src/utils/ip-allowlist.ts, and mirrored to KV for enforcement.
+
+CREATE TABLE IF NOT EXISTS auth_tenant_ip_allowlists (
+  id           UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id    TEXT NOT NULL,
+  cidr         TEXT NOT NULL,
+  description  TEXT,
+  created_by   UUID REFERENCES auth_users(id) ON DELETE SET NULL,
+  created_at   TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (tenant_id, cidr)
+);
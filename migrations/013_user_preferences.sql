@@ -0,0 +1,17 @@
+-- Per-user preferences: timezone and locale for reports and emails,
+-- display currency, default dashboard filters and email opt-ins.
+--
+-- Users without a row get the defaults in src/utils/preferences.ts.
+-- email_notifications holds only the types a user has set; missing keys
+-- count as opted in.
+
+CREATE TABLE IF NOT EXISTS auth_user_preferences (
+  user_id                UUID PRIMARY KEY REFERENCES auth_users(id) ON DELETE CASCADE,
+  timezone               TEXT NOT NULL DEFAULT 'UTC',
+  locale                 TEXT NOT NULL DEFAULT 'en-GB',
+  currency               TEXT,
+  default_tenant_id      TEXT,
+  default_customer_name  TEXT,
+  email_notifications    JSONB NOT NULL DEFAULT '{}'::jsonb,
+  updated_at             TIMESTAMPTZ NOT NULL DEFAULT now()
+);
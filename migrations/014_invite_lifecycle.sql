@@ -0,0 +1,27 @@
+-- Invitation lifecycle: when an invite was accepted or revoked.
+--
+-- Invites are auth_otp rows with purpose 'invite' (code_hash is the raw
+-- token). used_at is set whenever a row stops being usable — accepted,
+-- replaced by a resend, or revoked — so these columns say which.
+
+ALTER TABLE auth_otp
+  ADD COLUMN IF NOT EXISTS accepted_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS revoked_at  TIMESTAMPTZ;
+
+-- Existing accepted invites: the latest used invite of each user who has
+-- since set a password.
+UPDATE auth_otp o
+SET accepted_at = o.used_at
+FROM auth_users u
+WHERE u.id = o.user_id
+  AND o.purpose = 'invite'
+  AND o.used_at IS NOT NULL
+  AND o.accepted_at IS NULL
+  AND u.password_hash IS NOT NULL
+  AND o.created_at = (
+    SELECT MAX(created_at) FROM auth_otp
+    WHERE user_id = o.user_id AND purpose = 'invite'
+  );
+
+CREATE INDEX IF NOT EXISTS idx_auth_otp_invites
+  ON auth_otp (created_at DESC) WHERE purpose = 'invite';
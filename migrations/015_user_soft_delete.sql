@@ -0,0 +1,94 @@
+-- Soft delete, restore and erasure of users.
+--
+-- DELETE /admin/users/:id sets deleted_at (and deactivates the account)
+-- instead of removing the row; POST /admin/users/:id/restore clears it.
+-- Users deleted for longer than USER_RETENTION_DAYS are erased by the
+-- scheduled purge, and POST /auth/me/erase erases a user on request.
+--
+-- Erasure keeps the auth_users row as an anonymous tombstone (erased_at
+-- set, email and name replaced) so audit entries still point at a user,
+-- deletes the personal data attached to it, and scrubs the user's email,
+-- name, IP addresses and user agents from audit_log through
+-- audit_log_erase_user() — the only change the append-only trigger allows.
+-- The function runs as its own NOLOGIN owner, audit_log_eraser, and the
+-- trigger checks for that role: the app role holds no UPDATE on audit_log
+-- and has nothing it can set to pass for the function.
+
+ALTER TABLE auth_users
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS deleted_by UUID,
+  ADD COLUMN IF NOT EXISTS erased_at  TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_auth_users_deleted
+  ON auth_users (deleted_at) WHERE deleted_at IS NOT NULL AND erased_at IS NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'audit_log_eraser') THEN
+    CREATE ROLE audit_log_eraser NOLOGIN;
+  END IF;
+END;
+$$;
+
+REVOKE UPDATE, DELETE, TRUNCATE ON audit_log FROM simsy_reporting_app;
+GRANT SELECT, UPDATE ON audit_log TO audit_log_eraser;
+
+-- Updates are allowed only from audit_log_erase_user() (running as its
+-- owner, audit_log_eraser), and only to the personal-data columns
+CREATE OR REPLACE FUNCTION audit_log_immutable() RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND current_user = 'audit_log_eraser'
+     AND NEW.id = OLD.id
+     AND NEW.occurred_at = OLD.occurred_at
+     AND NEW.actor_user_id IS NOT DISTINCT FROM OLD.actor_user_id
+     AND NEW.actor_method IS NOT DISTINCT FROM OLD.actor_method
+     AND NEW.tenant_id IS NOT DISTINCT FROM OLD.tenant_id
+     AND NEW.action = OLD.action
+     AND NEW.target_type IS NOT DISTINCT FROM OLD.target_type
+     AND NEW.target_id IS NOT DISTINCT FROM OLD.target_id THEN
+    RETURN NEW;
+  END IF;
+  RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+-- Anonymise a user's audit trail: as actor (email, IP, user agent) and as
+-- target (email / display_name values in changes and metadata).
+-- Returns the number of entries changed.
+CREATE OR REPLACE FUNCTION audit_log_erase_user(p_user_id UUID, p_email TEXT) RETURNS INTEGER AS $$
+DECLARE
+  erased INTEGER;
+BEGIN
+  UPDATE audit_log a SET
+    actor_email = CASE WHEN a.actor_user_id = p_user_id OR lower(a.actor_email) = lower(p_email)
+                       THEN '[erased]' ELSE a.actor_email END,
+    ip_address  = CASE WHEN a.actor_user_id = p_user_id OR lower(a.actor_email) = lower(p_email)
+                       THEN NULL ELSE a.ip_address END,
+    user_agent  = CASE WHEN a.actor_user_id = p_user_id OR lower(a.actor_email) = lower(p_email)
+                       THEN NULL ELSE a.user_agent END,
+    changes = CASE
+      WHEN a.target_type = 'user' AND a.target_id = p_user_id::text
+           AND a.changes ?| ARRAY['email', 'display_name']
+      THEN a.changes || (
+        SELECT jsonb_object_agg(k, '{"from": "[erased]", "to": "[erased]"}'::jsonb)
+        FROM jsonb_object_keys(a.changes) k
+        WHERE k IN ('email', 'display_name')
+      )
+      ELSE a.changes END,
+    metadata = CASE
+      WHEN a.target_type = 'user' AND a.target_id = p_user_id::text AND a.metadata ? 'email'
+      THEN jsonb_set(a.metadata, '{email}', '"[erased]"')
+      ELSE a.metadata END
+  WHERE a.actor_user_id = p_user_id
+     OR lower(a.actor_email) = lower(p_email)
+     OR (a.target_type = 'user' AND a.target_id = p_user_id::text);
+
+  GET DIAGNOSTICS erased = ROW_COUNT;
+  RETURN erased;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+ALTER FUNCTION audit_log_erase_user(UUID, TEXT) OWNER TO audit_log_eraser;
+REVOKE ALL ON FUNCTION audit_log_erase_user(UUID, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION audit_log_erase_user(UUID, TEXT) TO simsy_reporting_app;
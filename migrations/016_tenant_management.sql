@@ -0,0 +1,21 @@
+-- Tenant management from the API (POST/PUT/DELETE /admin/tenants).
+--
+-- rpt_tenants was maintained by hand; platform admins now create tenants,
+-- rename them, move them in the hierarchy and (de)activate them through
+-- the Worker, which connects as simsy_reporting_app. Writes are allowed
+-- only with the platform-admin tenant context ('*').
+
+ALTER TABLE rpt_tenants
+  ADD COLUMN IF NOT EXISTS created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT now();
+
+CREATE INDEX IF NOT EXISTS idx_rpt_tenants_parent
+  ON rpt_tenants (parent_tenant_id);
+
+GRANT INSERT, UPDATE ON rpt_tenants TO simsy_reporting_app;
+
+DROP POLICY IF EXISTS rpt_tenants_platform_write ON rpt_tenants;
+CREATE POLICY rpt_tenants_platform_write ON rpt_tenants
+  FOR ALL TO simsy_reporting_app
+  USING (current_setting('app.current_tenant', true) = '*')
+  WITH CHECK (current_setting('app.current_tenant', true) = '*');
@@ -0,0 +1,37 @@
+-- Tenant attributes, replacing the special cases that were hard-coded by
+-- tenant id and name (see src/utils/tenant-attributes.ts).
+--
+-- The platform tenant was the literal 's-imsy'; it is now whichever tenant
+-- has tenant_kind 'platform' (at most one). The tenant picker hid
+-- 'Eclipse' by name — it is a customer organisation, not a tenant; it is
+-- now hidden by show_in_pickers.
+
+ALTER TABLE rpt_tenants
+  ADD COLUMN IF NOT EXISTS tenant_kind      TEXT NOT NULL DEFAULT 'reseller',
+  ADD COLUMN IF NOT EXISTS show_in_pickers  BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS branding         JSONB NOT NULL DEFAULT '{}'::jsonb,
+  ADD COLUMN IF NOT EXISTS default_currency TEXT;
+
+ALTER TABLE rpt_tenants DROP CONSTRAINT IF EXISTS rpt_tenants_kind_check;
+ALTER TABLE rpt_tenants
+  ADD CONSTRAINT rpt_tenants_kind_check CHECK (tenant_kind IN ('platform', 'reseller', 'customer_org'));
+
+UPDATE rpt_tenants SET tenant_kind = 'platform' WHERE tenant_id = 's-imsy';
+UPDATE rpt_tenants SET tenant_kind = 'customer_org', show_in_pickers = false
+WHERE LOWER(tenant_name) = 'eclipse';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_rpt_tenants_one_platform
+  ON rpt_tenants ((true)) WHERE tenant_kind = 'platform';
+
+-- Read by authentication, before any tenant context (and so RLS) is set up
+CREATE OR REPLACE FUNCTION tenant_attributes(p_tenant_id TEXT)
+RETURNS TABLE (tenant_kind TEXT, is_active BOOLEAN) AS $$
+  SELECT t.tenant_kind, t.is_active FROM rpt_tenants t WHERE t.tenant_id = p_tenant_id
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Read by the daily re-sync of every tenant's snapshot, which also runs
+-- without tenant context
+CREATE OR REPLACE FUNCTION all_tenant_attributes()
+RETURNS TABLE (tenant_id TEXT, tenant_kind TEXT, is_active BOOLEAN) AS $$
+  SELECT t.tenant_id, t.tenant_kind, t.is_active FROM rpt_tenants t
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
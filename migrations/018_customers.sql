@@ -0,0 +1,102 @@
+-- Customer registry.
+--
+-- Report rows name their customer in a free-text customer_name column, and
+-- customer users were bound to one such string — so renaming a customer,
+-- or the same customer appearing under two spellings, silently cut users
+-- off from their data. Customers are now records with a stable id, owned
+-- by a tenant, with aliases for every other spelling found in the report
+-- tables (see src/utils/customers.ts). Users and API keys point at the
+-- customer by id; their customer_name is kept in step with its name.
+--
+-- Aliases must match report rows exactly; lookups by name (picker values,
+-- ?customer=, API key restrictions) are case-insensitive. Report-table RLS
+-- comparing customer_name with app.current_customer sees only the current
+-- name; the Worker's own filters cover the aliases.
+
+CREATE TABLE IF NOT EXISTS customers (
+  id          UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id   TEXT NOT NULL REFERENCES rpt_tenants(tenant_id),
+  name        TEXT NOT NULL,
+  metadata    JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_by  UUID REFERENCES auth_users(id) ON DELETE SET NULL,
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at  TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_customers_tenant_name
+  ON customers (tenant_id, LOWER(name));
+
+CREATE TABLE IF NOT EXISTS customer_aliases (
+  customer_id  UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  alias        TEXT NOT NULL,
+  created_at   TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (customer_id, alias)
+);
+
+CREATE INDEX IF NOT EXISTS idx_customer_aliases_lower
+  ON customer_aliases (LOWER(alias));
+
+ALTER TABLE auth_users
+  ADD COLUMN IF NOT EXISTS customer_id UUID REFERENCES customers(id);
+ALTER TABLE auth_api_keys
+  ADD COLUMN IF NOT EXISTS customer_id UUID REFERENCES customers(id);
+
+CREATE INDEX IF NOT EXISTS idx_auth_users_customer
+  ON auth_users (customer_id) WHERE customer_id IS NOT NULL;
+
+-- Backfill: one customer per tenant and case-insensitive name found in the
+-- report data or on users; other capitalisations become aliases
+CREATE TEMP TABLE customer_name_backfill AS
+SELECT DISTINCT n.tenant_id, n.customer_name
+FROM (
+  SELECT tenant_id, customer_name FROM rpt_bundle_instances
+  UNION
+  SELECT tenant_id, customer_name FROM auth_users
+) n
+JOIN rpt_tenants t ON t.tenant_id = n.tenant_id
+WHERE n.customer_name IS NOT NULL AND n.customer_name <> '';
+
+INSERT INTO customers (tenant_id, name)
+SELECT DISTINCT ON (tenant_id, LOWER(customer_name)) tenant_id, customer_name
+FROM customer_name_backfill
+ORDER BY tenant_id, LOWER(customer_name), customer_name
+ON CONFLICT DO NOTHING;
+
+INSERT INTO customer_aliases (customer_id, alias)
+SELECT c.id, b.customer_name
+FROM customer_name_backfill b
+JOIN customers c ON c.tenant_id = b.tenant_id AND LOWER(c.name) = LOWER(b.customer_name)
+WHERE b.customer_name <> c.name
+ON CONFLICT DO NOTHING;
+
+DROP TABLE customer_name_backfill;
+
+UPDATE auth_users u SET customer_id = c.id
+FROM customers c
+WHERE u.customer_id IS NULL
+  AND c.tenant_id = u.tenant_id
+  AND LOWER(c.name) = LOWER(u.customer_name);
+
+UPDATE auth_api_keys k SET customer_id = c.id
+FROM auth_users u, customers c
+WHERE k.customer_id IS NULL
+  AND u.id = k.user_id
+  AND c.tenant_id = u.tenant_id
+  AND LOWER(c.name) = LOWER(k.customer_name);
+
+-- Every spelling of the customer(s) known by p_name (as a name or alias),
+-- plus p_name itself — for matching report rows by customer_name
+CREATE OR REPLACE FUNCTION customer_name_variants(p_name TEXT) RETURNS TEXT[] AS $$
+  WITH matched AS (
+    SELECT c.id FROM customers c WHERE LOWER(c.name) = LOWER(p_name)
+    UNION
+    SELECT a.customer_id FROM customer_aliases a WHERE LOWER(a.alias) = LOWER(p_name)
+  )
+  SELECT array_agg(DISTINCT v) FROM (
+    SELECT p_name AS v
+    UNION ALL
+    SELECT c.name FROM customers c WHERE c.id IN (SELECT id FROM matched)
+    UNION ALL
+    SELECT a.alias FROM customer_aliases a WHERE a.customer_id IN (SELECT id FROM matched)
+  ) names
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,93 @@
+-- Multiple customer and tenant scopes per user.
+--
+-- A user sees their own tenant (auth_users.tenant_id) and, for the
+-- customer role, their own customer (auth_users.customer_id). Staff who
+-- look after several customer accounts can now be granted more of either:
+--
+--   auth_user_tenants   — further tenants, each with its descendants
+--   auth_user_customers — further customers (customer-role users), of any
+--                         tenant the user can see
+--
+-- The sets are carried in access tokens and API key snapshots (see
+-- src/utils/user-grants.ts) and applied by tenantFilter / customerFilter.
+-- withTenantContext also publishes them as app.current_tenants and
+-- app.current_customers (text[] literals, home tenant / every customer
+-- spelling included), and the report-table RLS policies below read those:
+--
+--   tenant policy   — rows of the caller's tenants and their descendants
+--                     (everything for the platform context '*')
+--   customer policy — customer-role callers: rows of their customers only
+--                     (restrictive; tables with a customer_name column)
+--
+-- These replace any earlier policies on the report tables, which keyed on
+-- app.current_tenant / app.current_customer alone and so would still hide
+-- granted tenants and extra customers.
+
+CREATE TABLE IF NOT EXISTS auth_user_tenants (
+  user_id     UUID NOT NULL REFERENCES auth_users(id) ON DELETE CASCADE,
+  tenant_id   TEXT NOT NULL REFERENCES rpt_tenants(tenant_id) ON DELETE CASCADE,
+  granted_by  UUID REFERENCES auth_users(id) ON DELETE SET NULL,
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, tenant_id)
+);
+
+CREATE TABLE IF NOT EXISTS auth_user_customers (
+  user_id      UUID NOT NULL REFERENCES auth_users(id) ON DELETE CASCADE,
+  customer_id  UUID NOT NULL REFERENCES customers(id),
+  granted_by   UUID REFERENCES auth_users(id) ON DELETE SET NULL,
+  created_at   TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, customer_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_auth_user_customers_customer
+  ON auth_user_customers (customer_id);
+
+-- The caller's tenants (app.current_tenants, else app.current_tenant) and
+-- all their descendants. SECURITY DEFINER: rpt_tenants is itself under RLS.
+CREATE OR REPLACE FUNCTION rls_visible_tenants() RETURNS TEXT[] AS $$
+  WITH RECURSIVE roots AS (
+    SELECT unnest(COALESCE(
+      NULLIF(current_setting('app.current_tenants', true), '')::text[],
+      ARRAY[NULLIF(current_setting('app.current_tenant', true), '')]
+    )) AS tenant_id
+  ), subtree AS (
+    SELECT t.tenant_id FROM rpt_tenants t JOIN roots r ON t.tenant_id = r.tenant_id
+    UNION
+    SELECT c.tenant_id FROM rpt_tenants c JOIN subtree s ON c.parent_tenant_id = s.tenant_id
+  )
+  SELECT COALESCE(array_agg(tenant_id), '{}') FROM subtree
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+DO $$
+DECLARE
+  tbl TEXT;
+  pol RECORD;
+BEGIN
+  FOREACH tbl IN ARRAY ARRAY['rpt_usage', 'rpt_bundle_instances', 'rpt_bundles', 'rpt_endpoints'] LOOP
+    FOR pol IN SELECT policyname FROM pg_policies WHERE schemaname = 'public' AND tablename = tbl LOOP
+      EXECUTE format('DROP POLICY %I ON %I', pol.policyname, tbl);
+    END LOOP;
+
+    EXECUTE format('ALTER TABLE %I ENABLE ROW LEVEL SECURITY', tbl);
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR SELECT TO simsy_reporting_app
+         USING (current_setting(''app.current_tenant'', true) = ''*''
+                OR tenant_id = ANY(rls_visible_tenants()))',
+      tbl || '_tenant', tbl);
+
+    IF tbl IN ('rpt_usage', 'rpt_bundle_instances') THEN
+      EXECUTE format(
+        'CREATE POLICY %I ON %I AS RESTRICTIVE FOR SELECT TO simsy_reporting_app
+           USING (NULLIF(current_setting(''app.current_customers'', true), '''') IS NULL
+                  OR customer_name = ANY(current_setting(''app.current_customers'', true)::text[]))',
+        tbl || '_customer', tbl);
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- Granted tenants show up in GET /filters/tenants and tenant lookups too
+DROP POLICY IF EXISTS rpt_tenants_granted_read ON rpt_tenants;
+CREATE POLICY rpt_tenants_granted_read ON rpt_tenants
+  FOR SELECT TO simsy_reporting_app
+  USING (tenant_id = ANY(rls_visible_tenants()));
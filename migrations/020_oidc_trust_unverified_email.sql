@@ -0,0 +1,10 @@
+-- Per-provider opt-in for identity providers that don't send email_verified.
+--
+-- SSO sign-in links accounts by email, so it now requires the IdP to
+-- assert email_verified = true. Some IdPs (Azure AD among them) never
+-- send the claim for directory accounts; for those an admin can set
+-- trust_unverified_email to accept the email as-is. An explicit
+-- email_verified = false is refused either way.
+
+ALTER TABLE auth_oidc_providers
+  ADD COLUMN IF NOT EXISTS trust_unverified_email BOOLEAN NOT NULL DEFAULT false;
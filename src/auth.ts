@@ -1,22 +1,25 @@
 /**
  * Authentication module.
  *
- * Supports two authentication paths:
+ * Supports three authentication paths:
  *   1. JWT Bearer token — for browser-based user sessions (email/password + 2FA)
- *   2. CF-Access-Client-Id header — for programmatic/service token access (legacy)
+ *   2. API key Bearer token (srk_...) — for programmatic access
+ *   3. CF-Access-Client-Id header — service tokens (legacy, superseded by API keys)
  *
  * Both paths resolve to a TenantInfo object used for RLS context downstream.
  */
 
 import type { Env, TenantInfo } from './types';
-import { verifyJWT } from './utils/jwt';
+import { verifyJWT, loadJWTKeys } from './utils/jwt';
 import { hashTokenId } from './utils/crypto';
+import { API_KEY_PREFIX, getApiKeySnapshot } from './utils/api-keys';
+import { DEFAULT_ROLE_PERMISSIONS, isPermission } from './permissions';
 
 /**
  * Extract tenant information from the request.
  *
  * Tries (in order):
- *   1. Authorization: Bearer <JWT> header
+ *   1. Authorization: Bearer <API key> or <JWT> header
  *   2. CF-Access-Client-Id header (KV lookup)
  *   3. X-Tenant-Id header (development fallback)
  */
@@ -28,6 +31,9 @@ export async function authenticateTenant(
   const authHeader = request.headers.get('Authorization');
   if (authHeader?.startsWith('Bearer ')) {
     const token = authHeader.slice(7);
+    if (token.startsWith(API_KEY_PREFIX)) {
+      return authenticateApiKey(token, env);
+    }
     return authenticateJWT(token, env);
   }
 
@@ -36,10 +42,15 @@ export async function authenticateTenant(
   if (clientId) {
     const tenantInfo = (await env.TENANT_KV.get(`token:${clientId}`, 'json')) as Omit<
       TenantInfo,
-      'auth_method'
+      'auth_method' | 'permissions'
     > | null;
     if (tenantInfo) {
-      return { ...tenantInfo, auth_method: 'service_token' };
+      console.warn(`[AUTH] Deprecated service token used by Client ID ${clientId} — migrate to an API key`);
+      return {
+        ...tenantInfo,
+        permissions: DEFAULT_ROLE_PERMISSIONS[tenantInfo.role] || [],
+        auth_method: 'service_token',
+      };
     }
     console.warn(`[AUTH] Unknown Client ID: ${clientId}`);
     return null;
@@ -53,6 +64,7 @@ export async function authenticateTenant(
       tenant_id: devTenantId,
       tenant_name: devTenantId,
       role: 'tenant',
+      permissions: DEFAULT_ROLE_PERMISSIONS.tenant,
       auth_method: 'service_token',
     };
   }
@@ -64,24 +76,67 @@ export async function authenticateTenant(
  * Verify a JWT and check that its session hasn't been revoked.
  */
 async function authenticateJWT(token: string, env: Env): Promise<TenantInfo | null> {
-  const payload = await verifyJWT(token, env.JWT_SECRET);
+  const payload = await verifyJWT(token, loadJWTKeys(env));
   if (!payload) return null;
 
-  // Check session exists in KV (fast revocation check)
-  const tokenHash = await hashTokenId(payload.jti);
+  // Check session exists in KV (fast revocation check). Every access token
+  // minted for a session carries the same sid; older tokens used their jti.
+  const tokenHash = await hashTokenId(payload.sid || payload.jti);
   const sessionValid = await env.TENANT_KV.get(`session:${tokenHash}`);
   if (!sessionValid) {
     // Session was revoked or expired in KV
     return null;
   }
 
+  // An impersonation session's KV value is the admin's own session hash:
+  // it ends as soon as the admin's session does
+  if (payload.act && !(await env.TENANT_KV.get(`session:${sessionValid}`))) {
+    return null;
+  }
+
   return {
     tenant_id: payload.tenant_id,
     tenant_name: payload.tenant_name,
     role: payload.role,
+    customer_id: payload.customer_id,
     customer_name: payload.customer_name,
+    customer_ids: payload.customer_ids,
+    granted_tenant_ids: payload.granted_tenant_ids,
     user_id: payload.sub,
     user_email: payload.email,
+    // Tokens minted before permissions existed fall back to the role defaults
+    permissions: payload.perms ? payload.perms.filter(isPermission) : DEFAULT_ROLE_PERMISSIONS[payload.role] || [],
+    session_hash: tokenHash,
+    impersonator: payload.act ? { user_id: payload.act.sub, email: payload.act.email } : undefined,
     auth_method: 'jwt',
   };
 }
+
+/**
+ * Resolve an API key from its KV snapshot (written at creation and kept in
+ * sync with the owning user; deleted on revocation).
+ */
+async function authenticateApiKey(key: string, env: Env): Promise<TenantInfo | null> {
+  const snapshot = await getApiKeySnapshot(env, key);
+  if (!snapshot) return null;
+
+  if (new Date(snapshot.expires_at) <= new Date()) {
+    return null;
+  }
+
+  return {
+    tenant_id: snapshot.tenant_id,
+    tenant_name: snapshot.tenant_id,
+    role: snapshot.role,
+    customer_id: snapshot.customer_id || undefined,
+    customer_name: snapshot.customer_name || undefined,
+    customer_ids: snapshot.customer_ids || undefined,
+    granted_tenant_ids: snapshot.granted_tenant_ids || undefined,
+    user_id: snapshot.user_id,
+    user_email: snapshot.user_email,
+    api_key_id: snapshot.key_id,
+    api_key_scopes: snapshot.scopes,
+    permissions: snapshot.permissions.filter(isPermission),
+    auth_method: 'api_key',
+  };
+}
@@ -5,9 +5,7 @@
 
 import postgres from 'postgres';
 import type { Env, TenantInfo } from './types';
-
-/** The tenant_id for the S-IMSY platform admin. Only this tenant gets unscoped access. */
-export const PLATFORM_TENANT_ID = 's-imsy';
+import { resolveCustomerScope } from './utils/customers';
 
 export function createDbClient(env: Env) {
   return postgres(env.HYPERDRIVE.connectionString, {
@@ -18,60 +16,171 @@ export function createDbClient(env: Env) {
   });
 }
 
+/** Check if the caller belongs to the platform tenant (tenant_kind 'platform'). */
+export function isPlatformTenant(tenant: TenantInfo): boolean {
+  return tenant.tenant_kind === 'platform';
+}
+
 /**
- * Check if the user is the platform admin (S-IMSY admin).
+ * Check if the user is a platform admin (role=admin on the platform tenant).
  * Only this combination gets unscoped, cross-tenant access.
  */
 export function isPlatformAdmin(tenant: TenantInfo): boolean {
-  return tenant.role === 'admin' && tenant.tenant_id === PLATFORM_TENANT_ID;
+  return tenant.role === 'admin' && isPlatformTenant(tenant);
+}
+
+/**
+ * Subquery yielding `root` (a SQL expression, usually a placeholder such
+ * as '$1') and every tenant below it in the parent_tenant_id hierarchy.
+ * UNION (not UNION ALL) stops at a tenant already seen, so a hand-edited
+ * cycle can't make it loop.
+ */
+export function tenantSubtree(root: string): string {
+  return `WITH RECURSIVE subtree AS (
+      SELECT t.tenant_id FROM rpt_tenants t WHERE t.tenant_id = ${root}
+      UNION
+      SELECT c.tenant_id FROM rpt_tenants c JOIN subtree s ON c.parent_tenant_id = s.tenant_id
+    ) SELECT tenant_id FROM subtree`;
 }
 
 /**
  * Build a tenant filter clause for use in SQL queries.
  *
  * Security model (hardened):
- * - S-IMSY platform admin (role=admin, tenant_id=s-imsy): sees all data → '1=1'
- * - Sub-tenant (role=tenant OR role=admin on non-s-imsy tenant): sees own + child tenant data
+ * - Platform admin (role=admin on the tenant_kind=platform tenant): sees all data → '1=1'
+ * - Sub-tenant (role=tenant, or role=admin on any other tenant): sees own tenant's data and
+ *   that of every tenant below it, however deep (see tenantSubtree)
  * - Customer (role=customer): sees only their own tenant's data
- *   (customer_name filtering is applied separately by each route handler)
+ * - Tenants granted to the user (granted_tenant_ids, see src/utils/user-grants.ts)
+ *   count as their own: each is included with its descendants
+ *   (customer filtering is applied separately by each route handler, see customerFilter)
+ *
+ * `column` names the tenant column to filter, e.g. 'u.tenant_id' when
+ * scoping auth_users rows to the tenants an admin manages.
  *
  * Returns { clause, params, nextIdx }
  */
 export function tenantFilter(
   tenant: TenantInfo,
   startIdx: number = 1,
+  column: string = 'tenant_id',
 ): { clause: string; params: unknown[]; nextIdx: number } {
-  // Only the S-IMSY platform admin gets unscoped access
+  // Only platform admins get unscoped access
   if (isPlatformAdmin(tenant)) {
     return { clause: '1=1', params: [], nextIdx: startIdx };
   }
-  // Everyone else is scoped to their own tenant + any child tenants
-  const clause = `tenant_id IN (SELECT t.tenant_id FROM rpt_tenants t WHERE t.tenant_id = $${startIdx} OR t.parent_tenant_id = $${startIdx})`;
+  // Everyone else is scoped to their own tenant + all of its descendants
+  if (!tenant.granted_tenant_ids?.length) {
+    const clause = `${column} IN (${tenantSubtree(`$${startIdx}`)})`;
+    return {
+      clause,
+      params: [tenant.tenant_id],
+      nextIdx: startIdx + 1,
+    };
+  }
+  // ...plus the tenants they've been granted, with theirs
+  const clause = `${column} IN (${tenantSubtree(`ANY($${startIdx}::text[])`)})`;
   return {
     clause,
-    params: [tenant.tenant_id],
+    params: [[tenant.tenant_id, ...tenant.granted_tenant_ids]],
     nextIdx: startIdx + 1,
   };
 }
 
+/**
+ * Build a customer filter clause for customer-role callers: rows whose
+ * customer column holds any spelling (name or alias, resolved by
+ * withTenantContext) of any of their customers. A customer-role caller
+ * without a resolvable customer matches nothing. Returns null for everyone
+ * else.
+ *
+ * Returns { clause, params, nextIdx }
+ */
+export function customerFilter(
+  tenant: TenantInfo,
+  startIdx: number = 1,
+  column: string = 'customer_name',
+): { clause: string; params: unknown[]; nextIdx: number } | null {
+  if (tenant.role !== 'customer') return null;
+  const names = tenant.customer_names ?? (tenant.customer_name ? [tenant.customer_name] : []);
+  return { clause: `${column} = ANY($${startIdx}::text[])`, params: [names], nextIdx: startIdx + 1 };
+}
+
+/**
+ * Clause matching `column` against every spelling of the customer named by
+ * parameter `$idx` (see customer_name_variants in migrations/018_customers.sql),
+ * for the platform admin's ?customer= filter.
+ */
+export function customerNameMatch(column: string, idx: number): string {
+  return `${column} = ANY(customer_name_variants($${idx}))`;
+}
+
 /**
  * Execute a callback within a transaction with tenant RLS context.
- * SET LOCAL only works inside BEGIN...COMMIT, so we must wrap
- * all tenant-scoped queries in a transaction.
+ * The settings are transaction-local (set_config(..., true), i.e. SET
+ * LOCAL, with the values passed as parameters), so we must wrap all
+ * tenant-scoped queries in a transaction.
+ *
+ * app.current_tenant / app.current_customer hold the caller's own tenant
+ * and customer; app.current_tenants / app.current_customers (text[]
+ * literals) add their granted tenants and every spelling of each customer
+ * (see migrations/019_user_scope_grants.sql).
  */
 export async function withTenantContext<T>(
   sql: postgres.Sql,
   tenant: TenantInfo,
   callback: (sql: postgres.Sql) => Promise<T>
 ): Promise<T> {
+  // Customer users follow their customers' current names and aliases
+  const scoped = async (db: postgres.Sql): Promise<T> => {
+    if (!isPlatformAdmin(tenant)) {
+      await db.unsafe(`SELECT set_config('app.current_tenants', $1::text[]::text, true)`, [
+        [tenant.tenant_id, ...(tenant.granted_tenant_ids ?? [])],
+      ]);
+    }
+    if (tenant.role === 'customer') {
+      const scope = await resolveCustomerScope(db, tenant);
+      tenant.customer_name = scope.name ?? undefined;
+      tenant.customer_names = scope.names;
+      if (scope.name) {
+        await db.unsafe(`SELECT set_config('app.current_customer', $1, true)`, [scope.name]);
+      }
+      await db.unsafe(`SELECT set_config('app.current_customers', $1::text[]::text, true)`, [scope.names]);
+    }
+    return await callback(db);
+  };
+
   return await sql.begin(async (tx) => {
     const tenantValue = isPlatformAdmin(tenant) ? '*' : tenant.tenant_id;
-    await tx.unsafe(`SET LOCAL app.current_tenant = '${tenantValue}'`);
+    await tx.unsafe(`SELECT set_config('app.current_tenant', $1, true)`, [tenantValue]);
+    return await scoped(tx);
+  });
+}
 
-    if (tenant.role === 'customer' && tenant.customer_name) {
-      await tx.unsafe(`SET LOCAL app.current_customer = '${tenant.customer_name}'`);
-    }
+/**
+ * Calendar-day expression for rpt_usage rows in timezone `tz`.
+ *
+ * usage_date is the UTC day; for any other zone the day is derived from
+ * `timestamp` instead (not indexed: filter on it with usageDayBound) and
+ * the zone name is appended to `params`. `tz` in the result is the zone as SQL,
+ * for expressions such as date_trunc('month', NOW() AT TIME ZONE ...).
+ * Call it only when the result will be used — Postgres rejects a query
+ * with an unreferenced parameter.
+ */
+export function usageDayColumn(tz: string, params: unknown[]): { day: string; tz: string } {
+  if (tz === 'UTC') return { day: 'usage_date', tz: "'UTC'" };
+  params.push(tz);
+  const placeholder = `$${params.length}`;
+  return { day: `(timestamp AT TIME ZONE ${placeholder})::date`, tz: placeholder };
+}
 
-    return await callback(tx);
-  });
+/**
+ * Condition that the local day (from usageDayColumn) is `op` the date
+ * expression `value`. Outside UTC the local day isn't indexed, so the
+ * condition also bounds usage_date one day wider — no zone is more than
+ * a day from UTC — which lets Postgres use the usage_date index.
+ */
+export function usageDayBound(local: { day: string }, op: '>=' | '<=', value: string): string {
+  if (local.day === 'usage_date') return `usage_date ${op} ${value}`;
+  return `${local.day} ${op} ${value} AND usage_date ${op} (${value})::date ${op === '>=' ? '-' : '+'} 1`;
 }
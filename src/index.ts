@@ -2,20 +2,48 @@
  * S-IMSY Reporting API Worker
  *
  * Cloudflare Worker that serves the REST API for the reporting platform.
- * Authenticates users via JWT (browser) or Cloudflare Access service tokens (API),
- * enforces Row-Level Security per request, and returns JSON responses.
+ * Authenticates users via JWT (browser), API keys (programmatic) or legacy
+ * Cloudflare Access service tokens, enforces Row-Level Security per request,
+ * and returns JSON responses.
  *
  * Base path: /api/v1/
  *
+ * GET /.well-known/jwks.json — Public keys that verify our JWTs
+ *
  * Public routes (no auth required):
  *   POST /api/v1/auth/login            — Email + password → OTP
  *   POST /api/v1/auth/verify-otp       — OTP → JWT
  *   POST /api/v1/auth/forgot-password  — Send password reset OTP
  *   POST /api/v1/auth/reset-password   — Verify OTP + set new password
+ *   POST /api/v1/auth/refresh          — Refresh token → new access token
+ *   POST /api/v1/auth/change-expired-password — Replace an expired password → JWT
+ *   POST /api/v1/auth/webauthn/login/options — Passkey assertion options
+ *   POST /api/v1/auth/webauthn/login/verify  — Passkey assertion → JWT
+ *   POST /api/v1/auth/oidc/start       — Email → IdP authorization URL
+ *   POST /api/v1/auth/oidc/callback    — IdP code → JWT
  *
  * Protected routes:
  *   GET  /api/v1/auth/me               — Current user profile
+ *   GET  /api/v1/auth/me/preferences   — Timezone, locale, currency, default filters, email opt-ins
+ *   PUT  /api/v1/auth/me/preferences   — Update preferences
+ *   GET  /api/v1/auth/me/export        — Download everything stored about me
+ *   POST /api/v1/auth/me/erase         — Erase my account (password + OTP)
  *   POST /api/v1/auth/logout           — Invalidate session
+ *   POST /api/v1/auth/change-password  — Change password (current password + OTP)
+ *   POST /api/v1/auth/impersonation/end — End a "view as" session
+ *   GET  /api/v1/auth/mfa              — MFA method + enrolment status
+ *   POST /api/v1/auth/mfa/totp/setup   — Start authenticator-app enrolment
+ *   POST /api/v1/auth/mfa/totp/confirm — Confirm enrolment with a TOTP code
+ *   POST /api/v1/auth/mfa/totp/disable — Revert to email OTP
+ *   GET  /api/v1/auth/me/recovery-codes — Unused recovery code count
+ *   POST /api/v1/auth/me/recovery-codes — Regenerate recovery codes
+ *   POST /api/v1/auth/webauthn/register/options — Passkey creation options
+ *   POST /api/v1/auth/webauthn/register/verify  — Register a passkey
+ *   GET  /api/v1/auth/webauthn/credentials      — List passkeys
+ *   DELETE /api/v1/auth/webauthn/credentials/:id — Remove a passkey
+ *   GET  /api/v1/auth/sessions         — Caller's active sessions
+ *   DELETE /api/v1/auth/sessions/:id   — Sign out one session
+ *   POST /api/v1/auth/sessions/revoke-others — Sign out everywhere else
  *   GET  /api/v1/usage/summary         — Aggregated usage data
  *   GET  /api/v1/usage/records         — Paginated usage records
  *   GET  /api/v1/bundles               — List active bundles
@@ -24,18 +52,59 @@
  *   GET  /api/v1/endpoints             — List endpoints
  *   GET  /api/v1/endpoints/:id/usage   — Endpoint-specific usage
  *   POST /api/v1/export                — Bulk data export (CSV/JSON)
+ *   GET  /api/v1/api-keys              — List own API keys
+ *   POST /api/v1/api-keys              — Create an API key (shown once)
+ *   DELETE /api/v1/api-keys/:id        — Revoke an API key
+ *   GET  /api/v1/customers             — List customers (customers:manage)
+ *   POST /api/v1/customers             — Create a customer
+ *   GET  /api/v1/customers/:id         — Customer detail
+ *   PUT  /api/v1/customers/:id         — Rename, move, edit aliases/metadata
+ *   DELETE /api/v1/customers/:id       — Delete an unused customer
+ *
+ * Every authenticated request is checked against its tenant's IP allowlist
+ * (and those of any granted tenants), if it has one, and refused if the
+ * tenant is deactivated (403 either way).
  *
- * Admin routes (require admin role + JWT):
+ * Admin routes (platform tenant + JWT, plus the route's permission; tenant
+ * admins may use the users/invites/sessions/audit/password-policy/ip-allowlist
+ * routes, scoped to their own tenants):
  *   GET    /api/v1/admin/users                   — List users
  *   POST   /api/v1/admin/users                   — Create user
+ *   POST   /api/v1/admin/users/bulk-invite       — Invite users in bulk (JSON or CSV)
  *   GET    /api/v1/admin/users/:id               — User detail
  *   PUT    /api/v1/admin/users/:id               — Update user
- *   DELETE /api/v1/admin/users/:id               — Deactivate user
+ *   DELETE /api/v1/admin/users/:id               — Soft-delete user (restorable until purged)
+ *   POST   /api/v1/admin/users/:id/restore       — Restore a deleted user
  *   POST   /api/v1/admin/users/:id/reset-password — Reset password
  *   POST   /api/v1/admin/users/:id/resend-invite — Re-send invite email
+ *   POST   /api/v1/admin/users/:id/impersonate   — View as user (read-only token)
+ *   DELETE /api/v1/admin/users/:id/mfa           — Reset MFA enrolment
+ *   GET    /api/v1/admin/invites                 — Invites and their status
+ *   DELETE /api/v1/admin/invites/:id             — Revoke a pending invite
  *   GET    /api/v1/admin/sessions                — Active sessions
  *   DELETE /api/v1/admin/sessions/:id            — Revoke session
- *   GET    /api/v1/admin/tenants                 — List tenants
+ *   GET    /api/v1/admin/tenants                 — List tenants (?format=tree)
+ *   POST   /api/v1/admin/tenants                 — Create tenant
+ *   PUT    /api/v1/admin/tenants/:id             — Rename / move / (de)activate tenant
+ *   DELETE /api/v1/admin/tenants/:id             — Deactivate tenant
+ *   GET    /api/v1/admin/roles                   — List named roles
+ *   POST   /api/v1/admin/roles                   — Create named role
+ *   PUT    /api/v1/admin/roles/:id               — Update named role
+ *   DELETE /api/v1/admin/roles/:id               — Delete named role
+ *   GET    /api/v1/admin/oidc-providers          — List SSO providers
+ *   POST   /api/v1/admin/oidc-providers          — Create SSO provider
+ *   PUT    /api/v1/admin/oidc-providers/:id      — Update SSO provider
+ *   DELETE /api/v1/admin/oidc-providers/:id      — Delete SSO provider
+ *   GET    /api/v1/admin/audit                   — Audit log (filterable, ?format=csv)
+ *   GET    /api/v1/admin/password-policy         — Tenant password policy
+ *   PUT    /api/v1/admin/password-policy         — Update tenant password policy
+ *   GET    /api/v1/admin/ip-allowlist            — Tenant IP allowlist
+ *   POST   /api/v1/admin/ip-allowlist            — Add an allowed CIDR
+ *   DELETE /api/v1/admin/ip-allowlist/:id        — Remove an allowed CIDR
+ *
+ * Scheduled (cron trigger in wrangler.toml): erase users deleted more than
+ * USER_RETENTION_DAYS ago (see src/utils/user-lifecycle.ts) and re-sync
+ * the tenant attribute snapshots (see src/utils/tenant-attributes.ts).
  */
 
 import type { Env } from './types';
@@ -43,6 +112,7 @@ import { authenticateTenant } from './auth';
 import { createDbClient, withTenantContext } from './db';
 import { handleOptions, corsHeaders } from './middleware/cors';
 import { checkRateLimit } from './middleware/rate-limit';
+import { checkAuthThrottle } from './middleware/auth-throttle';
 import {
   routeRequest,
   handleLogin,
@@ -50,8 +120,19 @@ import {
   handleForgotPassword,
   handleResetPassword,
   handleAcceptInvite,
+  handleRefresh,
+  handleChangeExpiredPassword,
+  handleWebAuthnLoginOptions,
+  handleWebAuthnLoginVerify,
+  handleOidcStart,
+  handleOidcCallback,
 } from './router';
 import { errorResponse, jsonResponse } from './utils/response';
+import { getIpAllowlist, ipInAllowlist } from './utils/ip-allowlist';
+import { getTenantSnapshot, syncTenantSnapshot, syncAllTenantSnapshots } from './utils/tenant-attributes';
+import { recordAudit, clientIp } from './utils/audit';
+import { loadJWTKeys, publicJWKS, JWTConfigError } from './utils/jwt';
+import { purgeDeletedUsers } from './utils/user-lifecycle';
 
 /** Auth paths that do NOT require authentication */
 const PUBLIC_AUTH_PATHS = new Set([
@@ -60,6 +141,12 @@ const PUBLIC_AUTH_PATHS = new Set([
   '/api/v1/auth/forgot-password',
   '/api/v1/auth/reset-password',
   '/api/v1/auth/accept-invite',
+  '/api/v1/auth/refresh',
+  '/api/v1/auth/change-expired-password',
+  '/api/v1/auth/webauthn/login/options',
+  '/api/v1/auth/webauthn/login/verify',
+  '/api/v1/auth/oidc/start',
+  '/api/v1/auth/oidc/callback',
 ]);
 
 export default {
@@ -81,6 +168,19 @@ export default {
       });
     }
 
+    // Public verification keys for our JWTs
+    if (url.pathname === '/.well-known/jwks.json' && request.method === 'GET') {
+      let keys;
+      try {
+        keys = loadJWTKeys(env);
+      } catch (error) {
+        return jwtConfigErrorResponse(error);
+      }
+      const response = jsonResponse(publicJWKS(keys));
+      response.headers.set('Cache-Control', 'public, max-age=300');
+      return response;
+    }
+
     // API info
     if (url.pathname === '/api' || url.pathname === '/api/v1') {
       return jsonResponse({
@@ -101,8 +201,9 @@ export default {
         ],
         authentication: {
           methods: [
-            { type: 'Bearer JWT', description: 'Login via /auth/login + /auth/verify-otp' },
-            { type: 'Service Token', headers: ['CF-Access-Client-Id'], description: 'Cloudflare Access service token' },
+            { type: 'Bearer JWT', description: 'Login via /auth/login + /auth/verify-otp, or a passkey via /auth/webauthn/login/*' },
+            { type: 'API Key', headers: ['Authorization: Bearer srk_...'], description: 'Read-only key created via /api/v1/api-keys' },
+            { type: 'Service Token', headers: ['CF-Access-Client-Id'], description: 'Cloudflare Access service token (deprecated)' },
           ],
         },
       });
@@ -131,11 +232,66 @@ export default {
     // ── Authenticated routes ────────────────────────────────────────
 
     // Authenticate tenant (JWT or service token)
-    const tenant = await authenticateTenant(request, env);
+    let tenant;
+    try {
+      tenant = await authenticateTenant(request, env);
+    } catch (error) {
+      if (error instanceof JWTConfigError) return jwtConfigErrorResponse(error);
+      throw error;
+    }
     if (!tenant) {
       return errorResponse(401, 'Unauthorized', 'Invalid or missing authentication');
     }
 
+    // Tenant kind and status (the database is only consulted on a KV miss)
+    let attributes = await getTenantSnapshot(env, tenant.tenant_id);
+    if (!attributes) {
+      const sql = createDbClient(env);
+      try {
+        attributes = await syncTenantSnapshot(sql, env, tenant.tenant_id);
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        console.error(`[API] Tenant attribute lookup failed for ${tenant.tenant_id}: ${msg}`);
+        return errorResponse(503, 'Service Unavailable', 'Could not check your organisation\'s status. Please retry.');
+      } finally {
+        await sql.end();
+      }
+    }
+    if (attributes?.is_active === false) {
+      return errorResponse(403, 'Account disabled', 'Your organisation\'s access has been suspended. Contact your administrator.');
+    }
+    tenant.tenant_kind = attributes?.tenant_kind;
+
+    // Tenant IP allowlists: the home tenant's and those of any granted tenants
+    let blockedTenantId: string | null = null;
+    for (const tenantId of [tenant.tenant_id, ...(tenant.granted_tenant_ids ?? [])]) {
+      const allowlist = await getIpAllowlist(env, tenantId);
+      if (allowlist && !ipInAllowlist(clientIp(request), allowlist)) {
+        blockedTenantId = tenantId;
+        break;
+      }
+    }
+    if (blockedTenantId) {
+      const sql = createDbClient(env);
+      try {
+        await recordAudit(sql, request, {
+          action: 'auth.ip_blocked',
+          tenant,
+          metadata: {
+            method: request.method,
+            path: url.pathname,
+            auth_method: tenant.auth_method,
+            blocked_tenant_id: blockedTenantId,
+          },
+        });
+      } finally {
+        await sql.end();
+      }
+      const which = blockedTenantId === tenant.tenant_id ? 'this tenant' : `tenant ${blockedTenantId}`;
+      return errorResponse(403, 'IP address not allowed',
+        `Access to ${which} is restricted to approved networks, and ${clientIp(request)} is not one of them. Contact your administrator.`);
+    }
+
     // Rate limiting
     const isExport = url.pathname.endsWith('/export') && request.method === 'POST';
     const weight = isExport ? 5 : 1;
@@ -175,11 +331,31 @@ export default {
       await sql.end();
     }
   },
+
+  async scheduled(_controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+    const sql = createDbClient(env);
+    ctx.waitUntil(
+      purgeDeletedUsers(sql, env)
+        .then((purged) => console.log(`[CRON] Purged ${purged} deleted user(s)`))
+        .catch((err) => console.error('[CRON] User purge failed:', err))
+        .then(() => syncAllTenantSnapshots(sql, env))
+        .catch((err) => console.error('[CRON] Tenant attribute sync failed:', err))
+        .finally(() => sql.end()),
+    );
+  },
 };
 
+/** Log unusable JWT key configuration and fail the request without details. */
+function jwtConfigErrorResponse(error: unknown): Response {
+  const msg = error instanceof Error ? error.message : String(error);
+  console.error(`[JWT] Key configuration error: ${msg}`);
+  return errorResponse(500, 'Internal Server Error', 'Token signing is misconfigured');
+}
+
 /**
  * Route public (unauthenticated) auth requests.
- * These get a raw SQL connection with no RLS context.
+ * These get a raw SQL connection with no RLS context, and are throttled
+ * per client IP and per email (see middleware/auth-throttle.ts).
  */
 async function routePublicAuth(
   request: Request,
@@ -187,6 +363,18 @@ async function routePublicAuth(
   sql: ReturnType<typeof createDbClient>,
   env: Env,
 ): Promise<Response> {
+  const throttle = await checkAuthThrottle(request, url.pathname, env);
+  if (!throttle.allowed) {
+    const minutes = Math.ceil(throttle.retryAfter / 60);
+    const response = errorResponse(429, 'Too many attempts',
+      `Try again in ${minutes} minute${minutes !== 1 ? 's' : ''}.`);
+    response.headers.set('Retry-After', String(throttle.retryAfter));
+    return response;
+  }
+  if (throttle.delayMs > 0) {
+    await new Promise((resolve) => setTimeout(resolve, throttle.delayMs));
+  }
+
   switch (url.pathname) {
     case '/api/v1/auth/login':
       return handleLogin(request, sql, env);
@@ -198,6 +386,18 @@ async function routePublicAuth(
       return handleResetPassword(request, sql, env);
     case '/api/v1/auth/accept-invite':
       return handleAcceptInvite(request, sql, env);
+    case '/api/v1/auth/refresh':
+      return handleRefresh(request, sql, env);
+    case '/api/v1/auth/change-expired-password':
+      return handleChangeExpiredPassword(request, sql, env);
+    case '/api/v1/auth/webauthn/login/options':
+      return handleWebAuthnLoginOptions(request, sql, env);
+    case '/api/v1/auth/webauthn/login/verify':
+      return handleWebAuthnLoginVerify(request, sql, env);
+    case '/api/v1/auth/oidc/start':
+      return handleOidcStart(request, sql, env);
+    case '/api/v1/auth/oidc/callback':
+      return handleOidcCallback(request, sql, env);
     default:
       return errorResponse(404, 'Not Found');
   }
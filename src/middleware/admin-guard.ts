@@ -1,17 +1,33 @@
 /**
  * Admin authorization guard.
  *
- * Only the S-IMSY platform admin (role=admin, tenant_id=s-imsy) can
- * access /admin/* routes. Any other user — even those with role=admin
- * on a different tenant — is denied.
+ * Users of the platform tenant (tenant_kind=platform) can reach every
+ * /admin/* route. Users of any other tenant can reach only the user,
+ * invite and session administration routes, the audit log, the password policy and
+ * the IP allowlist, and the handlers scope those to the caller's own
+ * tenant + descendant tenants.
+ * Either way a JWT session is required, and which routes a user may
+ * actually call is decided by their permissions (see src/permissions.ts) —
+ * by default only role=admin holds users:manage and sessions:manage.
  */
 
 import type { TenantInfo } from '../types';
-import { isPlatformAdmin } from '../db';
+import { isPlatformTenant } from '../db';
 import { errorResponse } from '../utils/response';
 
-export function requireAdmin(tenant: TenantInfo): Response | null {
-  if (!isPlatformAdmin(tenant)) {
+/** Admin routes open to tenant (delegated) admins. */
+const DELEGATED_ADMIN_ROUTES: RegExp[] = [
+  /^\/admin\/users(\/[^/]+(\/(reset-password|resend-invite|restore|mfa))?)?$/,
+  /^\/admin\/invites(\/[^/]+)?$/,
+  /^\/admin\/sessions(\/[^/]+)?$/,
+  /^\/admin\/audit$/,
+  /^\/admin\/password-policy$/,
+  /^\/admin\/ip-allowlist(\/[^/]+)?$/,
+];
+
+export function requireAdmin(tenant: TenantInfo, apiPath: string): Response | null {
+  const delegated = DELEGATED_ADMIN_ROUTES.some((re) => re.test(apiPath));
+  if (!isPlatformTenant(tenant) && !delegated) {
     return errorResponse(403, 'Forbidden', 'Platform admin access required');
   }
   if (tenant.auth_method !== 'jwt') {
@@ -0,0 +1,19 @@
+/**
+ * API key authorization guard.
+ *
+ * API keys are read-only and limited to the report types in their scopes;
+ * auth, admin and key-management routes always require a JWT session.
+ */
+
+import type { TenantInfo } from '../types';
+import { apiKeyAllows } from '../utils/api-keys';
+import { errorResponse } from '../utils/response';
+
+export function requireApiKeyScope(tenant: TenantInfo, method: string, apiPath: string): Response | null {
+  if (tenant.auth_method !== 'api_key') return null;
+
+  if (!apiKeyAllows(tenant.api_key_scopes || [], method, apiPath)) {
+    return errorResponse(403, 'Forbidden', `This API key is not allowed to call ${method} ${apiPath}`);
+  }
+  return null; // authorized
+}
@@ -0,0 +1,123 @@
+/**
+ * Brute-force protection for the public auth routes, using Cloudflare KV.
+ *
+ * The per-account lockout in handleLogin doesn't stop one client from
+ * trying a few passwords against many accounts, or flooding
+ * forgot-password with OTP emails. Each public auth request is counted
+ * against its client IP and, where the body carries one, its email, in a
+ * sliding 15-minute window (the previous window's count is weighted by how
+ * much of it still overlaps).
+ *
+ * Once a counter passes half its limit, responses are delayed — doubling
+ * from 250ms up to 8s — and at the limit the request is refused with 429.
+ */
+
+import type { Env } from '../types';
+import { clientIp } from '../utils/audit';
+
+const WINDOW_SECONDS = 15 * 60;
+const BASE_DELAY_MS = 250;
+const MAX_DELAY_MS = 8_000;
+
+interface ThrottleRule {
+  /** Requests per window from one IP */
+  ip: number;
+  /** Requests per window naming one email address */
+  email?: number;
+}
+
+/** Limits per route (path below /api/v1/auth/); other routes get DEFAULT_RULE. */
+const THROTTLE_RULES: Record<string, ThrottleRule> = {
+  login: { ip: 50, email: 10 },
+  'verify-otp': { ip: 50 },
+  'forgot-password': { ip: 10, email: 3 },
+  'reset-password': { ip: 20, email: 10 },
+  'oidc/start': { ip: 50, email: 20 },
+};
+
+const DEFAULT_RULE: ThrottleRule = { ip: 100 };
+
+interface WindowState {
+  window: number; // index of the current window
+  current: number;
+  previous: number;
+}
+
+export interface AuthThrottleResult {
+  allowed: boolean;
+  /** How long to hold the response back, in milliseconds */
+  delayMs: number;
+  /** Seconds until the client may retry (when not allowed) */
+  retryAfter: number;
+}
+
+/**
+ * Count a request against one counter. Returns the weighted count
+ * including this request; a request over the limit is not recorded.
+ */
+async function hitCounter(env: Env, key: string, limit: number, now: number): Promise<number> {
+  const windowIdx = Math.floor(now / WINDOW_SECONDS);
+  const elapsed = (now % WINDOW_SECONDS) / WINDOW_SECONDS;
+
+  let state = await env.TENANT_KV.get(key, 'json') as WindowState | null;
+  if (!state || state.window < windowIdx - 1) {
+    state = { window: windowIdx, current: 0, previous: 0 };
+  } else if (state.window === windowIdx - 1) {
+    state = { window: windowIdx, current: 0, previous: state.current };
+  }
+
+  const count = state.previous * (1 - elapsed) + state.current + 1;
+  if (count <= limit) {
+    state.current++;
+    await env.TENANT_KV.put(key, JSON.stringify(state), {
+      expirationTtl: WINDOW_SECONDS * 2,
+    });
+  }
+  return count;
+}
+
+function delayFor(count: number, limit: number): number {
+  const over = Math.ceil(count - limit / 2);
+  if (over <= 0) return 0;
+  return Math.min(BASE_DELAY_MS * 2 ** (over - 1), MAX_DELAY_MS);
+}
+
+/** Email address named in a JSON request body, if any. */
+async function bodyEmail(request: Request): Promise<string | null> {
+  try {
+    const body = await request.clone().json() as { email?: unknown };
+    return typeof body.email === 'string' && body.email.includes('@') ? body.email.trim().toLowerCase() : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Check and count a public auth request against its IP and email limits. */
+export async function checkAuthThrottle(
+  request: Request,
+  pathname: string,
+  env: Env,
+): Promise<AuthThrottleResult> {
+  const route = pathname.replace(/^\/api\/v1\/auth\//, '');
+  const rule = THROTTLE_RULES[route] || DEFAULT_RULE;
+  const now = Math.floor(Date.now() / 1000);
+
+  const counters: { key: string; limit: number }[] = [
+    { key: `auththrottle:ip:${route}:${clientIp(request)}`, limit: rule.ip },
+  ];
+  if (rule.email) {
+    const email = await bodyEmail(request);
+    if (email) counters.push({ key: `auththrottle:email:${route}:${email}`, limit: rule.email });
+  }
+
+  let delayMs = 0;
+  for (const { key, limit } of counters) {
+    const count = await hitCounter(env, key, limit, now);
+    if (count > limit) {
+      return { allowed: false, delayMs: 0, retryAfter: WINDOW_SECONDS - (now % WINDOW_SECONDS) };
+    }
+    delayMs = Math.max(delayMs, delayFor(count, limit));
+  }
+
+  return { allowed: true, delayMs, retryAfter: 0 };
+}
@@ -0,0 +1,119 @@
+/**
+ * Fine-grained permissions.
+ *
+ * A user's permissions come from their named role (auth_roles, via
+ * auth_users.role_id) or, when no named role is assigned, from the defaults
+ * for their legacy role. They are resolved at login/refresh and carried in
+ * the JWT `perms` claim, then enforced here for every route.
+ *
+ * The legacy role still decides data *scope* (platform / tenant / customer);
+ * permissions decide which features a user may use within that scope.
+ */
+
+import type postgres from 'postgres';
+import type { TenantInfo } from './types';
+import { errorResponse } from './utils/response';
+
+export const PERMISSIONS = [
+  'usage:read',
+  'inventory:read',
+  'revenue:read',
+  'export:run',
+  'pricing:read',
+  'pricing:write',
+  'users:manage',
+  'users:impersonate',
+  'sessions:manage',
+  'tenants:read',
+  'tenants:manage',
+  'customers:manage',
+  'roles:manage',
+  'sso:manage',
+  'audit:read',
+  'security:manage',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+const REPORTING: Permission[] = ['usage:read', 'inventory:read', 'revenue:read', 'export:run'];
+
+/** Permissions for users without a named role — matches pre-permission behaviour. */
+export const DEFAULT_ROLE_PERMISSIONS: Record<TenantInfo['role'], Permission[]> = {
+  admin: [...PERMISSIONS],
+  tenant: REPORTING,
+  customer: REPORTING,
+};
+
+/**
+ * Permission required per route (paths below /api/v1). Routes not listed
+ * (self-service /auth/*, /api-keys, /filters/*) need no permission, except
+ * under /admin/ where an unlisted route is denied.
+ */
+const ROUTE_PERMISSIONS: { method: string; path: RegExp; permission: Permission }[] = [
+  { method: 'GET', path: /^\/usage\/[^/]+$/, permission: 'usage:read' },
+  { method: 'GET', path: /^\/endpoints(\/top|\/[^/]+\/usage)?$/, permission: 'usage:read' },
+  { method: 'GET', path: /^\/bundles(\/[^/]+)?$/, permission: 'inventory:read' },
+  { method: 'GET', path: /^\/bundle-instances$/, permission: 'inventory:read' },
+  { method: 'GET', path: /^\/revenue\/[^/]+$/, permission: 'revenue:read' },
+  { method: 'POST', path: /^\/export$/, permission: 'export:run' },
+  { method: '*', path: /^\/customers(\/[^/]+)?$/, permission: 'customers:manage' },
+
+  { method: 'GET', path: /^\/admin\/pricing$/, permission: 'pricing:read' },
+  { method: 'PUT', path: /^\/admin\/pricing$/, permission: 'pricing:write' },
+  { method: 'POST', path: /^\/admin\/users\/[^/]+\/impersonate$/, permission: 'users:impersonate' },
+  { method: '*', path: /^\/admin\/users(\/.*)?$/, permission: 'users:manage' },
+  { method: '*', path: /^\/admin\/invites(\/[^/]+)?$/, permission: 'users:manage' },
+  { method: '*', path: /^\/admin\/sessions(\/[^/]+)?$/, permission: 'sessions:manage' },
+  { method: 'GET', path: /^\/admin\/tenants$/, permission: 'tenants:read' },
+  { method: '*', path: /^\/admin\/tenants(\/[^/]+)?$/, permission: 'tenants:manage' },
+  { method: '*', path: /^\/admin\/roles(\/[^/]+)?$/, permission: 'roles:manage' },
+  { method: '*', path: /^\/admin\/oidc-providers(\/[^/]+)?$/, permission: 'sso:manage' },
+  { method: 'GET', path: /^\/admin\/audit$/, permission: 'audit:read' },
+  { method: '*', path: /^\/admin\/password-policy$/, permission: 'security:manage' },
+  { method: '*', path: /^\/admin\/ip-allowlist(\/[^/]+)?$/, permission: 'security:manage' },
+];
+
+export function isPermission(value: unknown): value is Permission {
+  return typeof value === 'string' && (PERMISSIONS as readonly string[]).includes(value);
+}
+
+export function hasPermission(tenant: TenantInfo, permission: Permission): boolean {
+  return tenant.permissions.includes(permission);
+}
+
+/** Deny the request unless the caller holds the route's permission. */
+export function requirePermission(tenant: TenantInfo, method: string, apiPath: string): Response | null {
+  const rule = ROUTE_PERMISSIONS.find(
+    (r) => (r.method === '*' || r.method === method) && r.path.test(apiPath),
+  );
+
+  if (!rule) {
+    return apiPath.startsWith('/admin/')
+      ? errorResponse(403, 'Forbidden', `No permission is mapped to ${method} ${apiPath}`)
+      : null;
+  }
+
+  if (!hasPermission(tenant, rule.permission)) {
+    return errorResponse(403, 'Forbidden', `Missing permission: ${rule.permission}`);
+  }
+  return null; // authorized
+}
+
+/** Resolve a user's permissions from their named role or legacy role. */
+export async function resolvePermissions(
+  sql: postgres.Sql,
+  user: { role: TenantInfo['role']; role_id?: string | null },
+): Promise<Permission[]> {
+  if (user.role_id) {
+    const roles = await sql`SELECT permissions FROM auth_roles WHERE id = ${user.role_id}`;
+    if (roles.length > 0) {
+      return (roles[0].permissions as unknown[]).filter(isPermission);
+    }
+  }
+  return DEFAULT_ROLE_PERMISSIONS[user.role] || [];
+}
+
+/** Permissions in `requested` that the caller does not hold (cannot delegate). */
+export function missingPermissions(tenant: TenantInfo, requested: Permission[]): Permission[] {
+  return requested.filter((p) => !tenant.permissions.includes(p));
+}
@@ -13,21 +13,68 @@ import { handleEndpointsList, handleEndpointUsage, handleTopEndpoints } from './
 import { handleExport } from './routes/export';
 import { handleFilterTenants, handleFilterCustomers } from './routes/filters';
 import { handleGetPricing, handleSavePricing, handleRevenueMonthly, handleRevenueCostChart } from './routes/pricing';
-import { handleLogout, handleMe } from './routes/auth';
+import { handleLogout, handleMe, handleChangePassword } from './routes/auth';
+import { handleStartImpersonation, handleEndImpersonation } from './routes/impersonation';
+import { handleGetPreferences, handleUpdatePreferences } from './routes/preferences';
+import { handleListInvites, handleRevokeInvite, handleBulkInvite } from './routes/invites';
+import { handleExportMyData, handleEraseMe } from './routes/privacy';
+import {
+  handleGetMfa,
+  handleTotpSetup,
+  handleTotpConfirm,
+  handleTotpDisable,
+  handleGetRecoveryCodes,
+  handleRegenerateRecoveryCodes,
+} from './routes/mfa';
+import {
+  handleWebAuthnRegisterOptions,
+  handleWebAuthnRegisterVerify,
+  handleListWebAuthnCredentials,
+  handleDeleteWebAuthnCredential,
+} from './routes/webauthn';
+import { handleListMySessions, handleRevokeMySession, handleRevokeOtherSessions } from './routes/sessions';
+import { handleListRoles, handleCreateRole, handleUpdateRole, handleDeleteRole } from './routes/roles';
+import {
+  handleListOidcProviders,
+  handleCreateOidcProvider,
+  handleUpdateOidcProvider,
+  handleDeleteOidcProvider,
+} from './routes/oidc';
 import {
   handleListUsers,
   handleCreateUser,
   handleGetUser,
   handleUpdateUser,
   handleDeleteUser,
+  handleRestoreUser,
   handleAdminResetPassword,
+  handleResetUserMfa,
   handleResendInvite,
   handleListSessions,
   handleRevokeSession,
-  handleListTenants,
 } from './routes/admin';
+import { handleListTenants, handleCreateTenant, handleUpdateTenant, handleDeactivateTenant } from './routes/tenants';
+import { handleListApiKeys, handleCreateApiKey, handleRevokeApiKey } from './routes/api-keys';
+import {
+  handleListCustomers,
+  handleCreateCustomer,
+  handleGetCustomer,
+  handleUpdateCustomer,
+  handleDeleteCustomer,
+} from './routes/customers';
+import { handleListAudit } from './routes/audit';
+import { handleGetPasswordPolicy, handleUpdatePasswordPolicy } from './routes/password-policy';
+import {
+  handleListIpAllowlist,
+  handleCreateIpAllowlistEntry,
+  handleDeleteIpAllowlistEntry,
+} from './routes/ip-allowlist';
 import { requireAdmin } from './middleware/admin-guard';
+import { requireApiKeyScope } from './middleware/api-key-guard';
+import { requirePermission } from './permissions';
+import { touchApiKey } from './utils/api-keys';
 import { errorResponse } from './utils/response';
+import { recordAudit } from './utils/audit';
 
 /**
  * Route authenticated requests.
@@ -48,6 +95,37 @@ export async function routeRequest(
   // Strip the /api/v1 prefix
   const apiPath = path.replace(/^\/api\/v1/, '');
 
+  // ── API keys: scope check + last-used tracking ───────────────────
+
+  if (tenant.auth_method === 'api_key') {
+    const forbidden = requireApiKeyScope(tenant, method, apiPath);
+    if (forbidden) return forbidden;
+    await touchApiKey(sql, env, tenant.api_key_id!);
+  }
+
+  // ── Impersonation: read-only, and every request audited ──────────
+
+  if (tenant.impersonator) {
+    const ending = method === 'POST' && apiPath === '/auth/impersonation/end';
+    if (method !== 'GET' && !ending) {
+      return errorResponse(403, 'Forbidden', 'Impersonation sessions are read-only');
+    }
+    if (!ending) {
+      await recordAudit(sql, request, {
+        action: 'impersonation.request',
+        tenant,
+        target_type: 'user',
+        target_id: tenant.user_id,
+        metadata: { method, path: apiPath, query: url.search || null },
+      });
+    }
+  }
+
+  // ── Permissions (every route, including /admin/*) ────────────────
+
+  const denied = requirePermission(tenant, method, apiPath);
+  if (denied) return denied;
+
   // ── Auth routes (authenticated) ──────────────────────────────────
 
   if (method === 'POST' && apiPath === '/auth/logout') {
@@ -58,10 +136,126 @@ export async function routeRequest(
     return handleMe(sql, tenant);
   }
 
+  if (method === 'POST' && apiPath === '/auth/change-password') {
+    return handleChangePassword(request, sql, env, tenant);
+  }
+
+  if (method === 'POST' && apiPath === '/auth/impersonation/end') {
+    return handleEndImpersonation(request, sql, env, tenant);
+  }
+
+  if (method === 'GET' && apiPath === '/auth/mfa') {
+    return handleGetMfa(sql, tenant);
+  }
+
+  if (method === 'POST' && apiPath === '/auth/mfa/totp/setup') {
+    return handleTotpSetup(sql, tenant);
+  }
+
+  if (method === 'POST' && apiPath === '/auth/mfa/totp/confirm') {
+    return handleTotpConfirm(request, sql, tenant);
+  }
+
+  if (method === 'POST' && apiPath === '/auth/mfa/totp/disable') {
+    return handleTotpDisable(request, sql, tenant);
+  }
+
+  if (method === 'GET' && apiPath === '/auth/me/preferences') {
+    return handleGetPreferences(sql, tenant);
+  }
+
+  if (method === 'PUT' && apiPath === '/auth/me/preferences') {
+    return handleUpdatePreferences(request, sql, env, tenant);
+  }
+
+  if (method === 'GET' && apiPath === '/auth/me/export') {
+    return handleExportMyData(request, sql, tenant);
+  }
+
+  if (method === 'POST' && apiPath === '/auth/me/erase') {
+    return handleEraseMe(request, sql, env, tenant);
+  }
+
+  if (method === 'GET' && apiPath === '/auth/me/recovery-codes') {
+    return handleGetRecoveryCodes(sql, tenant);
+  }
+
+  if (method === 'POST' && apiPath === '/auth/me/recovery-codes') {
+    return handleRegenerateRecoveryCodes(request, sql, tenant);
+  }
+
+  if (method === 'POST' && apiPath === '/auth/webauthn/register/options') {
+    return handleWebAuthnRegisterOptions(sql, tenant, env);
+  }
+
+  if (method === 'POST' && apiPath === '/auth/webauthn/register/verify') {
+    return handleWebAuthnRegisterVerify(request, sql, tenant, env);
+  }
+
+  if (method === 'GET' && apiPath === '/auth/webauthn/credentials') {
+    return handleListWebAuthnCredentials(sql, tenant);
+  }
+
+  const passkeyDeleteMatch = apiPath.match(/^\/auth\/webauthn\/credentials\/([^/]+)$/);
+  if (method === 'DELETE' && passkeyDeleteMatch) {
+    return handleDeleteWebAuthnCredential(passkeyDeleteMatch[1], request, sql, tenant);
+  }
+
+  if (method === 'GET' && apiPath === '/auth/sessions') {
+    return handleListMySessions(sql, tenant);
+  }
+
+  if (method === 'POST' && apiPath === '/auth/sessions/revoke-others') {
+    return handleRevokeOtherSessions(request, sql, env, tenant);
+  }
+
+  const mySessionDeleteMatch = apiPath.match(/^\/auth\/sessions\/([^/]+)$/);
+  if (method === 'DELETE' && mySessionDeleteMatch) {
+    return handleRevokeMySession(mySessionDeleteMatch[1], request, sql, env, tenant);
+  }
+
+  // ── API key management (JWT only) ────────────────────────────────
+
+  if (method === 'GET' && apiPath === '/api-keys') {
+    return handleListApiKeys(sql, tenant);
+  }
+
+  if (method === 'POST' && apiPath === '/api-keys') {
+    return handleCreateApiKey(request, sql, env, tenant);
+  }
+
+  const apiKeyDeleteMatch = apiPath.match(/^\/api-keys\/([^/]+)$/);
+  if (method === 'DELETE' && apiKeyDeleteMatch) {
+    return handleRevokeApiKey(apiKeyDeleteMatch[1], request, sql, env, tenant);
+  }
+
+  // ── Customer registry ───────────────────────────────────────────
+
+  if (method === 'GET' && apiPath === '/customers') {
+    return handleListCustomers(searchParams, sql, tenant, env, rateLimit);
+  }
+
+  if (method === 'POST' && apiPath === '/customers') {
+    return handleCreateCustomer(request, sql, tenant);
+  }
+
+  const customerMatch = apiPath.match(/^\/customers\/([^/]+)$/);
+  if (method === 'GET' && customerMatch) {
+    return handleGetCustomer(customerMatch[1], sql, tenant);
+  }
+
+  if (method === 'PUT' && customerMatch) {
+    return handleUpdateCustomer(customerMatch[1], request, sql, env, tenant);
+  }
+
+  if (method === 'DELETE' && customerMatch) {
+    return handleDeleteCustomer(customerMatch[1], request, sql, tenant);
+  }
+
   // ── Admin routes (require admin role) ────────────────────────────
 
   if (apiPath.startsWith('/admin/')) {
-    const forbidden = requireAdmin(tenant);
+    const forbidden = requireAdmin(tenant, apiPath);
     if (forbidden) return forbidden;
 
     return routeAdminRequest(request, url, sql, apiPath, tenant, env, rateLimit);
@@ -181,9 +375,24 @@ async function routeAdminRequest(
     return handleCreateUser(request, sql, tenant, env);
   }
 
+  // POST /admin/users/bulk-invite
+  if (method === 'POST' && apiPath === '/admin/users/bulk-invite') {
+    return handleBulkInvite(request, sql, env, tenant);
+  }
+
+  // GET /admin/invites
+  if (method === 'GET' && apiPath === '/admin/invites') {
+    return handleListInvites(searchParams, sql, tenant, env, rateLimit);
+  }
+
   // GET /admin/tenants
   if (method === 'GET' && apiPath === '/admin/tenants') {
-    return handleListTenants(sql);
+    return handleListTenants(searchParams, sql);
+  }
+
+  // POST /admin/tenants
+  if (method === 'POST' && apiPath === '/admin/tenants') {
+    return handleCreateTenant(request, sql, env, tenant);
   }
 
   // GET /admin/pricing
@@ -193,14 +402,37 @@ async function routeAdminRequest(
 
   // PUT /admin/pricing
   if (method === 'PUT' && apiPath === '/admin/pricing') {
-    return handleSavePricing(request, env, rateLimit);
+    return handleSavePricing(request, sql, tenant, env, rateLimit);
+  }
+
+  // GET /admin/audit
+  if (method === 'GET' && apiPath === '/admin/audit') {
+    return handleListAudit(searchParams, sql, tenant, env, rateLimit);
+  }
+
+  // GET /admin/password-policy
+  if (method === 'GET' && apiPath === '/admin/password-policy') {
+    return handleGetPasswordPolicy(searchParams, sql, tenant);
   }
 
+  // PUT /admin/password-policy
+  if (method === 'PUT' && apiPath === '/admin/password-policy') {
+    return handleUpdatePasswordPolicy(request, sql, tenant);
+  }
 
+  // GET /admin/ip-allowlist
+  if (method === 'GET' && apiPath === '/admin/ip-allowlist') {
+    return handleListIpAllowlist(request, searchParams, sql, tenant);
+  }
+
+  // POST /admin/ip-allowlist
+  if (method === 'POST' && apiPath === '/admin/ip-allowlist') {
+    return handleCreateIpAllowlistEntry(request, sql, env, tenant);
+  }
 
   // GET /admin/sessions
   if (method === 'GET' && apiPath === '/admin/sessions') {
-    return handleListSessions(searchParams, sql, env, rateLimit);
+    return handleListSessions(searchParams, sql, tenant, env, rateLimit);
   }
 
   // Routes with :id parameter
@@ -208,37 +440,123 @@ async function routeAdminRequest(
   // POST /admin/users/:id/reset-password
   const resetMatch = apiPath.match(/^\/admin\/users\/([^/]+)\/reset-password$/);
   if (method === 'POST' && resetMatch) {
-    return handleAdminResetPassword(resetMatch[1], request, sql, env);
+    return handleAdminResetPassword(resetMatch[1], request, sql, env, tenant);
+  }
+
+  // POST /admin/users/:id/impersonate
+  const impersonateMatch = apiPath.match(/^\/admin\/users\/([^/]+)\/impersonate$/);
+  if (method === 'POST' && impersonateMatch) {
+    return handleStartImpersonation(impersonateMatch[1], request, sql, env, tenant);
+  }
+
+  // POST /admin/users/:id/restore
+  const restoreMatch = apiPath.match(/^\/admin\/users\/([^/]+)\/restore$/);
+  if (method === 'POST' && restoreMatch) {
+    return handleRestoreUser(restoreMatch[1], request, sql, tenant);
   }
 
   // POST /admin/users/:id/resend-invite
   const resendMatch = apiPath.match(/^\/admin\/users\/([^/]+)\/resend-invite$/);
   if (method === 'POST' && resendMatch) {
-    return handleResendInvite(resendMatch[1], sql, env);
+    return handleResendInvite(resendMatch[1], request, sql, env, tenant);
+  }
+
+  // DELETE /admin/users/:id/mfa
+  const mfaResetMatch = apiPath.match(/^\/admin\/users\/([^/]+)\/mfa$/);
+  if (method === 'DELETE' && mfaResetMatch) {
+    return handleResetUserMfa(mfaResetMatch[1], request, sql, env, tenant);
+  }
+
+  // GET /admin/roles
+  if (method === 'GET' && apiPath === '/admin/roles') {
+    return handleListRoles(sql);
+  }
+
+  // POST /admin/roles
+  if (method === 'POST' && apiPath === '/admin/roles') {
+    return handleCreateRole(request, sql, tenant);
+  }
+
+  // PUT /admin/roles/:id
+  const roleUpdateMatch = apiPath.match(/^\/admin\/roles\/([^/]+)$/);
+  if (method === 'PUT' && roleUpdateMatch) {
+    return handleUpdateRole(roleUpdateMatch[1], request, sql, env, tenant);
+  }
+
+  // DELETE /admin/roles/:id
+  const roleDeleteMatch = apiPath.match(/^\/admin\/roles\/([^/]+)$/);
+  if (method === 'DELETE' && roleDeleteMatch) {
+    return handleDeleteRole(roleDeleteMatch[1], request, sql, env, tenant);
+  }
+
+  // GET /admin/oidc-providers
+  if (method === 'GET' && apiPath === '/admin/oidc-providers') {
+    return handleListOidcProviders(sql);
+  }
+
+  // POST /admin/oidc-providers
+  if (method === 'POST' && apiPath === '/admin/oidc-providers') {
+    return handleCreateOidcProvider(request, sql, tenant);
+  }
+
+  // PUT /admin/oidc-providers/:id
+  const oidcUpdateMatch = apiPath.match(/^\/admin\/oidc-providers\/([^/]+)$/);
+  if (method === 'PUT' && oidcUpdateMatch) {
+    return handleUpdateOidcProvider(oidcUpdateMatch[1], request, sql, tenant);
+  }
+
+  // DELETE /admin/oidc-providers/:id
+  const oidcDeleteMatch = apiPath.match(/^\/admin\/oidc-providers\/([^/]+)$/);
+  if (method === 'DELETE' && oidcDeleteMatch) {
+    return handleDeleteOidcProvider(oidcDeleteMatch[1], request, sql, tenant);
+  }
+
+  // DELETE /admin/ip-allowlist/:id
+  const allowlistDeleteMatch = apiPath.match(/^\/admin\/ip-allowlist\/([^/]+)$/);
+  if (method === 'DELETE' && allowlistDeleteMatch) {
+    return handleDeleteIpAllowlistEntry(allowlistDeleteMatch[1], request, sql, env, tenant);
+  }
+
+  // DELETE /admin/invites/:id
+  const inviteRevokeMatch = apiPath.match(/^\/admin\/invites\/([^/]+)$/);
+  if (method === 'DELETE' && inviteRevokeMatch) {
+    return handleRevokeInvite(inviteRevokeMatch[1], request, sql, env, tenant);
   }
 
   // DELETE /admin/sessions/:id
   const sessionDeleteMatch = apiPath.match(/^\/admin\/sessions\/([^/]+)$/);
   if (method === 'DELETE' && sessionDeleteMatch) {
-    return handleRevokeSession(sessionDeleteMatch[1], sql, env);
+    return handleRevokeSession(sessionDeleteMatch[1], request, sql, env, tenant);
   }
 
   // GET /admin/users/:id
   const userGetMatch = apiPath.match(/^\/admin\/users\/([^/]+)$/);
   if (method === 'GET' && userGetMatch) {
-    return handleGetUser(userGetMatch[1], sql);
+    return handleGetUser(userGetMatch[1], sql, tenant);
   }
 
   // PUT /admin/users/:id
   const userUpdateMatch = apiPath.match(/^\/admin\/users\/([^/]+)$/);
   if (method === 'PUT' && userUpdateMatch) {
-    return handleUpdateUser(userUpdateMatch[1], request, sql);
+    return handleUpdateUser(userUpdateMatch[1], request, sql, env, tenant);
   }
 
   // DELETE /admin/users/:id
   const userDeleteMatch = apiPath.match(/^\/admin\/users\/([^/]+)$/);
   if (method === 'DELETE' && userDeleteMatch) {
-    return handleDeleteUser(userDeleteMatch[1], sql, env, tenant);
+    return handleDeleteUser(userDeleteMatch[1], request, sql, env, tenant);
+  }
+
+  // PUT /admin/tenants/:id
+  const tenantUpdateMatch = apiPath.match(/^\/admin\/tenants\/([^/]+)$/);
+  if (method === 'PUT' && tenantUpdateMatch) {
+    return handleUpdateTenant(tenantUpdateMatch[1], request, sql, env, tenant);
+  }
+
+  // DELETE /admin/tenants/:id
+  const tenantDeleteMatch = apiPath.match(/^\/admin\/tenants\/([^/]+)$/);
+  if (method === 'DELETE' && tenantDeleteMatch) {
+    return handleDeactivateTenant(tenantDeleteMatch[1], request, sql, env, tenant);
   }
 
   return errorResponse(404, 'Not Found', `No admin route matches ${method} ${apiPath}`, rateLimit);
@@ -248,4 +566,14 @@ async function routeAdminRequest(
  * Route public auth requests (no authentication required).
  * Called from index.ts BEFORE the main auth check.
  */
-export { handleLogin, handleVerifyOTP, handleForgotPassword, handleResetPassword, handleAcceptInvite } from './routes/auth';
+export {
+  handleLogin,
+  handleVerifyOTP,
+  handleForgotPassword,
+  handleResetPassword,
+  handleAcceptInvite,
+  handleRefresh,
+  handleChangeExpiredPassword,
+} from './routes/auth';
+export { handleWebAuthnLoginOptions, handleWebAuthnLoginVerify } from './routes/webauthn';
+export { handleOidcStart, handleOidcCallback } from './routes/oidc';
@@ -1,29 +1,200 @@
 /**
  * Admin route handlers.
  *
- * All routes require admin role + JWT authentication.
- * The admin-guard middleware checks this before routing here.
+ * All routes require JWT authentication plus the route's permission;
+ * the admin-guard middleware and router check this before routing here.
+ *
+ * Platform users manage every account. Tenant admins reach the user and
+ * session routes too, but only for users of their own tenant + descendant
+ * tenants: every handler scopes its queries with tenantFilter on the
+ * user's tenant_id and reports out-of-scope users as not found. Nobody
+ * can change a user who holds permissions they don't (checkTargetManageable),
+ * nor grant such permissions (checkGrantable).
+ *
+ * Customer-role users belong to a customer of their tenant: give its
+ * customer_id, or a customer_name that is its name or an alias (see
+ * src/utils/customers.ts). Their customer_name follows the customer's.
+ *
+ * Users can be granted further tenants (granted_tenant_ids, seen with
+ * their descendants) and customer-role users further customers
+ * (granted_customer_ids); both sets are replaced as a whole (see
+ * src/utils/user-grants.ts).
+ *
+ * Deleted users keep their row and history (see src/utils/user-lifecycle.ts)
+ * and can't be changed until restored.
+ *
+ * Every change is written to the audit log (see src/utils/audit.ts).
  *
  * Routes:
  *   GET    /admin/users                  — List users (paginated, searchable)
- *   POST   /admin/users                  — Create user
+ *   POST   /admin/users                  — Create user (sends an invite)
  *   GET    /admin/users/:id              — Get user detail
  *   PUT    /admin/users/:id              — Update user
- *   DELETE /admin/users/:id              — Soft-delete (deactivate)
+ *   DELETE /admin/users/:id              — Soft-delete (deactivate; purged after USER_RETENTION_DAYS)
+ *   POST   /admin/users/:id/restore      — Undo a soft delete
  *   POST   /admin/users/:id/reset-password — Set new password
+ *   DELETE /admin/users/:id/mfa          — Reset MFA enrolment to email OTP
  *   GET    /admin/sessions               — List active sessions
  *   DELETE /admin/sessions/:id           — Revoke session
- *   GET    /admin/tenants                — List tenants
  */
 
 import type postgres from 'postgres';
 import type { Env, TenantInfo } from '../types';
 import { jsonResponse, paginatedResponse, errorResponse } from '../utils/response';
-import { generateSalt, hashPassword } from '../utils/crypto';
+import { checkNewPassword, setUserPassword } from '../utils/password-policy';
 import { parsePagination, paginationOffset } from '../utils/pagination';
 import { sendInviteEmail } from '../utils/email';
+import { syncUserApiKeys } from '../utils/api-keys';
+import { revokeUserAccess, revokeUserSessions, retentionDays } from '../utils/user-lifecycle';
+import { resolvePermissions, missingPermissions } from '../permissions';
+import { tenantFilter, tenantSubtree } from '../db';
+import { findCustomer } from '../utils/customers';
+import { loadUserGrants, saveUserGrants, type UserGrants } from '../utils/user-grants';
+import { recordAudit } from '../utils/audit';
 import type { RateLimitResult } from '../middleware/rate-limit';
 
+/** True if the user exists and belongs to a tenant the caller administers. */
+async function userInScope(sql: postgres.Sql, tenant: TenantInfo, userId: string): Promise<boolean> {
+  const tf = tenantFilter(tenant, 2, 'u.tenant_id');
+  const rows = await sql.unsafe(
+    `SELECT 1 FROM auth_users u WHERE u.id = $1 AND ${tf.clause}`,
+    [userId, ...tf.params] as any[],
+  );
+  return rows.length > 0;
+}
+
+/** 409 if the user is soft-deleted — they must be restored before being changed. */
+async function rejectIfDeleted(sql: postgres.Sql, userId: string): Promise<Response | null> {
+  const rows = await sql`SELECT deleted_at FROM auth_users WHERE id = ${userId}`;
+  if (rows.length > 0 && rows[0].deleted_at) {
+    return errorResponse(409, 'User is deleted', 'Restore the user before changing it.');
+  }
+  return null;
+}
+
+/**
+ * 403 if the user holds permissions the caller doesn't: admins may only
+ * change, disable or take over accounts no more privileged than their own.
+ */
+export async function checkTargetManageable(
+  sql: postgres.Sql,
+  tenant: TenantInfo,
+  userId: string,
+): Promise<Response | null> {
+  const rows = await sql`SELECT role, role_id FROM auth_users WHERE id = ${userId}`;
+  if (rows.length === 0) return null;
+
+  const targetPerms = await resolvePermissions(sql, rows[0] as { role: TenantInfo['role']; role_id: string | null });
+  const missing = missingPermissions(tenant, targetPerms);
+  if (missing.length > 0) {
+    return errorResponse(403, 'Forbidden', `This user holds permissions you do not: ${missing.join(', ')}`);
+  }
+  return null;
+}
+
+/** True if the tenant exists and is one the caller administers. */
+export async function tenantInScope(sql: postgres.Sql, tenant: TenantInfo, tenantId: string): Promise<boolean> {
+  const tf = tenantFilter(tenant, 2, 'r.tenant_id');
+  const rows = await sql.unsafe(
+    `SELECT 1 FROM rpt_tenants r WHERE r.tenant_id = $1 AND ${tf.clause}`,
+    [tenantId, ...tf.params] as any[],
+  );
+  return rows.length > 0;
+}
+
+/** Audited columns of an auth_users row, or null if the user does not exist. */
+async function userSnapshot(sql: postgres.Sql, userId: string): Promise<Record<string, unknown> | null> {
+  const rows = await sql`
+    SELECT id, email, display_name, role, role_id, tenant_id, customer_id, customer_name, is_active, deleted_at
+    FROM auth_users WHERE id = ${userId}
+  `;
+  if (rows.length === 0) return null;
+  const grants = await loadUserGrants(sql, userId);
+  return { ...rows[0], granted_tenant_ids: grants.tenant_ids, granted_customer_ids: grants.customer_ids };
+}
+
+/**
+ * Validate the scope grants requested for a user of tenant `tenantId`
+ * (granted_tenant_ids / granted_customer_ids; absent ones are left as
+ * they are). Granted tenants must be ones the caller administers; granted
+ * customers are for customer-role users and must belong to a tenant the
+ * user will see. Returns the grants to save, or an error response.
+ */
+async function checkScopeGrants(
+  sql: postgres.Sql,
+  tenant: TenantInfo,
+  user: { id: string | null; role: string; tenant_id: string },
+  fields: { granted_tenant_ids?: unknown; granted_customer_ids?: unknown },
+): Promise<Partial<UserGrants> | Response> {
+  const grants: Partial<UserGrants> = {};
+  for (const key of ['granted_tenant_ids', 'granted_customer_ids'] as const) {
+    const value = fields[key];
+    if (value === undefined) continue;
+    if (!Array.isArray(value) || !value.every((v) => typeof v === 'string' && v)) {
+      return errorResponse(400, `${key} must be an array of ids`);
+    }
+    grants[key === 'granted_tenant_ids' ? 'tenant_ids' : 'customer_ids'] = [...new Set(value as string[])];
+  }
+
+  for (const tenantId of grants.tenant_ids ?? []) {
+    if (!(await tenantInScope(sql, tenant, tenantId))) {
+      return errorResponse(400, 'Invalid granted_tenant_ids', `Unknown tenant: ${tenantId}`);
+    }
+  }
+
+  const customerIds = grants.customer_ids ?? [];
+  if (customerIds.length > 0) {
+    if (user.role !== 'customer') {
+      return errorResponse(400, 'granted_customer_ids only applies to customer-role users');
+    }
+    if (!customerIds.every((id) => /^[0-9a-f-]{36}$/i.test(id))) {
+      return errorResponse(400, 'Invalid granted_customer_ids');
+    }
+    const tenantIds = grants.tenant_ids ?? (user.id ? (await loadUserGrants(sql, user.id)).tenant_ids : []);
+    const found = await sql.unsafe(
+      `SELECT c.id FROM customers c
+       WHERE c.id = ANY($1::uuid[])
+         AND c.tenant_id IN (${tenantSubtree('ANY($2::text[])')})`,
+      [customerIds, [user.tenant_id, ...tenantIds]] as any[],
+    );
+    if (found.length !== customerIds.length) {
+      return errorResponse(
+        400,
+        'Invalid granted_customer_ids',
+        'Use customers of the tenants the user can see (see GET /customers).',
+      );
+    }
+  }
+  return grants;
+}
+
+/**
+ * Reject a role / named-role assignment that would give the user
+ * permissions the calling admin does not hold.
+ */
+async function checkGrantable(
+  sql: postgres.Sql,
+  tenant: TenantInfo,
+  role: TenantInfo['role'],
+  roleId: string | null,
+): Promise<Response | null> {
+  if (roleId) {
+    if (typeof roleId !== 'string' || !/^[0-9a-f-]{36}$/i.test(roleId)) {
+      return errorResponse(400, 'Invalid role_id');
+    }
+    const roles = await sql`SELECT id FROM auth_roles WHERE id = ${roleId}`;
+    if (roles.length === 0) {
+      return errorResponse(400, 'Invalid role_id');
+    }
+  }
+
+  const missing = missingPermissions(tenant, await resolvePermissions(sql, { role, role_id: roleId }));
+  if (missing.length > 0) {
+    return errorResponse(403, 'Forbidden', `Cannot grant permissions you do not hold: ${missing.join(', ')}`);
+  }
+  return null;
+}
+
 /* ================================================================
  * GET /admin/users
  * ================================================================ */
@@ -40,11 +211,13 @@ export async function handleListUsers(
   const search = searchParams.get('search') || '';
   const roleFilter = searchParams.get('role') || '';
   const activeFilter = searchParams.get('active'); // 'true', 'false', or null
+  const deletedFilter = searchParams.get('deleted') === 'true'; // deleted users only; hidden otherwise
 
-  // Build conditions
-  const conditions: string[] = [];
-  const params: (string | number | boolean)[] = [];
-  let paramIndex = 0;
+  // Build conditions — always limited to the tenants the caller administers
+  const tf = tenantFilter(tenant, 1, 'u.tenant_id');
+  const conditions: string[] = [tf.clause];
+  const params: (string | number | boolean)[] = tf.params as string[];
+  let paramIndex = tf.nextIdx - 1;
 
   if (search) {
     paramIndex++;
@@ -67,6 +240,8 @@ export async function handleListUsers(
     params.push(activeFilter === 'true');
   }
 
+  conditions.push(deletedFilter ? 'u.deleted_at IS NOT NULL' : 'u.deleted_at IS NULL');
+
   const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
 
   // Count total
@@ -78,11 +253,12 @@ export async function handleListUsers(
 
   // Fetch page
   const rows = await sql.unsafe(
-    `SELECT u.id, u.email, u.display_name, u.role, u.tenant_id, u.customer_name,
-            u.is_active, u.last_login_at, u.created_at, u.updated_at,
-            t.tenant_name
+    `SELECT u.id, u.email, u.display_name, u.role, u.role_id, u.tenant_id, u.customer_id, u.customer_name,
+            u.is_active, u.last_login_at, u.created_at, u.updated_at, u.deleted_at, u.erased_at,
+            t.tenant_name, r.name AS role_name
      FROM auth_users u
      JOIN rpt_tenants t ON t.tenant_id = u.tenant_id
+     LEFT JOIN auth_roles r ON r.id = u.role_id
      ${whereClause}
      ORDER BY u.created_at DESC
      LIMIT $${paramIndex + 1} OFFSET $${paramIndex + 2}`,
@@ -94,42 +270,92 @@ export async function handleListUsers(
     email: r.email,
     display_name: r.display_name,
     role: r.role,
+    role_id: r.role_id || null,
+    role_name: r.role_name || null,
     tenant_id: r.tenant_id,
     tenant_name: r.tenant_name,
+    customer_id: r.customer_id || null,
     customer_name: r.customer_name || null,
     is_active: r.is_active,
     last_login_at: r.last_login_at,
     created_at: r.created_at,
     updated_at: r.updated_at,
+    deleted_at: r.deleted_at || null,
+    erased_at: r.erased_at || null,
   }));
 
   return paginatedResponse(users, total, page, pageSize, rateLimit);
 }
 
-/* ================================================================
- * POST /admin/users
- * ================================================================ */
+/** Fields accepted when creating (inviting) a user. */
+export interface NewUserFields {
+  email?: string;
+  display_name?: string;
+  role?: string;
+  role_id?: string | null;
+  tenant_id?: string;
+  customer_id?: string;
+  customer_name?: string;
+  granted_tenant_ids?: string[];
+  granted_customer_ids?: string[];
+}
 
-export async function handleCreateUser(
-  request: Request,
+/**
+ * Start (or restart) a user's invitation: a 48-hour token in KV, an
+ * auth_otp row (purpose 'invite') that records it, and the invite email.
+ * Returns whether the email was sent.
+ */
+async function issueInvite(
   sql: postgres.Sql,
-  tenant: TenantInfo,
   env: Env,
-): Promise<Response> {
-  let body: Record<string, unknown>;
+  user: { id: string; email: string; display_name: string },
+): Promise<boolean> {
+  // Generate invite token (48-hour expiry) and store in KV
+  const inviteToken = crypto.randomUUID();
+  await env.TENANT_KV.put(
+    `invite:${inviteToken}`,
+    JSON.stringify({ user_id: user.id, email: user.email }),
+    { expirationTtl: 48 * 60 * 60 }, // 48 hours
+  );
+
+  // Also store an OTP record for audit trail
+  await sql`
+    INSERT INTO auth_otp (user_id, code_hash, purpose, expires_at)
+    VALUES (${user.id}, ${inviteToken}, 'invite',
+            ${new Date(Date.now() + 48 * 60 * 60 * 1000).toISOString()})
+  `;
+
+  // Send invite email
+  const frontendUrl = env.FRONTEND_URL || 'https://simsy-reporting.pages.dev';
+  const inviteUrl = `${frontendUrl}/index.html#set-password?token=${inviteToken}`;
+
   try {
-    body = await request.json();
-  } catch {
-    return errorResponse(400, 'Invalid JSON body');
+    await sendInviteEmail({
+      to: user.email,
+      name: user.display_name,
+      inviteUrl,
+      apiKey: env.BREVO_API_KEY,
+      fromEmail: env.OTP_FROM_EMAIL || 'noreply@s-imsy.com',
+    });
+    return true;
+  } catch (err) {
+    console.error('[ADMIN] Failed to send invite email:', err);
+    return false;
   }
+}
 
-  const { email, display_name, role, tenant_id, customer_name } = body as {
-    email?: string;
-    display_name?: string;
-    role?: string;
-    tenant_id?: string;
-    customer_name?: string;
-  };
+/**
+ * Validate and create an invited user, then send the invite. Returns the
+ * new user, or an error response. Shared by the single and bulk routes.
+ */
+export async function createInvitedUser(
+  request: Request,
+  sql: postgres.Sql,
+  env: Env,
+  tenant: TenantInfo,
+  fields: NewUserFields,
+): Promise<Response | Record<string, unknown>> {
+  const { email, display_name, role, role_id, tenant_id, customer_id, customer_name } = fields;
 
   // Validate required fields (no password — user sets it via invite link)
   if (!email || !display_name || !role || !tenant_id) {
@@ -140,8 +366,8 @@ export async function handleCreateUser(
     return errorResponse(400, 'Invalid role. Must be admin, tenant, or customer.');
   }
 
-  if (role === 'customer' && !customer_name) {
-    return errorResponse(400, 'customer_name is required for customer role');
+  if (role === 'customer' && !customer_id && !customer_name) {
+    return errorResponse(400, 'customer_id or customer_name is required for customer role');
   }
 
   // Validate email format
@@ -149,79 +375,96 @@ export async function handleCreateUser(
     return errorResponse(400, 'Invalid email format');
   }
 
-  // Check tenant exists
-  const tenants = await sql`SELECT tenant_id FROM rpt_tenants WHERE tenant_id = ${tenant_id}`;
-  if (tenants.length === 0) {
+  // Check tenant exists and the caller administers it
+  if (!(await tenantInScope(sql, tenant, tenant_id))) {
     return errorResponse(400, 'Invalid tenant_id');
   }
 
+  const customer = role === 'customer' ? await findCustomer(sql, tenant_id, { customer_id, customer_name }) : null;
+  if (role === 'customer' && !customer) {
+    return errorResponse(400, 'Invalid customer', 'Use a customer of the user\'s tenant (see GET /customers).');
+  }
+
+  const grants = await checkScopeGrants(sql, tenant, { id: null, role, tenant_id }, fields);
+  if (grants instanceof Response) return grants;
+
+  const escalation = await checkGrantable(sql, tenant, role as TenantInfo['role'], role_id || null);
+  if (escalation) return escalation;
+
   // Check duplicate email
   const existing = await sql`
-    SELECT id FROM auth_users WHERE email_lower = ${email.toLowerCase()}
+    SELECT id, deleted_at FROM auth_users WHERE email_lower = ${email.toLowerCase()}
   `;
   if (existing.length > 0) {
-    return errorResponse(409, 'An account with this email already exists');
+    return errorResponse(
+      409,
+      'An account with this email already exists',
+      existing[0].deleted_at ? 'The account is deleted; restore it instead.' : undefined,
+    );
   }
 
   // Create user without password (pending invite)
   const result = await sql`
-    INSERT INTO auth_users (email, password_hash, salt, display_name, role, tenant_id, customer_name, is_active, created_by)
-    VALUES (${email}, ${null}, ${null}, ${display_name}, ${role}, ${tenant_id},
-            ${role === 'customer' ? customer_name! : null},
+    INSERT INTO auth_users (email, password_hash, salt, display_name, role, role_id, tenant_id, customer_id, customer_name, is_active, created_by)
+    VALUES (${email}, ${null}, ${null}, ${display_name}, ${role}, ${role_id || null}, ${tenant_id},
+            ${customer?.id ?? null}, ${customer?.name ?? null},
             false,
             ${tenant.user_id || null})
-    RETURNING id, email, display_name, role, tenant_id, customer_name, is_active, created_at
+    RETURNING id, email, display_name, role, role_id, tenant_id, customer_id, customer_name, is_active, created_at
   `;
 
   const created = result[0];
+  await saveUserGrants(sql, created.id, grants, tenant.user_id || null);
+  const emailSent = await issueInvite(sql, env, created as { id: string; email: string; display_name: string });
+
+  await recordAudit(sql, request, {
+    action: 'user.create',
+    tenant,
+    tenant_id: created.tenant_id,
+    target_type: 'user',
+    target_id: created.id,
+    after: await userSnapshot(sql, created.id),
+    metadata: { invite_sent: emailSent },
+  });
 
-  // Generate invite token (48-hour expiry) and store in KV
-  const inviteToken = crypto.randomUUID();
-  await env.TENANT_KV.put(
-    `invite:${inviteToken}`,
-    JSON.stringify({ user_id: created.id, email: created.email }),
-    { expirationTtl: 48 * 60 * 60 }, // 48 hours
-  );
-
-  // Also store an OTP record for audit trail
-  await sql`
-    INSERT INTO auth_otp (user_id, code_hash, purpose, expires_at)
-    VALUES (${created.id}, ${inviteToken}, 'invite',
-            ${new Date(Date.now() + 48 * 60 * 60 * 1000).toISOString()})
-  `;
+  return {
+    id: created.id,
+    email: created.email,
+    display_name: created.display_name,
+    role: created.role,
+    role_id: created.role_id || null,
+    tenant_id: created.tenant_id,
+    customer_id: created.customer_id || null,
+    customer_name: created.customer_name || null,
+    granted_tenant_ids: grants.tenant_ids ?? [],
+    granted_customer_ids: grants.customer_ids ?? [],
+    is_active: created.is_active,
+    created_at: created.created_at,
+    invite_sent: emailSent,
+  };
+}
 
-  // Send invite email
-  const frontendUrl = env.FRONTEND_URL || 'https://simsy-reporting.pages.dev';
-  const inviteUrl = `${frontendUrl}/index.html#set-password?token=${inviteToken}`;
+/* ================================================================
+ * POST /admin/users
+ * ================================================================ */
 
-  let emailSent = false;
+export async function handleCreateUser(
+  request: Request,
+  sql: postgres.Sql,
+  tenant: TenantInfo,
+  env: Env,
+): Promise<Response> {
+  let body: NewUserFields;
   try {
-    await sendInviteEmail({
-      to: created.email,
-      name: created.display_name,
-      inviteUrl,
-      apiKey: env.BREVO_API_KEY,
-      fromEmail: env.OTP_FROM_EMAIL || 'noreply@s-imsy.com',
-    });
-    emailSent = true;
-  } catch (err) {
-    console.error('[ADMIN] Failed to send invite email:', err);
+    body = await request.json();
+  } catch {
+    return errorResponse(400, 'Invalid JSON body');
   }
 
-  return jsonResponse(
-    {
-      id: created.id,
-      email: created.email,
-      display_name: created.display_name,
-      role: created.role,
-      tenant_id: created.tenant_id,
-      customer_name: created.customer_name || null,
-      is_active: created.is_active,
-      created_at: created.created_at,
-      invite_sent: emailSent,
-    },
-    201,
-  );
+  const created = await createInvitedUser(request, sql, env, tenant, body);
+  if (created instanceof Response) return created;
+
+  return jsonResponse(created, 201);
 }
 
 /* ================================================================
@@ -231,14 +474,21 @@ export async function handleCreateUser(
 export async function handleGetUser(
   userId: string,
   sql: postgres.Sql,
+  tenant: TenantInfo,
 ): Promise<Response> {
+  if (!(await userInScope(sql, tenant, userId))) {
+    return errorResponse(404, 'User not found');
+  }
+
   const users = await sql`
-    SELECT u.id, u.email, u.display_name, u.role, u.tenant_id, u.customer_name,
+    SELECT u.id, u.email, u.display_name, u.role, u.role_id, u.tenant_id, u.customer_id, u.customer_name,
            u.is_active, u.failed_logins, u.locked_until, u.last_login_at,
-           u.password_changed_at, u.created_at, u.updated_at,
-           t.tenant_name
+           u.password_changed_at, u.mfa_method, u.totp_enrolled_at,
+           u.created_at, u.updated_at, u.deleted_at, u.erased_at,
+           t.tenant_name, r.name AS role_name
     FROM auth_users u
     JOIN rpt_tenants t ON t.tenant_id = u.tenant_id
+    LEFT JOIN auth_roles r ON r.id = u.role_id
     WHERE u.id = ${userId}
   `;
 
@@ -247,21 +497,32 @@ export async function handleGetUser(
   }
 
   const u = users[0];
+  const grants = await loadUserGrants(sql, userId);
   return jsonResponse({
     id: u.id,
     email: u.email,
     display_name: u.display_name,
     role: u.role,
+    role_id: u.role_id || null,
+    role_name: u.role_name || null,
+    permissions: await resolvePermissions(sql, u as { role: TenantInfo['role']; role_id: string | null }),
     tenant_id: u.tenant_id,
     tenant_name: u.tenant_name,
+    customer_id: u.customer_id || null,
     customer_name: u.customer_name || null,
+    granted_tenant_ids: grants.tenant_ids,
+    granted_customer_ids: grants.customer_ids,
     is_active: u.is_active,
     failed_logins: u.failed_logins,
     locked_until: u.locked_until,
     last_login_at: u.last_login_at,
     password_changed_at: u.password_changed_at,
+    mfa_method: u.mfa_method,
+    totp_enrolled_at: u.totp_enrolled_at,
     created_at: u.created_at,
     updated_at: u.updated_at,
+    deleted_at: u.deleted_at || null,
+    erased_at: u.erased_at || null,
   });
 }
 
@@ -273,6 +534,8 @@ export async function handleUpdateUser(
   userId: string,
   request: Request,
   sql: postgres.Sql,
+  env: Env,
+  tenant: TenantInfo,
 ): Promise<Response> {
   let body: Record<string, unknown>;
   try {
@@ -282,11 +545,17 @@ export async function handleUpdateUser(
   }
 
   // Check user exists
-  const existing = await sql`SELECT id FROM auth_users WHERE id = ${userId}`;
-  if (existing.length === 0) {
+  const existing = await sql`SELECT id, role, role_id, tenant_id, customer_id FROM auth_users WHERE id = ${userId}`;
+  if (existing.length === 0 || !(await userInScope(sql, tenant, userId))) {
     return errorResponse(404, 'User not found');
   }
 
+  const outranked = await checkTargetManageable(sql, tenant, userId);
+  if (outranked) return outranked;
+
+  const deleted = await rejectIfDeleted(sql, userId);
+  if (deleted) return deleted;
+
   // Build update fields
   const updates: string[] = [];
   const params: (string | number | boolean | null)[] = [];
@@ -295,8 +564,8 @@ export async function handleUpdateUser(
   const allowedFields: Record<string, string> = {
     display_name: 'display_name',
     role: 'role',
+    role_id: 'role_id',
     tenant_id: 'tenant_id',
-    customer_name: 'customer_name',
     is_active: 'is_active',
   };
 
@@ -308,7 +577,28 @@ export async function handleUpdateUser(
     }
   }
 
-  if (updates.length === 0) {
+  // The customer must belong to the user's (new) tenant; null clears it
+  const newTenantId = typeof body.tenant_id === 'string' ? body.tenant_id : (existing[0].tenant_id as string);
+  if (body.customer_id !== undefined || body.customer_name !== undefined) {
+    let customer = null;
+    if (body.customer_id || body.customer_name) {
+      customer = await findCustomer(sql, newTenantId, {
+        customer_id: typeof body.customer_id === 'string' ? body.customer_id : null,
+        customer_name: typeof body.customer_name === 'string' ? body.customer_name : null,
+      });
+      if (!customer) {
+        return errorResponse(400, 'Invalid customer', 'Use a customer of the user\'s tenant (see GET /customers).');
+      }
+    }
+    updates.push(`customer_id = $${paramIndex + 1}`, `customer_name = $${paramIndex + 2}`);
+    params.push(customer?.id ?? null, customer?.name ?? null);
+    paramIndex += 2;
+  } else if (existing[0].customer_id && newTenantId !== existing[0].tenant_id) {
+    return errorResponse(400, 'customer_id is required when moving a customer user to another tenant');
+  }
+
+  const grantsRequested = body.granted_tenant_ids !== undefined || body.granted_customer_ids !== undefined;
+  if (updates.length === 0 && !grantsRequested) {
     return errorResponse(400, 'No valid fields to update');
   }
 
@@ -317,35 +607,75 @@ export async function handleUpdateUser(
     return errorResponse(400, 'Invalid role');
   }
 
-  // Validate tenant if being changed
-  if (body.tenant_id) {
-    const tenants = await sql`SELECT tenant_id FROM rpt_tenants WHERE tenant_id = ${body.tenant_id as string}`;
-    if (tenants.length === 0) {
+  // Validate tenant if being changed — users can only move within the caller's scope
+  if (body.tenant_id !== undefined) {
+    if (typeof body.tenant_id !== 'string' || !(await tenantInScope(sql, tenant, body.tenant_id))) {
       return errorResponse(400, 'Invalid tenant_id');
     }
   }
 
+  // The resulting permissions must not exceed the caller's own
+  if (body.role !== undefined || body.role_id !== undefined) {
+    const escalation = await checkGrantable(
+      sql,
+      tenant,
+      (body.role ?? existing[0].role) as TenantInfo['role'],
+      (body.role_id !== undefined ? body.role_id : existing[0].role_id) as string | null,
+    );
+    if (escalation) return escalation;
+  }
+
+  const grants = await checkScopeGrants(
+    sql,
+    tenant,
+    { id: userId, role: (body.role ?? existing[0].role) as string, tenant_id: newTenantId },
+    body,
+  );
+  if (grants instanceof Response) return grants;
+
   // Add updated_at
   updates.push(`updated_at = now()`);
 
   paramIndex++;
   params.push(userId);
 
+  const before = await userSnapshot(sql, userId);
   await sql.unsafe(
     `UPDATE auth_users SET ${updates.join(', ')} WHERE id = $${paramIndex}`,
     params as any[],
   );
+  // Also drops customer grants the user can no longer see
+  await saveUserGrants(sql, userId, grants, tenant.user_id || null);
+  const after = await userSnapshot(sql, userId);
+
+  // Deactivation signs the user out; their API keys stop working via the sync below
+  const sessionsRevoked = before?.is_active && !after?.is_active ? await revokeUserSessions(sql, env, userId) : 0;
+
+  await recordAudit(sql, request, {
+    action: 'user.update',
+    tenant,
+    tenant_id: after?.tenant_id as string,
+    target_type: 'user',
+    target_id: userId,
+    before,
+    after,
+    metadata: sessionsRevoked > 0 ? { sessions_revoked: sessionsRevoked } : undefined,
+  });
+
+  // API keys act as this user — bring their snapshots in line
+  await syncUserApiKeys(sql, env, userId);
 
   // Return the updated user
-  return handleGetUser(userId, sql);
+  return handleGetUser(userId, sql, tenant);
 }
 
 /* ================================================================
- * DELETE /admin/users/:id — permanently delete user
+ * DELETE /admin/users/:id — soft-delete user
  * ================================================================ */
 
 export async function handleDeleteUser(
   userId: string,
+  request: Request,
   sql: postgres.Sql,
   env: Env,
   tenant: TenantInfo,
@@ -355,27 +685,98 @@ export async function handleDeleteUser(
     return errorResponse(400, 'Cannot delete your own account');
   }
 
-  const existing = await sql`SELECT id, email FROM auth_users WHERE id = ${userId}`;
-  if (existing.length === 0) {
+  if (!(await userInScope(sql, tenant, userId))) {
     return errorResponse(404, 'User not found');
   }
 
-  // Revoke all active sessions for this user
-  const sessions = await sql`
-    SELECT token_hash FROM auth_sessions WHERE user_id = ${userId}
+  const outranked = await checkTargetManageable(sql, tenant, userId);
+  if (outranked) return outranked;
+
+  const before = await userSnapshot(sql, userId);
+  if (before?.deleted_at) {
+    return errorResponse(409, 'User is already deleted');
+  }
+
+  // Sessions, API keys and pending invites stop working immediately
+  const sessionsRevoked = await revokeUserAccess(sql, env, userId);
+
+  // Keep the row (and its history); the purge erases it after the retention period
+  const deleted = await sql`
+    UPDATE auth_users
+    SET is_active = false, deleted_at = now(), deleted_by = ${tenant.user_id || null}, updated_at = now()
+    WHERE id = ${userId}
+    RETURNING deleted_at
   `;
-  for (const session of sessions) {
-    await env.TENANT_KV.delete(`session:${session.token_hash}`);
+  const purgeAfter = new Date(new Date(deleted[0].deleted_at).getTime() + retentionDays(env) * 86_400_000);
+
+  await recordAudit(sql, request, {
+    action: 'user.delete',
+    tenant,
+    tenant_id: before?.tenant_id as string,
+    target_type: 'user',
+    target_id: userId,
+    before,
+    after: await userSnapshot(sql, userId),
+    metadata: { sessions_revoked: sessionsRevoked, purge_after: purgeAfter.toISOString() },
+  });
+
+  return jsonResponse({
+    status: 'ok',
+    message: 'User deleted',
+    purge_after: purgeAfter.toISOString(),
+  });
+}
+
+/* ================================================================
+ * POST /admin/users/:id/restore — undo a soft delete
+ * ================================================================ */
+
+export async function handleRestoreUser(
+  userId: string,
+  request: Request,
+  sql: postgres.Sql,
+  tenant: TenantInfo,
+): Promise<Response> {
+  if (!(await userInScope(sql, tenant, userId))) {
+    return errorResponse(404, 'User not found');
   }
-  await sql`DELETE FROM auth_sessions WHERE user_id = ${userId}`;
 
-  // Delete OTP records
-  await sql`DELETE FROM auth_otp WHERE user_id = ${userId}`;
+  const outranked = await checkTargetManageable(sql, tenant, userId);
+  if (outranked) return outranked;
+
+  const users = await sql`
+    SELECT deleted_at, erased_at FROM auth_users WHERE id = ${userId}
+  `;
+  if (!users[0].deleted_at) {
+    return errorResponse(409, 'User is not deleted');
+  }
+  if (users[0].erased_at) {
+    return errorResponse(409, 'User has been erased and cannot be restored');
+  }
 
-  // Delete the user record permanently
-  await sql`DELETE FROM auth_users WHERE id = ${userId}`;
+  // Users who had signed up come back active; pending invitees need a new invite
+  const before = await userSnapshot(sql, userId);
+  await sql`
+    UPDATE auth_users
+    SET deleted_at = NULL,
+        deleted_by = NULL,
+        is_active = (password_hash IS NOT NULL OR oidc_subject IS NOT NULL),
+        updated_at = now()
+    WHERE id = ${userId}
+  `;
+  const after = await userSnapshot(sql, userId);
+
+  await recordAudit(sql, request, {
+    action: 'user.restore',
+    tenant,
+    tenant_id: after?.tenant_id as string,
+    target_type: 'user',
+    target_id: userId,
+    before,
+    after,
+  });
 
-  return jsonResponse({ status: 'ok', message: 'User permanently deleted' });
+  return handleGetUser(userId, sql, tenant);
 }
 
 /* ================================================================
@@ -384,11 +785,23 @@ export async function handleDeleteUser(
 
 export async function handleResendInvite(
   userId: string,
+  request: Request,
   sql: postgres.Sql,
   env: Env,
+  tenant: TenantInfo,
 ): Promise<Response> {
+  if (!(await userInScope(sql, tenant, userId))) {
+    return errorResponse(404, 'User not found');
+  }
+
+  const outranked = await checkTargetManageable(sql, tenant, userId);
+  if (outranked) return outranked;
+
+  const deleted = await rejectIfDeleted(sql, userId);
+  if (deleted) return deleted;
+
   const users = await sql`
-    SELECT id, email, display_name, password_hash
+    SELECT id, email, display_name, password_hash, tenant_id
     FROM auth_users WHERE id = ${userId}
   `;
 
@@ -415,38 +828,16 @@ export async function handleResendInvite(
     WHERE user_id = ${userId} AND purpose = 'invite' AND used_at IS NULL
   `;
 
-  // Generate new invite token (48-hour expiry)
-  const inviteToken = crypto.randomUUID();
-  await env.TENANT_KV.put(
-    `invite:${inviteToken}`,
-    JSON.stringify({ user_id: user.id, email: user.email }),
-    { expirationTtl: 48 * 60 * 60 },
-  );
+  const emailSent = await issueInvite(sql, env, user as { id: string; email: string; display_name: string });
 
-  // Audit record
-  await sql`
-    INSERT INTO auth_otp (user_id, code_hash, purpose, expires_at)
-    VALUES (${user.id}, ${inviteToken}, 'invite',
-            ${new Date(Date.now() + 48 * 60 * 60 * 1000).toISOString()})
-  `;
-
-  // Send invite email
-  const frontendUrl = env.FRONTEND_URL || 'https://simsy-reporting.pages.dev';
-  const inviteUrl = `${frontendUrl}/index.html#set-password?token=${inviteToken}`;
-
-  let emailSent = false;
-  try {
-    await sendInviteEmail({
-      to: user.email,
-      name: user.display_name,
-      inviteUrl,
-      apiKey: env.BREVO_API_KEY,
-      fromEmail: env.OTP_FROM_EMAIL || 'noreply@s-imsy.com',
-    });
-    emailSent = true;
-  } catch (err) {
-    console.error('[ADMIN] Failed to send invite email:', err);
-  }
+  await recordAudit(sql, request, {
+    action: 'user.invite_resend',
+    tenant,
+    tenant_id: user.tenant_id,
+    target_type: 'user',
+    target_id: user.id,
+    metadata: { email: user.email, invite_sent: emailSent },
+  });
 
   return jsonResponse({
     status: 'ok',
@@ -464,6 +855,7 @@ export async function handleAdminResetPassword(
   request: Request,
   sql: postgres.Sql,
   env: Env,
+  tenant: TenantInfo,
 ): Promise<Response> {
   let body: { new_password?: string };
   try {
@@ -473,28 +865,24 @@ export async function handleAdminResetPassword(
   }
 
   const { new_password } = body;
-  if (!new_password || new_password.length < 12) {
-    return errorResponse(400, 'new_password is required and must be at least 12 characters');
+  if (!new_password) {
+    return errorResponse(400, 'new_password is required');
   }
 
-  const existing = await sql`SELECT id FROM auth_users WHERE id = ${userId}`;
-  if (existing.length === 0) {
+  if (!(await userInScope(sql, tenant, userId))) {
     return errorResponse(404, 'User not found');
   }
 
-  const salt = generateSalt();
-  const passwordHash = await hashPassword(new_password, salt);
+  const outranked = await checkTargetManageable(sql, tenant, userId);
+  if (outranked) return outranked;
 
-  await sql`
-    UPDATE auth_users
-    SET password_hash = ${passwordHash},
-        salt = ${salt},
-        password_changed_at = now(),
-        failed_logins = 0,
-        locked_until = NULL,
-        updated_at = now()
-    WHERE id = ${userId}
-  `;
+  const deleted = await rejectIfDeleted(sql, userId);
+  if (deleted) return deleted;
+
+  const rejected = await checkNewPassword(sql, userId, new_password);
+  if (rejected) return rejected;
+
+  await setUserPassword(sql, userId, new_password);
 
   // Revoke all sessions
   const sessions = await sql`
@@ -505,9 +893,78 @@ export async function handleAdminResetPassword(
   }
   await sql`DELETE FROM auth_sessions WHERE user_id = ${userId}`;
 
+  const target = await userSnapshot(sql, userId);
+  await recordAudit(sql, request, {
+    action: 'user.password_reset',
+    tenant,
+    tenant_id: target?.tenant_id as string,
+    target_type: 'user',
+    target_id: userId,
+    metadata: { email: target?.email, sessions_revoked: sessions.length },
+  });
+
   return jsonResponse({ status: 'ok', message: 'Password reset and all sessions revoked' });
 }
 
+/* ================================================================
+ * DELETE /admin/users/:id/mfa — reset to email OTP
+ * ================================================================ */
+
+export async function handleResetUserMfa(
+  userId: string,
+  request: Request,
+  sql: postgres.Sql,
+  env: Env,
+  tenant: TenantInfo,
+): Promise<Response> {
+  if (!(await userInScope(sql, tenant, userId))) {
+    return errorResponse(404, 'User not found');
+  }
+
+  const outranked = await checkTargetManageable(sql, tenant, userId);
+  if (outranked) return outranked;
+
+  const deleted = await rejectIfDeleted(sql, userId);
+  if (deleted) return deleted;
+
+  const users = await sql`SELECT email, tenant_id, mfa_method FROM auth_users WHERE id = ${userId}`;
+
+  // Drop any authenticator enrolment and its recovery codes; the next
+  // login falls back to email OTP
+  await sql`
+    UPDATE auth_users
+    SET mfa_method = 'email',
+        totp_secret = NULL,
+        totp_pending_secret = NULL,
+        totp_last_step = NULL,
+        totp_enrolled_at = NULL,
+        updated_at = now()
+    WHERE id = ${userId}
+  `;
+  await sql`DELETE FROM auth_recovery_codes WHERE user_id = ${userId}`;
+
+  // A reset usually means the second factor was lost or compromised, so
+  // sessions opened with it go too
+  const sessionsRevoked = await revokeUserSessions(sql, env, userId);
+
+  await recordAudit(sql, request, {
+    action: 'user.mfa_reset',
+    tenant,
+    tenant_id: users[0].tenant_id,
+    target_type: 'user',
+    target_id: userId,
+    before: { mfa_method: users[0].mfa_method },
+    after: { mfa_method: 'email' },
+    metadata: { email: users[0].email, sessions_revoked: sessionsRevoked },
+  });
+
+  return jsonResponse({
+    status: 'ok',
+    message: 'MFA reset to email verification and all sessions revoked',
+    mfa_method: 'email',
+  });
+}
+
 /* ================================================================
  * GET /admin/sessions
  * ================================================================ */
@@ -515,29 +972,34 @@ export async function handleAdminResetPassword(
 export async function handleListSessions(
   searchParams: URLSearchParams,
   sql: postgres.Sql,
+  tenant: TenantInfo,
   env: Env,
   rateLimit: RateLimitResult,
 ): Promise<Response> {
   const { page, pageSize } = parsePagination(searchParams, env);
   const offset = paginationOffset({ page, pageSize });
+  const tf = tenantFilter(tenant, 1, 'u.tenant_id');
 
-  const countResult = await sql`
-    SELECT COUNT(*) AS total
-    FROM auth_sessions s
-    WHERE s.expires_at > now()
-  `;
+  const countResult = await sql.unsafe(
+    `SELECT COUNT(*) AS total
+     FROM auth_sessions s
+     JOIN auth_users u ON u.id = s.user_id
+     WHERE s.expires_at > now() AND ${tf.clause}`,
+    tf.params as any[],
+  );
   const total = parseInt(countResult[0].total);
 
-  const rows = await sql`
-    SELECT s.id, s.user_id, s.issued_at, s.expires_at, s.last_activity_at,
-           s.ip_address, s.user_agent,
-           u.email, u.display_name, u.role
-    FROM auth_sessions s
-    JOIN auth_users u ON u.id = s.user_id
-    WHERE s.expires_at > now()
-    ORDER BY s.issued_at DESC
-    LIMIT ${pageSize} OFFSET ${offset}
-  `;
+  const rows = await sql.unsafe(
+    `SELECT s.id, s.user_id, s.issued_at, s.expires_at, s.last_activity_at,
+            s.ip_address, s.user_agent,
+            u.email, u.display_name, u.role
+     FROM auth_sessions s
+     JOIN auth_users u ON u.id = s.user_id
+     WHERE s.expires_at > now() AND ${tf.clause}
+     ORDER BY s.issued_at DESC
+     LIMIT $${tf.nextIdx} OFFSET $${tf.nextIdx + 1}`,
+    [...tf.params, pageSize, offset] as any[],
+  );
 
   const sessions = rows.map((r: Record<string, unknown>) => ({
     id: r.id,
@@ -561,12 +1023,23 @@ export async function handleListSessions(
 
 export async function handleRevokeSession(
   sessionId: string,
+  request: Request,
   sql: postgres.Sql,
   env: Env,
+  tenant: TenantInfo,
 ): Promise<Response> {
-  const sessions = await sql`
-    SELECT id, token_hash FROM auth_sessions WHERE id = ${sessionId}
-  `;
+  if (!/^[0-9a-f-]{36}$/i.test(sessionId)) {
+    return errorResponse(404, 'Session not found');
+  }
+
+  const tf = tenantFilter(tenant, 2, 'u.tenant_id');
+  const sessions = await sql.unsafe(
+    `SELECT s.id, s.token_hash, s.user_id, u.email, u.tenant_id
+     FROM auth_sessions s
+     JOIN auth_users u ON u.id = s.user_id
+     WHERE s.id = $1 AND ${tf.clause}`,
+    [sessionId, ...tf.params] as any[],
+  );
 
   if (sessions.length === 0) {
     return errorResponse(404, 'Session not found');
@@ -574,27 +1047,23 @@ export async function handleRevokeSession(
 
   const session = sessions[0];
 
+  const outranked = await checkTargetManageable(sql, tenant, session.user_id);
+  if (outranked) return outranked;
+
   // Remove from KV
   await env.TENANT_KV.delete(`session:${session.token_hash}`);
   // Remove from DB
   await sql`DELETE FROM auth_sessions WHERE id = ${sessionId}`;
 
-  return jsonResponse({ status: 'ok', message: 'Session revoked' });
-}
-
-/* ================================================================
- * GET /admin/tenants
- * ================================================================ */
-
-export async function handleListTenants(
-  sql: postgres.Sql,
-): Promise<Response> {
-  const rows = await sql`
-    SELECT tenant_id, tenant_name, parent_tenant_id, role, is_active
-    FROM rpt_tenants
-    ORDER BY tenant_name
-  `;
+  await recordAudit(sql, request, {
+    action: 'session.revoke',
+    tenant,
+    tenant_id: session.tenant_id,
+    target_type: 'session',
+    target_id: sessionId,
+    metadata: { user_id: session.user_id, email: session.email },
+  });
 
-  return jsonResponse({ data: rows });
+  return jsonResponse({ status: 'ok', message: 'Session revoked' });
 }
 
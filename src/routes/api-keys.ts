@@ -0,0 +1,246 @@
+/**
+ * API key route handlers.
+ *
+ * Replaces hand-provisioned `token:<clientId>` KV entries with keys users
+ * manage themselves. A key acts as its owner, narrowed to read-only access
+ * to the chosen report types and optionally to a single customer
+ * (customer_id, or customer_name — a name or alias in the registry).
+ *
+ * Protected endpoints (JWT required — an API key cannot manage keys):
+ *   GET    /api-keys      — List the caller's keys (never the secret)
+ *   POST   /api-keys      — Create a key; the secret is returned once
+ *   DELETE /api-keys/:id  — Revoke a key
+ *
+ * Use a key as `Authorization: Bearer srk_...`.
+ */
+
+import type postgres from 'postgres';
+import type { Env, TenantInfo } from '../types';
+import { jsonResponse, errorResponse } from '../utils/response';
+import { hashTokenId } from '../utils/crypto';
+import { tenantFilter } from '../db';
+import type { CustomerRef } from '../utils/customers';
+import { API_KEY_SCOPES, generateApiKey, putApiKeySnapshot } from '../utils/api-keys';
+import { recordAudit } from '../utils/audit';
+
+const DEFAULT_EXPIRY_DAYS = 90;
+const MAX_EXPIRY_DAYS = 365;
+const MAX_KEYS_PER_USER = 20;
+
+function apiKeyRow(r: Record<string, unknown>) {
+  return {
+    id: r.id,
+    name: r.name,
+    key_prefix: r.key_prefix,
+    scopes: r.scopes,
+    customer_id: r.customer_id || null,
+    customer_name: r.customer_name || null,
+    expires_at: r.expires_at,
+    last_used_at: r.last_used_at,
+    revoked_at: r.revoked_at,
+    created_at: r.created_at,
+  };
+}
+
+/* ================================================================
+ * GET /api-keys
+ * ================================================================ */
+
+export async function handleListApiKeys(
+  sql: postgres.Sql,
+  tenant: TenantInfo,
+): Promise<Response> {
+  if (tenant.auth_method !== 'jwt' || !tenant.user_id) {
+    return errorResponse(403, 'Forbidden', 'API keys can only be managed from a JWT session');
+  }
+
+  const rows = await sql`
+    SELECT id, name, key_prefix, scopes, customer_id, customer_name, expires_at,
+           last_used_at, revoked_at, created_at
+    FROM auth_api_keys
+    WHERE user_id = ${tenant.user_id}
+    ORDER BY created_at DESC
+  `;
+
+  return jsonResponse({ data: rows.map(apiKeyRow) });
+}
+
+/* ================================================================
+ * POST /api-keys
+ * ================================================================ */
+
+export async function handleCreateApiKey(
+  request: Request,
+  sql: postgres.Sql,
+  env: Env,
+  tenant: TenantInfo,
+): Promise<Response> {
+  if (tenant.auth_method !== 'jwt' || !tenant.user_id || !tenant.user_email) {
+    return errorResponse(403, 'Forbidden', 'API keys can only be managed from a JWT session');
+  }
+
+  let body: { name?: string; scopes?: string[]; customer_id?: string; customer_name?: string; expires_in_days?: number };
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(400, 'Invalid JSON body');
+  }
+
+  // 1. Validate input
+  const name = body.name?.trim();
+  if (!name) {
+    return errorResponse(400, 'name is required');
+  }
+
+  const validScopes = Object.keys(API_KEY_SCOPES);
+  if (
+    !Array.isArray(body.scopes) ||
+    body.scopes.length === 0 ||
+    !body.scopes.every((s) => validScopes.includes(s))
+  ) {
+    return errorResponse(400, 'scopes must be a non-empty array', `Valid scopes: ${validScopes.join(', ')}`);
+  }
+  const scopes = [...new Set(body.scopes)];
+
+  const days = body.expires_in_days ?? DEFAULT_EXPIRY_DAYS;
+  if (!Number.isInteger(days) || days < 1 || days > MAX_EXPIRY_DAYS) {
+    return errorResponse(400, `expires_in_days must be between 1 and ${MAX_EXPIRY_DAYS}`);
+  }
+  const expiresAt = new Date(Date.now() + days * 86400 * 1000);
+
+  // 2. Anyone may narrow a key to one customer they can see — for a
+  //    customer user, one of their own. An unrestricted key of a customer
+  //    user follows their customers, like the user.
+  let customer: CustomerRef | null = null;
+  const requested = body.customer_id || body.customer_name || null;
+  if (requested) {
+    const ownCustomers = tenant.customer_ids ?? (tenant.customer_id ? [tenant.customer_id] : []);
+    const tf = tenantFilter(tenant, 2, 'c.tenant_id');
+    const found = await sql.unsafe(
+      `SELECT c.id, c.tenant_id, c.name FROM customers c
+       WHERE ${tf.clause}
+         AND ${body.customer_id
+           ? `c.id::text = $1`
+           : `(LOWER(c.name) = LOWER($1) OR EXISTS (
+                SELECT 1 FROM customer_aliases a WHERE a.customer_id = c.id AND LOWER(a.alias) = LOWER($1)))`}
+         ${tenant.role === 'customer' ? `AND c.id = ANY($${tf.nextIdx + 1}::uuid[])` : ''}
+       ORDER BY c.tenant_id = $${tf.nextIdx} DESC
+       LIMIT 1`,
+      [requested, ...tf.params, tenant.tenant_id, ...(tenant.role === 'customer' ? [ownCustomers] : [])] as any[],
+    );
+    if (found.length === 0) {
+      if (tenant.role === 'customer') {
+        return errorResponse(403, 'Forbidden', 'You can only create keys for your own customers');
+      }
+      return errorResponse(400, body.customer_id ? 'Unknown customer_id' : 'Unknown customer_name');
+    }
+    customer = found[0] as unknown as CustomerRef;
+  }
+  const customerName = customer?.name ?? null;
+
+  const active = await sql`
+    SELECT COUNT(*) AS n FROM auth_api_keys
+    WHERE user_id = ${tenant.user_id} AND revoked_at IS NULL AND expires_at > now()
+  `;
+  if (parseInt(active[0].n) >= MAX_KEYS_PER_USER) {
+    return errorResponse(409, `You already have ${MAX_KEYS_PER_USER} active API keys`, 'Revoke one first.');
+  }
+
+  // 3. Store the hash and mirror a snapshot to KV for authentication
+  const key = generateApiKey();
+  const keyHash = await hashTokenId(key);
+
+  const result = await sql`
+    INSERT INTO auth_api_keys
+      (user_id, name, key_hash, key_prefix, scopes, customer_id, customer_name, expires_at)
+    VALUES (
+      ${tenant.user_id},
+      ${name.slice(0, 100)},
+      ${keyHash},
+      ${key.slice(0, 12)},
+      ${JSON.stringify(scopes)},
+      ${customer?.id ?? null},
+      ${customerName},
+      ${expiresAt.toISOString()}
+    )
+    RETURNING id, name, key_prefix, scopes, customer_id, customer_name, expires_at,
+              last_used_at, revoked_at, created_at
+  `;
+  const created = result[0];
+
+  await putApiKeySnapshot(env, keyHash, {
+    key_id: created.id,
+    user_id: tenant.user_id,
+    user_email: tenant.user_email,
+    tenant_id: tenant.tenant_id,
+    role: customer ? 'customer' : tenant.role,
+    customer_id: customer?.id ?? tenant.customer_id ?? null,
+    customer_name: customerName ?? tenant.customer_name ?? null,
+    customer_ids: customer ? [customer.id] : tenant.customer_ids,
+    granted_tenant_ids: tenant.granted_tenant_ids,
+    scopes,
+    permissions: tenant.permissions,
+    expires_at: expiresAt.toISOString(),
+  });
+
+  await recordAudit(sql, request, {
+    action: 'api_key.create',
+    tenant,
+    target_type: 'api_key',
+    target_id: created.id,
+    after: {
+      name: created.name,
+      key_prefix: created.key_prefix,
+      scopes,
+      customer_id: customer?.id ?? null,
+      customer_name: customerName,
+      expires_at: created.expires_at,
+    },
+  });
+
+  return jsonResponse(
+    {
+      ...apiKeyRow(created),
+      key,
+      message: 'Store this key somewhere safe. It will not be shown again.',
+    },
+    201,
+  );
+}
+
+/* ================================================================
+ * DELETE /api-keys/:id
+ * ================================================================ */
+
+export async function handleRevokeApiKey(
+  keyId: string,
+  request: Request,
+  sql: postgres.Sql,
+  env: Env,
+  tenant: TenantInfo,
+): Promise<Response> {
+  if (tenant.auth_method !== 'jwt' || !tenant.user_id) {
+    return errorResponse(403, 'Forbidden', 'API keys can only be managed from a JWT session');
+  }
+
+  const revoked = await sql`
+    UPDATE auth_api_keys SET revoked_at = now()
+    WHERE id = ${keyId} AND user_id = ${tenant.user_id} AND revoked_at IS NULL
+    RETURNING key_hash, name, key_prefix
+  `;
+  if (revoked.length === 0) {
+    return errorResponse(404, 'API key not found');
+  }
+
+  await env.TENANT_KV.delete(`apikey:${revoked[0].key_hash}`);
+
+  await recordAudit(sql, request, {
+    action: 'api_key.revoke',
+    tenant,
+    target_type: 'api_key',
+    target_id: keyId,
+    metadata: { name: revoked[0].name, key_prefix: revoked[0].key_prefix },
+  });
+
+  return jsonResponse({ status: 'ok', message: 'API key revoked' });
+}
@@ -0,0 +1,134 @@
+/**
+ * Audit log query route.
+ *
+ * GET /admin/audit — List audit entries, newest first (audit:read).
+ *
+ * Query params (all optional):
+ *   action       — exact action, or a prefix ending in "*" (e.g. "user.*")
+ *   actor        — actor user id or email
+ *   target_type  — e.g. "user", "role", "session"
+ *   target_id    — id of the affected object
+ *   tenant_id    — tenant of the affected object
+ *   from, to     — occurred_at range (ISO 8601)
+ *   page, per_page
+ *   format=csv   — download every matching entry (up to 10,000) as CSV
+ *
+ * Platform admins see every entry; tenant admins see entries for their own
+ * tenant + descendant tenants only.
+ */
+
+import type postgres from 'postgres';
+import type { Env, TenantInfo } from '../types';
+import type { RateLimitResult } from '../middleware/rate-limit';
+import { tenantFilter } from '../db';
+import { parsePagination, paginationOffset } from '../utils/pagination';
+import { paginatedResponse, errorResponse } from '../utils/response';
+import { toCSV, csvResponse } from '../utils/csv';
+
+const CSV_MAX_ROWS = 10_000;
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/* ================================================================
+ * GET /admin/audit
+ * ================================================================ */
+
+export async function handleListAudit(
+  searchParams: URLSearchParams,
+  sql: postgres.Sql,
+  tenant: TenantInfo,
+  env: Env,
+  rateLimit: RateLimitResult,
+): Promise<Response> {
+  const format = searchParams.get('format') || 'json';
+  if (format !== 'json' && format !== 'csv') {
+    return errorResponse(400, 'Invalid format', 'Must be: csv or json', rateLimit);
+  }
+
+  // Build conditions — always limited to the tenants the caller administers
+  const tf = tenantFilter(tenant, 1, 'a.tenant_id');
+  const conditions: string[] = [tf.clause];
+  const params: unknown[] = [...tf.params];
+  let paramIndex = tf.nextIdx - 1;
+
+  const action = searchParams.get('action');
+  if (action) {
+    paramIndex++;
+    if (action.endsWith('*')) {
+      conditions.push(`a.action LIKE $${paramIndex}`);
+      params.push(`${action.slice(0, -1).replace(/[\\%_]/g, '\\$&')}%`);
+    } else {
+      conditions.push(`a.action = $${paramIndex}`);
+      params.push(action);
+    }
+  }
+
+  const actor = searchParams.get('actor');
+  if (actor) {
+    paramIndex++;
+    if (UUID_RE.test(actor)) {
+      conditions.push(`a.actor_user_id = $${paramIndex}`);
+      params.push(actor);
+    } else {
+      conditions.push(`lower(a.actor_email) = $${paramIndex}`);
+      params.push(actor.toLowerCase());
+    }
+  }
+
+  for (const field of ['target_type', 'target_id', 'tenant_id']) {
+    const value = searchParams.get(field);
+    if (value) {
+      paramIndex++;
+      conditions.push(`a.${field} = $${paramIndex}`);
+      params.push(value);
+    }
+  }
+
+  for (const [field, op] of [['from', '>='], ['to', '<=']] as const) {
+    const value = searchParams.get(field);
+    if (value) {
+      if (isNaN(Date.parse(value))) {
+        return errorResponse(400, `Invalid ${field} date`, 'Use ISO 8601, e.g. 2024-01-31 or 2024-01-31T12:00:00Z', rateLimit);
+      }
+      paramIndex++;
+      conditions.push(`a.occurred_at ${op} $${paramIndex}`);
+      params.push(value);
+    }
+  }
+
+  const whereClause = `WHERE ${conditions.join(' AND ')}`;
+  const columns = `a.id, a.occurred_at, a.action, a.actor_user_id, a.actor_email, a.actor_method,
+                   a.tenant_id, a.target_type, a.target_id, a.changes, a.metadata,
+                   a.ip_address, a.user_agent`;
+
+  if (format === 'csv') {
+    const rows = await sql.unsafe(
+      `SELECT ${columns} FROM audit_log a ${whereClause}
+       ORDER BY a.occurred_at DESC, a.id DESC
+       LIMIT $${paramIndex + 1}`,
+      [...params, CSV_MAX_ROWS] as any[],
+    );
+    const body = rows.length > 0
+      ? toCSV(rows as unknown as Record<string, unknown>[])
+      : 'No audit entries found for the specified criteria.\n';
+    return csvResponse(body, 'audit_log.csv', rateLimit);
+  }
+
+  const { page, pageSize } = parsePagination(searchParams, env);
+  const offset = paginationOffset({ page, pageSize });
+
+  const countResult = await sql.unsafe(
+    `SELECT COUNT(*) AS total FROM audit_log a ${whereClause}`,
+    params as any[],
+  );
+  const total = parseInt(countResult[0].total);
+
+  const rows = await sql.unsafe(
+    `SELECT ${columns} FROM audit_log a ${whereClause}
+     ORDER BY a.occurred_at DESC, a.id DESC
+     LIMIT $${paramIndex + 1} OFFSET $${paramIndex + 2}`,
+    [...params, pageSize, offset] as any[],
+  );
+
+  return paginatedResponse(rows as unknown as Record<string, unknown>[], total, page, pageSize, rateLimit);
+}
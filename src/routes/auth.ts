@@ -2,29 +2,147 @@
  * Authentication route handlers.
  *
  * Public endpoints (no auth required):
- *   POST /auth/login           — Email + password → sends OTP, returns otp_token
- *   POST /auth/verify-otp      — OTP code + otp_token → returns JWT
+ *   POST /auth/login           — Email + password → sends OTP (or expects TOTP), returns otp_token
+ *   POST /auth/verify-otp      — OTP/TOTP code (or recovery code) + otp_token → returns JWT
  *   POST /auth/forgot-password  — Sends password reset OTP
  *   POST /auth/reset-password   — OTP + new password → resets password
+ *   POST /auth/refresh          — Rotate a refresh token → new access + refresh token
+ *   POST /auth/change-expired-password — change_token + new password → returns JWT
  *
  * Protected endpoints (JWT required):
  *   POST /auth/logout           — Invalidate current session
  *   GET  /auth/me               — Get current user profile
+ *   POST /auth/change-password  — Current password + fresh OTP → new password
+ *
+ * Impersonation tokens (routes/impersonation.ts) are minted here too, so
+ * every access token comes from one place.
+ *
+ * Sessions: login returns a short-lived access token (ACCESS_TOKEN_TTL_MINUTES)
+ * and a single-use refresh token. Each refresh rotates the refresh token and
+ * slides the session by SESSION_TTL_HOURS, up to SESSION_MAX_AGE_HOURS after
+ * login. Presenting an already-rotated refresh token revokes the session.
+ *
+ * Passwords are checked against the tenant's password policy whenever they
+ * are set (src/utils/password-policy.ts). A password older than the
+ * policy's max_age_days must be replaced after the second factor, before a
+ * session is issued.
+ *
+ * Successful and failed sign-ins are written to the audit log.
  */
 
 import type postgres from 'postgres';
 import type { Env, TenantInfo } from '../types';
 import { jsonResponse, errorResponse } from '../utils/response';
 import {
-  generateSalt,
   hashPassword,
   verifyPassword,
+  needsRehash,
   generateOTP,
   hashOTP,
   hashTokenId,
+  normalizeRecoveryCode,
+  generateRefreshToken,
 } from '../utils/crypto';
-import { createJWT, verifyJWT } from '../utils/jwt';
-import { sendOTPEmail } from '../utils/email';
+import { createJWT, verifyJWT, loadJWTKeys } from '../utils/jwt';
+import { sendOTPEmail, sendNotificationEmail } from '../utils/email';
+import { verifyTOTP } from '../utils/totp';
+import { checkLoginAnomaly } from '../utils/login-anomaly';
+import { isTenantDisabled } from '../utils/tenant-attributes';
+import { getUserPreferences, wantsNotification } from '../utils/preferences';
+import { loadUserGrants, userScopeClaims } from '../utils/user-grants';
+import { resolvePermissions } from '../permissions';
+import { recordAudit, clientIp, clientUserAgent } from '../utils/audit';
+import {
+  getPasswordPolicy,
+  isPasswordExpired,
+  checkNewPassword,
+  setUserPassword,
+} from '../utils/password-policy';
+
+/** Shape of the `otp_pending:<token>` KV entry created by handleLogin. */
+interface PendingLogin {
+  user_id: string;
+  email: string;
+  /** Second factor the user must present (absent on entries from older deploys) */
+  mfa_method?: 'email' | 'totp';
+  /** Failed TOTP / recovery-code attempts (email OTP attempts are tracked in auth_otp) */
+  attempts?: number;
+  /** The password has outlived the tenant policy's max_age_days */
+  password_expired?: boolean;
+}
+
+/** Shape of the `password_change:<token>` KV entry created by handleVerifyOTP. */
+interface PendingPasswordChange {
+  user_id: string;
+  email: string;
+  method: LoginMethod;
+}
+
+/** Lifetime of the otp_pending KV entry, in seconds. */
+const OTP_PENDING_TTL_SECONDS = 600;
+
+/** Maximum wrong TOTP or recovery codes per pending login. */
+const TOTP_MAX_ATTEMPTS = 5;
+
+/**
+ * How long wrong step-up TOTP codes are remembered (the `stepup_attempts:
+ * <user_id>` KV counter); TOTP_MAX_ATTEMPTS of them block step-up for this long.
+ */
+const STEP_UP_LOCK_SECONDS = 15 * 60;
+
+/** How a user proved their identity, as recorded in the audit log. */
+export type LoginMethod = 'email_otp' | 'totp' | 'recovery_code' | 'passkey' | 'oidc';
+
+/**
+ * Audit a rejected sign-in attempt. `user` is whatever is known about the
+ * account; the tenant is looked up when only the user id is.
+ */
+export async function recordLoginFailure(
+  request: Request,
+  sql: postgres.Sql,
+  reason: string,
+  user: { id?: string; email?: string; tenant_id?: string },
+  metadata: Record<string, unknown> = {},
+): Promise<void> {
+  let tenantId = user.tenant_id ?? null;
+  if (!tenantId && user.id) {
+    const rows = await sql`SELECT tenant_id FROM auth_users WHERE id = ${user.id}`;
+    tenantId = rows[0]?.tenant_id ?? null;
+  }
+
+  await recordAudit(sql, request, {
+    action: 'auth.login_failed',
+    actor: { user_id: user.id, email: user.email },
+    tenant_id: tenantId,
+    target_type: 'user',
+    target_id: user.id ?? null,
+    metadata: { reason, ...metadata },
+  });
+}
+
+/**
+ * Count a wrong password against the account, locking it for 15 minutes
+ * after 5 in a row.
+ */
+export async function registerFailedPassword(
+  sql: postgres.Sql,
+  userId: string,
+  previousFailures: number | null,
+): Promise<{ failed_logins: number; locked: boolean }> {
+  const newCount = (previousFailures || 0) + 1;
+  const lockUntil =
+    newCount >= 5
+      ? new Date(Date.now() + 15 * 60 * 1000).toISOString()
+      : null;
+  await sql`
+    UPDATE auth_users
+    SET failed_logins = ${newCount},
+        locked_until = ${lockUntil},
+        updated_at = now()
+    WHERE id = ${userId}
+  `;
+  return { failed_logins: newCount, locked: lockUntil !== null };
+}
 
 /* ================================================================
  * POST /auth/login
@@ -50,14 +168,16 @@ export async function handleLogin(
   // 1. Look up user (case-insensitive)
   const users = await sql`
     SELECT id, email, password_hash, salt, display_name, role,
-           tenant_id, customer_name, is_active, failed_logins, locked_until
+           tenant_id, customer_name, is_active, failed_logins, locked_until,
+           mfa_method, totp_secret, password_changed_at
     FROM auth_users
     WHERE email_lower = ${email.toLowerCase()}
   `;
 
   if (users.length === 0) {
     // Timing-safe: do a dummy hash to prevent user-enumeration via timing
-    await hashPassword('dummy-password', generateSalt());
+    await hashPassword('dummy-password');
+    await recordLoginFailure(request, sql, 'unknown_email', { email });
     return errorResponse(401, 'Invalid email or password');
   }
 
@@ -68,6 +188,7 @@ export async function handleLogin(
     const minutesLeft = Math.ceil(
       (new Date(user.locked_until).getTime() - Date.now()) / 60_000,
     );
+    await recordLoginFailure(request, sql, 'locked', user);
     return errorResponse(
       423,
       'Account temporarily locked',
@@ -77,24 +198,15 @@ export async function handleLogin(
 
   // 3. Check active
   if (!user.is_active) {
+    await recordLoginFailure(request, sql, 'disabled', user);
     return errorResponse(403, 'Account disabled', 'Contact your administrator.');
   }
 
   // 4. Verify password
   const valid = await verifyPassword(password, user.password_hash, user.salt);
   if (!valid) {
-    const newCount = (user.failed_logins || 0) + 1;
-    const lockUntil =
-      newCount >= 5
-        ? new Date(Date.now() + 15 * 60 * 1000).toISOString()
-        : null;
-    await sql`
-      UPDATE auth_users
-      SET failed_logins = ${newCount},
-          locked_until = ${lockUntil},
-          updated_at = now()
-      WHERE id = ${user.id}
-    `;
+    const failed = await registerFailedPassword(sql, user.id, user.failed_logins);
+    await recordLoginFailure(request, sql, 'bad_password', user, failed);
     return errorResponse(401, 'Invalid email or password');
   }
 
@@ -107,7 +219,44 @@ export async function handleLogin(
     `;
   }
 
-  // 6. Generate OTP
+  // Upgrade hashes written with older parameters while we have the plaintext
+  if (needsRehash(user.password_hash)) {
+    await sql`
+      UPDATE auth_users
+      SET password_hash = ${await hashPassword(password)}, salt = NULL, updated_at = now()
+      WHERE id = ${user.id} AND password_hash = ${user.password_hash}
+    `;
+  }
+
+  // 6. Note an expired password; it is replaced once the second factor passes
+  const passwordExpired = isPasswordExpired(
+    await getPasswordPolicy(sql, user.tenant_id),
+    user.password_changed_at,
+  );
+
+  // 7. Authenticator-app users skip the email round-trip entirely
+  if (user.mfa_method === 'totp' && user.totp_secret) {
+    const otpToken = crypto.randomUUID();
+    const pending: PendingLogin = {
+      user_id: user.id,
+      email: user.email,
+      mfa_method: 'totp',
+      attempts: 0,
+      password_expired: passwordExpired,
+    };
+    await env.TENANT_KV.put(`otp_pending:${otpToken}`, JSON.stringify(pending), {
+      expirationTtl: OTP_PENDING_TTL_SECONDS,
+    });
+
+    return jsonResponse({
+      status: 'otp_required',
+      mfa_method: 'totp',
+      otp_token: otpToken,
+      expires_in: OTP_PENDING_TTL_SECONDS,
+    });
+  }
+
+  // 8. Generate OTP
   const otpCode = generateOTP();
   const otpHash = await hashOTP(otpCode);
   const otpMinutes = parseInt(env.OTP_TTL_MINUTES || '5');
@@ -118,7 +267,7 @@ export async function handleLogin(
     VALUES (${user.id}, ${otpHash}, 'login_2fa', ${otpExpiry.toISOString()})
   `;
 
-  // 7. Send OTP email via Resend
+  // 9. Send OTP email via Brevo
   try {
     await sendOTPEmail({
       to: user.email,
@@ -137,15 +286,19 @@ export async function handleLogin(
     );
   }
 
-  // 8. Create OTP pending token in KV (10-minute TTL)
+  // 10. Create OTP pending token in KV (10-minute TTL)
   const otpToken = crypto.randomUUID();
-  await env.TENANT_KV.put(
-    `otp_pending:${otpToken}`,
-    JSON.stringify({ user_id: user.id, email: user.email }),
-    { expirationTtl: 600 },
-  );
+  const pending: PendingLogin = {
+    user_id: user.id,
+    email: user.email,
+    mfa_method: 'email',
+    password_expired: passwordExpired,
+  };
+  await env.TENANT_KV.put(`otp_pending:${otpToken}`, JSON.stringify(pending), {
+    expirationTtl: OTP_PENDING_TTL_SECONDS,
+  });
 
-  // 9. Mask email for display
+  // 11. Mask email for display
   const [localPart, domain] = user.email.split('@');
   const masked =
     localPart.length <= 2
@@ -154,6 +307,7 @@ export async function handleLogin(
 
   return jsonResponse({
     status: 'otp_required',
+    mfa_method: 'email',
     otp_token: otpToken,
     email_hint: masked,
     expires_in: otpMinutes * 60,
@@ -169,122 +323,284 @@ export async function handleVerifyOTP(
   sql: postgres.Sql,
   env: Env,
 ): Promise<Response> {
-  let body: { otp_token?: string; code?: string };
+  let body: { otp_token?: string; code?: string; recovery_code?: string };
   try {
     body = await request.json();
   } catch {
     return errorResponse(400, 'Invalid JSON body');
   }
 
-  const { otp_token, code } = body;
-  if (!otp_token || !code) {
-    return errorResponse(400, 'otp_token and code are required');
+  const { otp_token, code, recovery_code } = body;
+  if (!otp_token || (!code && !recovery_code)) {
+    return errorResponse(400, 'otp_token and code (or recovery_code) are required');
+  }
+  if (
+    (code !== undefined && typeof code !== 'string') ||
+    (recovery_code !== undefined && typeof recovery_code !== 'string')
+  ) {
+    return errorResponse(400, 'code and recovery_code must be strings');
   }
 
   // 1. Look up OTP pending session from KV
-  const pending = (await env.TENANT_KV.get(`otp_pending:${otp_token}`, 'json')) as {
-    user_id: string;
-    email: string;
-  } | null;
+  const pending = (await env.TENANT_KV.get(`otp_pending:${otp_token}`, 'json')) as PendingLogin | null;
   if (!pending) {
     return errorResponse(401, 'Invalid or expired verification session');
   }
 
-  // 2. Find latest unused OTP for this user
-  const otps = await sql`
-    SELECT id, code_hash, attempts, max_attempts, expires_at
-    FROM auth_otp
-    WHERE user_id = ${pending.user_id}
-      AND purpose = 'login_2fa'
-      AND used_at IS NULL
-      AND expires_at > now()
-    ORDER BY created_at DESC
-    LIMIT 1
-  `;
+  // 2. Verify the second factor according to the user's chosen method.
+  //    A recovery code stands in for either factor.
+  const method: LoginMethod = recovery_code
+    ? 'recovery_code'
+    : pending.mfa_method === 'totp' ? 'totp' : 'email_otp';
+  const failure = recovery_code
+    ? await verifyRecoveryCode(otp_token, pending, recovery_code, request, sql, env)
+    : pending.mfa_method === 'totp'
+      ? await verifyTotpFactor(otp_token, pending, code!, sql, env)
+      : await verifyEmailFactor(otp_token, pending, code!, sql, env);
+  if (failure) {
+    await recordLoginFailure(
+      request,
+      sql,
+      failure.status === 429 ? 'too_many_attempts' : 'invalid_code',
+      { id: pending.user_id, email: pending.email },
+      { method },
+    );
+    return failure;
+  }
 
-  if (otps.length === 0) {
-    return errorResponse(401, 'Verification code expired. Please log in again.');
+  await env.TENANT_KV.delete(`otp_pending:${otp_token}`);
+
+  // 3. An expired password must be replaced before a session is issued
+  if (pending.password_expired) {
+    const changeToken = crypto.randomUUID();
+    const change: PendingPasswordChange = { user_id: pending.user_id, email: pending.email, method };
+    await env.TENANT_KV.put(`password_change:${changeToken}`, JSON.stringify(change), {
+      expirationTtl: OTP_PENDING_TTL_SECONDS,
+    });
+
+    return jsonResponse({
+      status: 'password_change_required',
+      reason: 'expired',
+      change_token: changeToken,
+      expires_in: OTP_PENDING_TTL_SECONDS,
+    });
   }
 
-  const otp = otps[0];
+  // 4. Second factor passed — issue the session
+  return issueSession(request, sql, env, pending.user_id, method);
+}
 
-  // 3. Check attempt limit
-  if (otp.attempts >= otp.max_attempts) {
-    await env.TENANT_KV.delete(`otp_pending:${otp_token}`);
-    return errorResponse(429, 'Too many attempts. Please log in again.');
+/* ================================================================
+ * POST /auth/change-expired-password
+ * ================================================================ */
+
+export async function handleChangeExpiredPassword(
+  request: Request,
+  sql: postgres.Sql,
+  env: Env,
+): Promise<Response> {
+  let body: { change_token?: string; new_password?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(400, 'Invalid JSON body');
   }
 
-  // 4. Verify code
-  const codeHash = await hashOTP(code);
-  if (codeHash !== otp.code_hash) {
-    await sql`UPDATE auth_otp SET attempts = attempts + 1 WHERE id = ${otp.id}`;
-    const remaining = otp.max_attempts - otp.attempts - 1;
-    return errorResponse(
-      401,
-      'Invalid verification code',
-      `${remaining} attempt${remaining !== 1 ? 's' : ''} remaining.`,
-    );
+  const { change_token, new_password } = body;
+  if (!change_token || !new_password) {
+    return errorResponse(400, 'change_token and new_password are required');
   }
 
-  // 5. Mark OTP as used
-  await sql`UPDATE auth_otp SET used_at = now() WHERE id = ${otp.id}`;
-  await env.TENANT_KV.delete(`otp_pending:${otp_token}`);
+  // 1. Both factors were already verified by /auth/verify-otp
+  const pending = (await env.TENANT_KV.get(`password_change:${change_token}`, 'json')) as PendingPasswordChange | null;
+  if (!pending) {
+    return errorResponse(401, 'Invalid or expired password change session');
+  }
 
-  // 6. Fetch user info from auth_users only (no RLS on auth tables).
-  //    We do NOT join rpt_tenants here because it has RLS enabled and
-  //    no tenant context is set during public auth routes. The tenant_name
-  //    is resolved later via /auth/me (which runs with RLS context).
-  const users = await sql`
-    SELECT id, email, display_name, role, tenant_id, customer_name
-    FROM auth_users
-    WHERE id = ${pending.user_id}
-  `;
+  // 2. The new password must satisfy the tenant policy (including history)
+  const rejected = await checkNewPassword(sql, pending.user_id, new_password);
+  if (rejected) return rejected;
 
-  if (users.length === 0) {
-    return errorResponse(500, 'User record not found');
+  await env.TENANT_KV.delete(`password_change:${change_token}`);
+  await setUserPassword(sql, pending.user_id, new_password);
+
+  // 3. Sessions started with the old password end
+  const sessions = await sql`
+    SELECT id, token_hash FROM auth_sessions WHERE user_id = ${pending.user_id}
+  `;
+  for (const session of sessions) {
+    await revokeSession(sql, env, session.id, session.token_hash);
   }
 
-  const user = users[0];
+  const users = await sql`SELECT tenant_id FROM auth_users WHERE id = ${pending.user_id}`;
+  await recordAudit(sql, request, {
+    action: 'auth.password_change',
+    actor: { user_id: pending.user_id, email: pending.email },
+    tenant_id: users[0]?.tenant_id ?? null,
+    target_type: 'user',
+    target_id: pending.user_id,
+    metadata: { reason: 'expired', sessions_revoked: sessions.length },
+  });
+
+  // 4. Continue the login that was interrupted
+  return issueSession(request, sql, env, pending.user_id, pending.method);
+}
 
-  // 7. Create JWT (tenant_name uses tenant_id; full name resolved via /auth/me)
-  const ttlHours = parseInt(env.SESSION_TTL_HOURS || '24');
-  const { token, jti, expiresAt } = await createJWT(
+/** Session lifetimes from config, in seconds. */
+function sessionLifetimes(env: Env): { access: number; idle: number; maxAge: number } {
+  return {
+    access: parseInt(env.ACCESS_TOKEN_TTL_MINUTES || '15') * 60,
+    idle: parseInt(env.SESSION_TTL_HOURS || '24') * 3600,
+    maxAge: parseInt(env.SESSION_MAX_AGE_HOURS || '168') * 3600,
+  };
+}
+
+/** Claims-relevant columns of an auth_users row. */
+export interface SessionUser {
+  id: string;
+  email: string;
+  role: 'admin' | 'tenant' | 'customer';
+  role_id: string | null;
+  tenant_id: string;
+  customer_id: string | null;
+  customer_name: string | null;
+}
+
+/** Mint a short-lived access token bound to session `sid`. */
+async function mintAccessToken(sql: postgres.Sql, user: SessionUser, sid: string, env: Env) {
+  // tenant_name uses tenant_id; full name resolved via /auth/me
+  return createJWT(
     {
       sub: user.id,
       email: user.email,
       role: user.role,
       tenant_id: user.tenant_id,
       tenant_name: user.tenant_id,
+      customer_id: user.customer_id || undefined,
       customer_name: user.customer_name || undefined,
+      ...(await userScopeClaims(sql, user)),
+      perms: await resolvePermissions(sql, user),
+      sid,
     },
-    env.JWT_SECRET,
-    ttlHours,
+    loadJWTKeys(env),
+    sessionLifetimes(env).access,
   );
+}
+
+/** Store a new refresh token for a session; returns the raw token and its row id. */
+async function createRefreshToken(
+  sql: postgres.Sql,
+  sessionId: string,
+  expiresAt: Date,
+): Promise<{ id: string; token: string }> {
+  const token = generateRefreshToken();
+  const rows = await sql`
+    INSERT INTO auth_refresh_tokens (session_id, token_hash, expires_at)
+    VALUES (${sessionId}, ${await hashTokenId(token)}, ${expiresAt.toISOString()})
+    RETURNING id
+  `;
+  return { id: rows[0].id, token };
+}
+
+/** Delete a session from KV and the DB (its refresh tokens cascade). */
+export async function revokeSession(
+  sql: postgres.Sql,
+  env: Env,
+  sessionId: string,
+  tokenHash: string,
+): Promise<void> {
+  await env.TENANT_KV.delete(`session:${tokenHash}`);
+  await sql`DELETE FROM auth_sessions WHERE id = ${sessionId}`;
+}
+
+/**
+ * Mint an access token + refresh token for a fully authenticated user and
+ * record the session in auth_sessions + KV. Shared by every login path
+ * (OTP, passkey, SSO) so they all produce identical sessions.
+ *
+ * The auth_sessions id doubles as the JWT `sid` claim, so every access
+ * token minted by /auth/refresh maps back to the same KV revocation key.
+ */
+export async function issueSession(
+  request: Request,
+  sql: postgres.Sql,
+  env: Env,
+  userId: string,
+  method: LoginMethod,
+): Promise<Response> {
+  // 1. Fetch user info from auth_users only (no RLS on auth tables).
+  //    We do NOT join rpt_tenants here because it has RLS enabled and
+  //    no tenant context is set during public auth routes. The tenant_name
+  //    is resolved later via /auth/me (which runs with RLS context).
+  const users = await sql`
+    SELECT id, email, display_name, role, role_id, tenant_id, customer_id, customer_name
+    FROM auth_users
+    WHERE id = ${userId}
+  `;
+
+  if (users.length === 0) {
+    return errorResponse(500, 'User record not found');
+  }
 
-  // 8. Store session in DB + KV
-  const tokenHash = await hashTokenId(jti);
+  const user = users[0];
+
+  if (await isTenantDisabled(sql, env, user.tenant_id)) {
+    await recordLoginFailure(request, sql, 'tenant_disabled', user, { method });
+    return errorResponse(403, 'Account disabled', 'Your organisation\'s access has been suspended. Contact your administrator.');
+  }
+
+  // 2. Work out the sliding and absolute expiry of the session
+  const lifetimes = sessionLifetimes(env);
+  const now = Date.now();
+  const absoluteExpiresAt = new Date(now + lifetimes.maxAge * 1000);
+  const expiresAt = new Date(Math.min(now + lifetimes.idle * 1000, absoluteExpiresAt.getTime()));
+
+  // 3. Store session in DB + KV
+  const sessionId = crypto.randomUUID();
+  const tokenHash = await hashTokenId(sessionId);
 
   await sql`
-    INSERT INTO auth_sessions (user_id, token_hash, expires_at, ip_address, user_agent)
+    INSERT INTO auth_sessions
+      (id, user_id, token_hash, expires_at, absolute_expires_at, last_activity_at, ip_address, user_agent)
     VALUES (
+      ${sessionId},
       ${user.id},
       ${tokenHash},
       ${expiresAt.toISOString()},
-      ${request.headers.get('CF-Connecting-IP') || request.headers.get('X-Forwarded-For') || 'unknown'},
-      ${(request.headers.get('User-Agent') || 'unknown').slice(0, 500)}
+      ${absoluteExpiresAt.toISOString()},
+      now(),
+      ${clientIp(request)},
+      ${clientUserAgent(request)}
     )
   `;
 
   await env.TENANT_KV.put(`session:${tokenHash}`, '1', {
-    expirationTtl: ttlHours * 3600,
+    expirationTtl: Math.max(60, Math.ceil((expiresAt.getTime() - now) / 1000)),
   });
 
-  // 9. Update last login
+  // 4. Mint the access + refresh tokens
+  const access = await mintAccessToken(sql, user as SessionUser, sessionId, env);
+  const refresh = await createRefreshToken(sql, sessionId, expiresAt);
+
+  // 5. Update last login
   await sql`UPDATE auth_users SET last_login_at = now() WHERE id = ${user.id}`;
 
+  await recordAudit(sql, request, {
+    action: 'auth.login',
+    actor: { user_id: user.id, email: user.email },
+    tenant_id: user.tenant_id,
+    target_type: 'session',
+    target_id: sessionId,
+    metadata: { method },
+  });
+
+  await checkLoginAnomaly(sql, request, env, user as SessionUser, method);
+
   return jsonResponse({
-    token,
-    expires_at: expiresAt.toISOString(),
+    token: access.token,
+    expires_at: access.expiresAt.toISOString(),
+    refresh_token: refresh.token,
+    refresh_expires_at: expiresAt.toISOString(),
     user: {
       id: user.id,
       email: user.email,
@@ -292,11 +608,350 @@ export async function handleVerifyOTP(
       role: user.role,
       tenant_id: user.tenant_id,
       tenant_name: user.tenant_id,
+      customer_id: user.customer_id || null,
       customer_name: user.customer_name || null,
     },
   });
 }
 
+/** Lifetime of an impersonation token. There is no refresh; start again. */
+const IMPERSONATION_TTL_SECONDS = 15 * 60;
+
+/**
+ * Mint an access token for `user` on behalf of the admin in `actor`. It
+ * carries an `act` claim naming the admin, has no refresh token, and its
+ * KV session entry points at the admin's own session, so signing the
+ * admin out ends it too (see authenticateJWT).
+ */
+export async function mintImpersonationToken(
+  sql: postgres.Sql,
+  env: Env,
+  user: SessionUser,
+  actor: TenantInfo,
+): Promise<{ token: string; expiresAt: Date; sid: string }> {
+  const sid = crypto.randomUUID();
+  await env.TENANT_KV.put(`session:${await hashTokenId(sid)}`, actor.session_hash!, {
+    expirationTtl: IMPERSONATION_TTL_SECONDS,
+  });
+
+  const { token, expiresAt } = await createJWT(
+    {
+      sub: user.id,
+      email: user.email,
+      role: user.role,
+      tenant_id: user.tenant_id,
+      tenant_name: user.tenant_id,
+      customer_id: user.customer_id || undefined,
+      customer_name: user.customer_name || undefined,
+      ...(await userScopeClaims(sql, user)),
+      perms: await resolvePermissions(sql, user),
+      sid,
+      act: { sub: actor.user_id!, email: actor.user_email! },
+    },
+    loadJWTKeys(env),
+    IMPERSONATION_TTL_SECONDS,
+  );
+  return { token, expiresAt, sid };
+}
+
+/* ================================================================
+ * POST /auth/refresh
+ * ================================================================ */
+
+export async function handleRefresh(
+  request: Request,
+  sql: postgres.Sql,
+  env: Env,
+): Promise<Response> {
+  let body: { refresh_token?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(400, 'Invalid JSON body');
+  }
+
+  if (!body.refresh_token) {
+    return errorResponse(400, 'refresh_token is required');
+  }
+
+  // 1. Look up the token with its session and user
+  const rows = await sql`
+    SELECT r.id, r.session_id, r.used_at, r.expires_at,
+           s.token_hash, s.absolute_expires_at,
+           u.id AS user_id, u.email, u.role, u.role_id, u.tenant_id, u.customer_id, u.customer_name,
+           u.is_active, u.locked_until
+    FROM auth_refresh_tokens r
+    JOIN auth_sessions s ON s.id = r.session_id
+    JOIN auth_users u ON u.id = s.user_id
+    WHERE r.token_hash = ${await hashTokenId(body.refresh_token)}
+  `;
+  if (rows.length === 0) {
+    return errorResponse(401, 'Invalid refresh token');
+  }
+  const rt = rows[0];
+
+  // 2. A token that was already rotated is being replayed — assume it was
+  //    stolen and revoke the whole session, legitimate holder included.
+  //    The conditional UPDATE also catches two concurrent refreshes.
+  const claimed = rt.used_at
+    ? []
+    : await sql`
+        UPDATE auth_refresh_tokens SET used_at = now()
+        WHERE id = ${rt.id} AND used_at IS NULL
+        RETURNING id
+      `;
+  if (claimed.length === 0) {
+    console.warn(`[AUTH] Refresh token reuse detected for session ${rt.session_id} (user ${rt.user_id})`);
+    await revokeSession(sql, env, rt.session_id, rt.token_hash);
+    await recordAudit(sql, request, {
+      action: 'session.refresh_reuse',
+      actor: { user_id: rt.user_id, email: rt.email },
+      tenant_id: rt.tenant_id,
+      target_type: 'session',
+      target_id: rt.session_id,
+    });
+    return errorResponse(401, 'Refresh token already used', 'This session has been revoked. Please sign in again.');
+  }
+
+  // 3. Session and account checks
+  const now = Date.now();
+  const absoluteExpiresAt = rt.absolute_expires_at ? new Date(rt.absolute_expires_at) : null;
+  if (new Date(rt.expires_at).getTime() <= now || (absoluteExpiresAt && absoluteExpiresAt.getTime() <= now)) {
+    await revokeSession(sql, env, rt.session_id, rt.token_hash);
+    return errorResponse(401, 'Session expired', 'Please sign in again.');
+  }
+  if (
+    !rt.is_active ||
+    (rt.locked_until && new Date(rt.locked_until) > new Date()) ||
+    (await isTenantDisabled(sql, env, rt.tenant_id))
+  ) {
+    await revokeSession(sql, env, rt.session_id, rt.token_hash);
+    return errorResponse(403, 'Account disabled', 'Contact your administrator.');
+  }
+
+  // 4. Slide the session forward, never past its absolute expiry
+  const idleExpiry = now + sessionLifetimes(env).idle * 1000;
+  const expiresAt = new Date(absoluteExpiresAt ? Math.min(idleExpiry, absoluteExpiresAt.getTime()) : idleExpiry);
+
+  await sql`
+    UPDATE auth_sessions
+    SET expires_at = ${expiresAt.toISOString()}, last_activity_at = now()
+    WHERE id = ${rt.session_id}
+  `;
+  await env.TENANT_KV.put(`session:${rt.token_hash}`, '1', {
+    expirationTtl: Math.max(60, Math.ceil((expiresAt.getTime() - now) / 1000)),
+  });
+
+  // 5. Rotate: new refresh token, chained from the one just used
+  const refresh = await createRefreshToken(sql, rt.session_id, expiresAt);
+  await sql`UPDATE auth_refresh_tokens SET replaced_by = ${refresh.id} WHERE id = ${rt.id}`;
+
+  const access = await mintAccessToken(
+    sql,
+    {
+      id: rt.user_id,
+      email: rt.email,
+      role: rt.role,
+      role_id: rt.role_id,
+      tenant_id: rt.tenant_id,
+      customer_id: rt.customer_id,
+      customer_name: rt.customer_name,
+    },
+    rt.session_id,
+    env,
+  );
+
+  return jsonResponse({
+    token: access.token,
+    expires_at: access.expiresAt.toISOString(),
+    refresh_token: refresh.token,
+    refresh_expires_at: expiresAt.toISOString(),
+  });
+}
+
+/**
+ * Check an emailed login code against the latest unused auth_otp row.
+ * Returns an error response on failure, or null once the OTP is consumed.
+ */
+async function verifyEmailFactor(
+  otpToken: string,
+  pending: PendingLogin,
+  code: string,
+  sql: postgres.Sql,
+  env: Env,
+): Promise<Response | null> {
+  // Find latest unused OTP for this user
+  const otps = await sql`
+    SELECT id, code_hash, attempts, max_attempts, expires_at
+    FROM auth_otp
+    WHERE user_id = ${pending.user_id}
+      AND purpose = 'login_2fa'
+      AND used_at IS NULL
+      AND expires_at > now()
+    ORDER BY created_at DESC
+    LIMIT 1
+  `;
+
+  if (otps.length === 0) {
+    return errorResponse(401, 'Verification code expired. Please log in again.');
+  }
+
+  const otp = otps[0];
+
+  // Check attempt limit
+  if (otp.attempts >= otp.max_attempts) {
+    await env.TENANT_KV.delete(`otp_pending:${otpToken}`);
+    return errorResponse(429, 'Too many attempts. Please log in again.');
+  }
+
+  // Verify code
+  const codeHash = await hashOTP(code);
+  if (codeHash !== otp.code_hash) {
+    await sql`UPDATE auth_otp SET attempts = attempts + 1 WHERE id = ${otp.id}`;
+    const remaining = otp.max_attempts - otp.attempts - 1;
+    return errorResponse(
+      401,
+      'Invalid verification code',
+      `${remaining} attempt${remaining !== 1 ? 's' : ''} remaining.`,
+    );
+  }
+
+  // Mark OTP as used
+  await sql`UPDATE auth_otp SET used_at = now() WHERE id = ${otp.id}`;
+  return null;
+}
+
+/**
+ * Check an authenticator-app code against the user's enrolled TOTP secret.
+ * Attempts are counted on the KV pending entry since no auth_otp row exists.
+ * Returns an error response on failure, or null once the code is accepted.
+ */
+async function verifyTotpFactor(
+  otpToken: string,
+  pending: PendingLogin,
+  code: string,
+  sql: postgres.Sql,
+  env: Env,
+): Promise<Response | null> {
+  const attempts = pending.attempts || 0;
+  if (attempts >= TOTP_MAX_ATTEMPTS) {
+    await env.TENANT_KV.delete(`otp_pending:${otpToken}`);
+    return errorResponse(429, 'Too many attempts. Please log in again.');
+  }
+
+  const users = await sql`
+    SELECT totp_secret, totp_last_step FROM auth_users WHERE id = ${pending.user_id}
+  `;
+  if (users.length === 0 || !users[0].totp_secret) {
+    // Enrolment was reset between login and verification
+    await env.TENANT_KV.delete(`otp_pending:${otpToken}`);
+    return errorResponse(401, 'Authenticator app no longer enrolled. Please log in again.');
+  }
+
+  const lastStep = users[0].totp_last_step === null ? null : Number(users[0].totp_last_step);
+  const step = await verifyTOTP(users[0].totp_secret, code, lastStep);
+  if (step === null) {
+    await env.TENANT_KV.put(
+      `otp_pending:${otpToken}`,
+      JSON.stringify({ ...pending, attempts: attempts + 1 }),
+      { expirationTtl: OTP_PENDING_TTL_SECONDS },
+    );
+    const remaining = TOTP_MAX_ATTEMPTS - attempts - 1;
+    return errorResponse(
+      401,
+      'Invalid verification code',
+      `${remaining} attempt${remaining !== 1 ? 's' : ''} remaining.`,
+    );
+  }
+
+  // Remember the step so the same code cannot be replayed
+  await sql`UPDATE auth_users SET totp_last_step = ${step} WHERE id = ${pending.user_id}`;
+  return null;
+}
+
+/**
+ * Consume a single-use recovery code in place of the second factor.
+ * Each use is recorded in auth_otp and the user is notified by email.
+ * Returns an error response on failure, or null once the code is consumed.
+ */
+async function verifyRecoveryCode(
+  otpToken: string,
+  pending: PendingLogin,
+  recoveryCode: string,
+  request: Request,
+  sql: postgres.Sql,
+  env: Env,
+): Promise<Response | null> {
+  const attempts = pending.attempts || 0;
+  if (attempts >= TOTP_MAX_ATTEMPTS) {
+    await env.TENANT_KV.delete(`otp_pending:${otpToken}`);
+    return errorResponse(429, 'Too many attempts. Please log in again.');
+  }
+
+  const codeHash = await hashOTP(normalizeRecoveryCode(recoveryCode));
+
+  // Atomically claim the code so concurrent requests cannot both use it
+  const claimed = await sql`
+    UPDATE auth_recovery_codes
+    SET used_at = now()
+    WHERE user_id = ${pending.user_id}
+      AND code_hash = ${codeHash}
+      AND used_at IS NULL
+    RETURNING id
+  `;
+
+  if (claimed.length === 0) {
+    await env.TENANT_KV.put(
+      `otp_pending:${otpToken}`,
+      JSON.stringify({ ...pending, attempts: attempts + 1 }),
+      { expirationTtl: OTP_PENDING_TTL_SECONDS },
+    );
+    const remaining = TOTP_MAX_ATTEMPTS - attempts - 1;
+    return errorResponse(
+      401,
+      'Invalid recovery code',
+      `${remaining} attempt${remaining !== 1 ? 's' : ''} remaining.`,
+    );
+  }
+
+  // Audit row: the code is already consumed, so it is inserted as used
+  await sql`
+    INSERT INTO auth_otp (user_id, code_hash, purpose, expires_at, used_at)
+    VALUES (${pending.user_id}, ${codeHash}, 'recovery_code', now(), now())
+  `;
+
+  const rows = await sql`
+    SELECT u.display_name,
+           (SELECT COUNT(*) FROM auth_recovery_codes r
+             WHERE r.user_id = u.id AND r.used_at IS NULL) AS remaining
+    FROM auth_users u
+    WHERE u.id = ${pending.user_id}
+  `;
+  const remaining = rows.length > 0 ? parseInt(rows[0].remaining) : 0;
+  const ip = request.headers.get('CF-Connecting-IP') || 'an unknown IP address';
+
+  if (await wantsNotification(sql, pending.user_id, 'recovery_code_used')) {
+    try {
+      await sendNotificationEmail({
+        to: pending.email,
+        name: rows[0]?.display_name || pending.email,
+        subject: 'A recovery code was used to sign in to S-IMSY Reporting',
+        paragraphs: [
+          `A recovery code was just used to sign in to your account from ${ip}.`,
+          `You have ${remaining} unused recovery code${remaining !== 1 ? 's' : ''} left. You can generate a new set from your account settings.`,
+        ],
+        apiKey: env.BREVO_API_KEY,
+        fromEmail: env.OTP_FROM_EMAIL || 'noreply@simsy.co.uk',
+      });
+    } catch (err) {
+      // The login itself already succeeded — don't block it on the notification
+      console.error('[AUTH] Failed to send recovery code notification:', err);
+    }
+  }
+
+  return null;
+}
+
 /* ================================================================
  * POST /auth/logout
  * ================================================================ */
@@ -316,12 +971,12 @@ export async function handleLogout(
   const token = authHeader?.slice(7);
   if (!token) return errorResponse(400, 'Missing token');
 
-  const payload = await verifyJWT(token, env.JWT_SECRET);
+  const payload = await verifyJWT(token, loadJWTKeys(env));
   if (payload) {
-    const tokenHash = await hashTokenId(payload.jti);
+    const tokenHash = await hashTokenId(payload.sid || payload.jti);
     // Remove from KV (instant invalidation)
     await env.TENANT_KV.delete(`session:${tokenHash}`);
-    // Remove from DB
+    // Remove from DB (refresh tokens cascade)
     await sql`DELETE FROM auth_sessions WHERE token_hash = ${tokenHash}`;
   }
 
@@ -341,8 +996,9 @@ export async function handleMe(
   }
 
   const users = await sql`
-    SELECT u.id, u.email, u.display_name, u.role, u.tenant_id, u.customer_name,
-           u.last_login_at, u.created_at, t.tenant_name
+    SELECT u.id, u.email, u.display_name, u.role, u.tenant_id, u.customer_id, u.customer_name,
+           u.mfa_method, u.last_login_at, u.created_at, t.tenant_name,
+           t.tenant_kind, t.branding, t.default_currency
     FROM auth_users u
     JOIN rpt_tenants t ON t.tenant_id = u.tenant_id
     WHERE u.id = ${tenant.user_id}
@@ -353,6 +1009,7 @@ export async function handleMe(
   }
 
   const user = users[0];
+  const grants = await loadUserGrants(sql, user.id);
   return jsonResponse({
     id: user.id,
     email: user.email,
@@ -360,9 +1017,248 @@ export async function handleMe(
     role: user.role,
     tenant_id: user.tenant_id,
     tenant_name: user.tenant_name,
+    tenant_kind: user.tenant_kind,
+    branding: user.branding || {},
+    default_currency: user.default_currency || null,
+    customer_id: user.customer_id || null,
     customer_name: user.customer_name || null,
+    granted_customer_ids: grants.customer_ids,
+    granted_tenant_ids: grants.tenant_ids,
+    mfa_method: user.mfa_method,
+    permissions: tenant.permissions,
     last_login_at: user.last_login_at,
     created_at: user.created_at,
+    preferences: await getUserPreferences(sql, user.id),
+    impersonated_by: tenant.impersonator || null,
+  });
+}
+
+/** The auth_users columns verifyStepUpCode needs. */
+export interface StepUpUser {
+  id: string;
+  email: string;
+  display_name: string;
+  mfa_method: string | null;
+  totp_secret: string | null;
+  totp_last_step: string | number | null;
+}
+
+/**
+ * Second-factor check for sensitive self-service actions. Without a
+ * `code` it emails a fresh one (TOTP users use their app instead) and
+ * returns the `otp_required` response; with one it verifies it. Returns
+ * null once the code is accepted. Emailed codes allow max_attempts
+ * guesses each; TOTP codes allow TOTP_MAX_ATTEMPTS per user, across
+ * purposes, within STEP_UP_LOCK_SECONDS.
+ */
+export async function verifyStepUpCode(
+  sql: postgres.Sql,
+  env: Env,
+  user: StepUpUser,
+  purpose: 'password_change' | 'account_erasure' | 'notification_optout',
+  code: string | undefined,
+): Promise<Response | null> {
+  const usesTotp = user.mfa_method === 'totp' && !!user.totp_secret;
+
+  // First call: send a fresh code
+  if (!code) {
+    if (usesTotp) {
+      return jsonResponse({ status: 'otp_required', mfa_method: 'totp' });
+    }
+
+    const otpCode = generateOTP();
+    const otpMinutes = parseInt(env.OTP_TTL_MINUTES || '5');
+    await sql`
+      INSERT INTO auth_otp (user_id, code_hash, purpose, expires_at)
+      VALUES (${user.id}, ${await hashOTP(otpCode)}, ${purpose},
+              ${new Date(Date.now() + otpMinutes * 60_000).toISOString()})
+    `;
+
+    try {
+      await sendOTPEmail({
+        to: user.email,
+        name: user.display_name,
+        code: otpCode,
+        purpose,
+        apiKey: env.BREVO_API_KEY,
+        fromEmail: env.OTP_FROM_EMAIL || 'noreply@simsy.co.uk',
+      });
+    } catch (err) {
+      console.error(`[AUTH] Failed to send ${purpose} OTP:`, err);
+      return errorResponse(503, 'Failed to send verification email', 'Please try again in a moment.');
+    }
+
+    return jsonResponse({ status: 'otp_required', mfa_method: 'email', expires_in: otpMinutes * 60 });
+  }
+
+  // Second call: verify the code
+  if (usesTotp) {
+    const attemptsKey = `stepup_attempts:${user.id}`;
+    const attempts = parseInt((await env.TENANT_KV.get(attemptsKey)) || '0');
+    if (attempts >= TOTP_MAX_ATTEMPTS) {
+      return errorResponse(429, 'Too many attempts', 'Please try again in 15 minutes.');
+    }
+
+    const lastStep = user.totp_last_step === null ? null : Number(user.totp_last_step);
+    const step = await verifyTOTP(user.totp_secret!, code, lastStep);
+    if (step === null) {
+      await env.TENANT_KV.put(attemptsKey, String(attempts + 1), { expirationTtl: STEP_UP_LOCK_SECONDS });
+      const remaining = TOTP_MAX_ATTEMPTS - attempts - 1;
+      return errorResponse(
+        401,
+        'Invalid verification code',
+        `${remaining} attempt${remaining !== 1 ? 's' : ''} remaining.`,
+      );
+    }
+    await sql`UPDATE auth_users SET totp_last_step = ${step} WHERE id = ${user.id}`;
+    if (attempts > 0) await env.TENANT_KV.delete(attemptsKey);
+    return null;
+  }
+
+  const otps = await sql`
+    SELECT id, code_hash, attempts, max_attempts
+    FROM auth_otp
+    WHERE user_id = ${user.id}
+      AND purpose = ${purpose}
+      AND used_at IS NULL
+      AND expires_at > now()
+    ORDER BY created_at DESC
+    LIMIT 1
+  `;
+  if (otps.length === 0) {
+    return errorResponse(401, 'Verification code expired. Please request a new one.');
+  }
+  const otp = otps[0];
+  if (otp.attempts >= otp.max_attempts) {
+    return errorResponse(429, 'Too many attempts. Please request a new code.');
+  }
+  if ((await hashOTP(code)) !== otp.code_hash) {
+    await sql`UPDATE auth_otp SET attempts = attempts + 1 WHERE id = ${otp.id}`;
+    return errorResponse(401, 'Invalid verification code');
+  }
+  await sql`UPDATE auth_otp SET used_at = now() WHERE id = ${otp.id}`;
+  return null;
+}
+
+/* ================================================================
+ * POST /auth/change-password
+ *
+ * Two calls: the first (current_password + new_password) checks both and
+ * emails a one-time code — authenticator-app users use their app instead.
+ * The second repeats them with `code` and makes the change, signing out
+ * every other session.
+ * ================================================================ */
+
+export async function handleChangePassword(
+  request: Request,
+  sql: postgres.Sql,
+  env: Env,
+  tenant: TenantInfo,
+): Promise<Response> {
+  if (tenant.auth_method !== 'jwt' || !tenant.user_id) {
+    return errorResponse(400, 'Password changes are only available for JWT sessions');
+  }
+
+  let body: { current_password?: string; new_password?: string; code?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(400, 'Invalid JSON body');
+  }
+
+  const { current_password, new_password, code } = body;
+  if (!current_password || !new_password) {
+    return errorResponse(400, 'current_password and new_password are required');
+  }
+  if (code !== undefined && typeof code !== 'string') {
+    return errorResponse(400, 'code must be a string');
+  }
+
+  // 1. Load the account
+  const users = await sql`
+    SELECT id, email, display_name, tenant_id, password_hash, salt, failed_logins, locked_until,
+           mfa_method, totp_secret, totp_last_step
+    FROM auth_users
+    WHERE id = ${tenant.user_id}
+  `;
+  if (users.length === 0) {
+    return errorResponse(404, 'User not found');
+  }
+  const user = users[0];
+
+  if (!user.password_hash) {
+    return errorResponse(400, 'No password is set for this account', 'Accounts that sign in with single sign-on have no password to change.');
+  }
+  if (user.locked_until && new Date(user.locked_until) > new Date()) {
+    return errorResponse(423, 'Account temporarily locked');
+  }
+
+  // 2. Re-check the current password (wrong guesses count towards lockout)
+  if (!(await verifyPassword(current_password, user.password_hash, user.salt))) {
+    const failed = await registerFailedPassword(sql, user.id, user.failed_logins);
+    await recordAudit(sql, request, {
+      action: 'auth.password_change_failed',
+      tenant,
+      target_type: 'user',
+      target_id: user.id,
+      metadata: { reason: 'bad_password', ...failed },
+    });
+    return errorResponse(401, 'Current password is incorrect');
+  }
+  if (user.failed_logins > 0) {
+    await sql`UPDATE auth_users SET failed_logins = 0, updated_at = now() WHERE id = ${user.id}`;
+  }
+
+  // 3. The new password must satisfy the policy before any code is sent
+  const rejected = await checkNewPassword(sql, user.id, new_password);
+  if (rejected) return rejected;
+
+  // 4. First call sends a code, second call checks it
+  const challenge = await verifyStepUpCode(sql, env, user as StepUpUser, 'password_change', code);
+  if (challenge) return challenge;
+
+  // 5. Change the password and sign out everywhere else
+  await setUserPassword(sql, user.id, new_password);
+
+  const others = await sql`
+    SELECT id, token_hash FROM auth_sessions
+    WHERE user_id = ${user.id} AND token_hash <> ${tenant.session_hash || ''}
+  `;
+  for (const session of others) {
+    await revokeSession(sql, env, session.id, session.token_hash);
+  }
+
+  await recordAudit(sql, request, {
+    action: 'auth.password_change',
+    tenant,
+    target_type: 'user',
+    target_id: user.id,
+    metadata: { reason: 'self_service', sessions_revoked: others.length },
+  });
+
+  if (await wantsNotification(sql, user.id, 'password_changed')) {
+    try {
+      await sendNotificationEmail({
+        to: user.email,
+        name: user.display_name || user.email,
+        subject: 'Your S-IMSY Reporting password was changed',
+        paragraphs: [
+          `The password for your account was just changed from ${clientIp(request)}.`,
+          'You have been signed out everywhere else. If this wasn\'t you, reset your password immediately and contact your administrator.',
+        ],
+        apiKey: env.BREVO_API_KEY,
+        fromEmail: env.OTP_FROM_EMAIL || 'noreply@simsy.co.uk',
+      });
+    } catch (err) {
+      // The change itself already succeeded — don't fail it on the notification
+      console.error('[AUTH] Failed to send password change notification:', err);
+    }
+  }
+
+  return jsonResponse({
+    status: 'ok',
+    message: 'Password changed',
+    sessions_revoked: others.length,
   });
 }
 
@@ -401,7 +1297,7 @@ export async function handleForgotPassword(
 
   if (users.length === 0 || !users[0].is_active) {
     // Do a dummy delay to match timing of the real path
-    await hashPassword('dummy', generateSalt());
+    await hashPassword('dummy');
     return jsonResponse(successMsg);
   }
 
@@ -465,10 +1361,6 @@ export async function handleResetPassword(
     return errorResponse(400, 'reset_token, code, and new_password are required');
   }
 
-  if (new_password.length < 12) {
-    return errorResponse(400, 'Password must be at least 12 characters');
-  }
-
   // 1. Look up reset session from KV
   const pending = (await env.TENANT_KV.get(`reset_pending:${reset_token}`, 'json')) as {
     user_id: string;
@@ -509,26 +1401,21 @@ export async function handleResetPassword(
     return errorResponse(401, 'Invalid reset code');
   }
 
-  // 5. Mark OTP used
+  // 5. Check the password policy only once the code is proven, so the
+  //    reuse check cannot be probed without it. The code stays valid for
+  //    another attempt.
+  const rejected = await checkNewPassword(sql, pending.user_id, new_password);
+  if (rejected) return rejected;
+
+  // 6. Mark OTP used
   await sql`UPDATE auth_otp SET used_at = now() WHERE id = ${otp.id}`;
   await env.TENANT_KV.delete(`reset_pending:${reset_token}`);
 
-  // 6. Update password
-  const salt = generateSalt();
-  const passwordHash = await hashPassword(new_password, salt);
-
-  await sql`
-    UPDATE auth_users
-    SET password_hash = ${passwordHash},
-        salt = ${salt},
-        password_changed_at = now(),
-        failed_logins = 0,
-        locked_until = NULL,
-        updated_at = now()
-    WHERE id = ${pending.user_id}
-  `;
+  // 7. Update password
+  await setUserPassword(sql, pending.user_id, new_password);
+  const updated = await sql`SELECT tenant_id FROM auth_users WHERE id = ${pending.user_id}`;
 
-  // 7. Invalidate all existing sessions for this user
+  // 8. Invalidate all existing sessions for this user
   const sessions = await sql`
     SELECT token_hash FROM auth_sessions WHERE user_id = ${pending.user_id}
   `;
@@ -537,6 +1424,15 @@ export async function handleResetPassword(
   }
   await sql`DELETE FROM auth_sessions WHERE user_id = ${pending.user_id}`;
 
+  await recordAudit(sql, request, {
+    action: 'auth.password_reset',
+    actor: { user_id: pending.user_id, email: pending.email },
+    tenant_id: updated[0]?.tenant_id ?? null,
+    target_type: 'user',
+    target_id: pending.user_id,
+    metadata: { sessions_revoked: sessions.length },
+  });
+
   return jsonResponse({
     status: 'ok',
     message: 'Password has been reset. Please log in with your new password.',
@@ -564,10 +1460,6 @@ export async function handleAcceptInvite(
     return errorResponse(400, 'token and password are required');
   }
 
-  if (password.length < 12) {
-    return errorResponse(400, 'Password must be at least 12 characters');
-  }
-
   // 1. Look up invite from KV
   const pending = (await env.TENANT_KV.get(`invite:${token}`, 'json')) as {
     user_id: string;
@@ -579,7 +1471,7 @@ export async function handleAcceptInvite(
 
   // 2. Verify user exists and has no password set (genuinely invited)
   const users = await sql`
-    SELECT id, email, display_name, is_active, password_hash
+    SELECT id, email, display_name, is_active, password_hash, tenant_id
     FROM auth_users
     WHERE id = ${pending.user_id}
   `;
@@ -596,30 +1488,32 @@ export async function handleAcceptInvite(
     return errorResponse(409, 'Account has already been activated. Please log in.');
   }
 
-  // 3. Set password and activate account
-  const salt = generateSalt();
-  const passwordHash = await hashPassword(password, salt);
+  // 3. Set password (subject to the tenant policy) and activate account
+  const rejected = await checkNewPassword(sql, user.id, password);
+  if (rejected) return rejected;
 
-  await sql`
-    UPDATE auth_users
-    SET password_hash = ${passwordHash},
-        salt = ${salt},
-        is_active = true,
-        password_changed_at = now(),
-        updated_at = now()
-    WHERE id = ${user.id}
-  `;
+  await setUserPassword(sql, user.id, password);
+  await sql`UPDATE auth_users SET is_active = true WHERE id = ${user.id}`;
 
   // 4. Clean up invite token
   await env.TENANT_KV.delete(`invite:${token}`);
 
-  // Mark the OTP audit record as used
+  // Mark the OTP audit records as used, and this one as accepted
   await sql`
     UPDATE auth_otp
-    SET used_at = now()
+    SET used_at = now(),
+        accepted_at = CASE WHEN code_hash = ${token} THEN now() END
     WHERE user_id = ${user.id} AND purpose = 'invite' AND used_at IS NULL
   `;
 
+  await recordAudit(sql, request, {
+    action: 'auth.invite_accepted',
+    actor: { user_id: user.id, email: user.email },
+    tenant_id: user.tenant_id,
+    target_type: 'user',
+    target_id: user.id,
+  });
+
   return jsonResponse({
     status: 'ok',
     message: 'Password set successfully. You can now log in.',
@@ -8,7 +8,7 @@
 import type postgres from 'postgres';
 import type { Env, TenantInfo } from '../types';
 import type { RateLimitResult } from '../middleware/rate-limit';
-import { tenantFilter, isPlatformAdmin } from '../db';
+import { tenantFilter, customerFilter, isPlatformAdmin } from '../db';
 import { parsePagination, paginationOffset } from '../utils/pagination';
 import { paginatedResponse, jsonResponse, errorResponse } from '../utils/response';
 
@@ -108,9 +108,10 @@ export async function handleBundleDetail(
   let instParamIdx = tfInst.nextIdx + 1;
 
   let instanceFilter = '';
-  if (tenant.role === 'customer' && tenant.customer_name) {
-    instanceFilter = ` AND customer_name = $${instParamIdx}`;
-    instanceParams.push(tenant.customer_name);
+  const cf = customerFilter(tenant, instParamIdx);
+  if (cf) {
+    instanceFilter = ` AND ${cf.clause}`;
+    instanceParams.push(...cf.params);
   }
 
   const instances = await sql.unsafe(
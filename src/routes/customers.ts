@@ -0,0 +1,439 @@
+/**
+ * Customer registry routes (customers:manage).
+ *
+ *   GET    /customers      — List customers (paginated; ?search=, ?tenant_id=)
+ *   POST   /customers      — Create: { name, tenant_id?, aliases?, metadata? }
+ *   GET    /customers/:id  — Customer detail
+ *   PUT    /customers/:id  — Update name, tenant_id, aliases (replaces the set) and/or metadata
+ *   DELETE /customers/:id  — Delete a customer no user or API key refers to
+ *
+ * Platform admins manage every customer; tenant admins manage those of
+ * their own tenant + descendant tenants. Customer-role users can't use
+ * these routes.
+ *
+ * Names and aliases are unique (case-insensitively) within a tenant. An
+ * alias is another spelling of the customer in the report tables and must
+ * match those rows exactly. Renaming a customer keeps the old name as an
+ * alias and carries the new name to its users and API keys, so their
+ * access is unaffected. A customer with users can't move to another tenant.
+ */
+
+import type postgres from 'postgres';
+import type { Env, TenantInfo } from '../types';
+import { jsonResponse, paginatedResponse, errorResponse } from '../utils/response';
+import { parsePagination, paginationOffset } from '../utils/pagination';
+import { tenantFilter } from '../db';
+import { syncUserApiKeys } from '../utils/api-keys';
+import { recordAudit } from '../utils/audit';
+import type { RateLimitResult } from '../middleware/rate-limit';
+import { tenantInScope } from './admin';
+
+const MAX_NAME_LENGTH = 200;
+const MAX_ALIASES = 50;
+
+const CUSTOMER_COLUMNS = `
+  c.id, c.tenant_id, t.tenant_name, c.name, c.metadata, c.created_at, c.updated_at,
+  COALESCE((SELECT array_agg(a.alias ORDER BY a.alias) FROM customer_aliases a
+            WHERE a.customer_id = c.id), '{}') AS aliases,
+  (SELECT COUNT(*)::int FROM auth_users u
+   WHERE u.deleted_at IS NULL
+     AND (u.customer_id = c.id
+          OR EXISTS (SELECT 1 FROM auth_user_customers g
+                     WHERE g.user_id = u.id AND g.customer_id = c.id))) AS user_count`;
+
+function customerRow(r: Record<string, unknown>) {
+  return {
+    id: r.id,
+    tenant_id: r.tenant_id,
+    tenant_name: r.tenant_name,
+    name: r.name,
+    aliases: r.aliases,
+    metadata: r.metadata,
+    user_count: r.user_count,
+    created_at: r.created_at,
+    updated_at: r.updated_at,
+  };
+}
+
+function customerRoleError(tenant: TenantInfo): Response | null {
+  if (tenant.role === 'customer') {
+    return errorResponse(403, 'Forbidden', 'Customer users cannot manage customers');
+  }
+  return null;
+}
+
+/** The customer if it exists and belongs to a tenant the caller administers. */
+async function customerInScope(
+  sql: postgres.Sql,
+  tenant: TenantInfo,
+  customerId: string,
+): Promise<Record<string, unknown> | null> {
+  if (!/^[0-9a-f-]{36}$/i.test(customerId)) return null;
+  const tf = tenantFilter(tenant, 2, 'c.tenant_id');
+  const rows = await sql.unsafe(
+    `SELECT ${CUSTOMER_COLUMNS}
+     FROM customers c
+     JOIN rpt_tenants t ON t.tenant_id = c.tenant_id
+     WHERE c.id = $1 AND ${tf.clause}`,
+    [customerId, ...tf.params] as any[],
+  );
+  return rows.length > 0 ? customerRow(rows[0]) : null;
+}
+
+/** True if a (non-erased) user belongs to the customer or has been granted it. */
+async function hasUsers(sql: postgres.Sql, customerId: string): Promise<boolean> {
+  const rows = await sql`
+    SELECT 1 FROM auth_users u
+    WHERE u.erased_at IS NULL
+      AND (u.customer_id = ${customerId}
+           OR EXISTS (SELECT 1 FROM auth_user_customers g
+                      WHERE g.user_id = u.id AND g.customer_id = ${customerId}))
+    LIMIT 1
+  `;
+  return rows.length > 0;
+}
+
+/** Trimmed aliases, or an error message. */
+function parseAliases(value: unknown): string[] | string {
+  if (!Array.isArray(value) || !value.every((a) => typeof a === 'string')) {
+    return 'aliases must be an array of strings';
+  }
+  const aliases = [...new Set((value as string[]).map((a) => a.trim()).filter(Boolean))];
+  if (aliases.length > MAX_ALIASES) return `At most ${MAX_ALIASES} aliases`;
+  if (aliases.some((a) => a.length > MAX_NAME_LENGTH)) return `Aliases must be at most ${MAX_NAME_LENGTH} characters`;
+  return aliases;
+}
+
+/**
+ * The first of `names` already used (as a name or alias) by another
+ * customer of the tenant, or within `names` itself; null if none.
+ */
+async function nameConflict(
+  sql: postgres.Sql,
+  tenantId: string,
+  names: string[],
+  customerId: string | null,
+): Promise<string | null> {
+  const seen = new Set<string>();
+  for (const n of names) {
+    if (seen.has(n.toLowerCase())) return n;
+    seen.add(n.toLowerCase());
+  }
+
+  const rows = await sql`
+    SELECT n FROM (
+      SELECT c.name AS n, c.id FROM customers c WHERE c.tenant_id = ${tenantId}
+      UNION ALL
+      SELECT a.alias, c.id FROM customer_aliases a
+      JOIN customers c ON c.id = a.customer_id
+      WHERE c.tenant_id = ${tenantId}
+    ) used
+    WHERE LOWER(n) = ANY(${[...seen]}::text[])
+      AND (${customerId}::uuid IS NULL OR id <> ${customerId}::uuid)
+    LIMIT 1
+  `;
+  return rows.length > 0 ? (rows[0].n as string) : null;
+}
+
+async function replaceAliases(sql: postgres.Sql, customerId: string, aliases: string[]): Promise<void> {
+  await sql`DELETE FROM customer_aliases WHERE customer_id = ${customerId}`;
+  for (const alias of aliases) {
+    await sql`INSERT INTO customer_aliases (customer_id, alias) VALUES (${customerId}, ${alias})`;
+  }
+}
+
+/* ================================================================
+ * GET /customers
+ * ================================================================ */
+
+export async function handleListCustomers(
+  searchParams: URLSearchParams,
+  sql: postgres.Sql,
+  tenant: TenantInfo,
+  env: Env,
+  rateLimit: RateLimitResult,
+): Promise<Response> {
+  const denied = customerRoleError(tenant);
+  if (denied) return denied;
+
+  const { page, pageSize } = parsePagination(searchParams, env);
+  const offset = paginationOffset({ page, pageSize });
+  const search = searchParams.get('search') || '';
+  const tenantId = searchParams.get('tenant_id') || '';
+
+  const tf = tenantFilter(tenant, 1, 'c.tenant_id');
+  const conditions: string[] = [tf.clause];
+  const params: (string | number)[] = tf.params as string[];
+  let paramIndex = tf.nextIdx - 1;
+
+  if (tenantId) {
+    paramIndex++;
+    conditions.push(`c.tenant_id = $${paramIndex}`);
+    params.push(tenantId);
+  }
+
+  if (search) {
+    paramIndex++;
+    conditions.push(
+      `(LOWER(c.name) LIKE $${paramIndex} OR EXISTS (
+         SELECT 1 FROM customer_aliases a WHERE a.customer_id = c.id AND LOWER(a.alias) LIKE $${paramIndex}))`,
+    );
+    params.push(`%${search.toLowerCase()}%`);
+  }
+
+  const whereClause = `WHERE ${conditions.join(' AND ')}`;
+
+  const countResult = await sql.unsafe(
+    `SELECT COUNT(*) AS total FROM customers c ${whereClause}`,
+    params as any[],
+  );
+  const total = parseInt(countResult[0].total);
+
+  const rows = await sql.unsafe(
+    `SELECT ${CUSTOMER_COLUMNS}
+     FROM customers c
+     JOIN rpt_tenants t ON t.tenant_id = c.tenant_id
+     ${whereClause}
+     ORDER BY LOWER(c.name), t.tenant_name
+     LIMIT $${paramIndex + 1} OFFSET $${paramIndex + 2}`,
+    [...params, pageSize, offset] as any[],
+  );
+
+  return paginatedResponse(rows.map(customerRow), total, page, pageSize, rateLimit);
+}
+
+/* ================================================================
+ * GET /customers/:id
+ * ================================================================ */
+
+export async function handleGetCustomer(
+  customerId: string,
+  sql: postgres.Sql,
+  tenant: TenantInfo,
+): Promise<Response> {
+  const denied = customerRoleError(tenant);
+  if (denied) return denied;
+
+  const customer = await customerInScope(sql, tenant, customerId);
+  if (!customer) {
+    return errorResponse(404, 'Customer not found');
+  }
+  return jsonResponse(customer);
+}
+
+/* ================================================================
+ * POST /customers
+ * ================================================================ */
+
+export async function handleCreateCustomer(
+  request: Request,
+  sql: postgres.Sql,
+  tenant: TenantInfo,
+): Promise<Response> {
+  const denied = customerRoleError(tenant);
+  if (denied) return denied;
+
+  let body: { name?: string; tenant_id?: string; aliases?: unknown; metadata?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(400, 'Invalid JSON body');
+  }
+
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (!name) {
+    return errorResponse(400, 'Missing required field: name');
+  }
+  if (name.length > MAX_NAME_LENGTH) {
+    return errorResponse(400, `name must be at most ${MAX_NAME_LENGTH} characters`);
+  }
+
+  const tenantId = body.tenant_id ?? tenant.tenant_id;
+  if (typeof tenantId !== 'string' || !(await tenantInScope(sql, tenant, tenantId))) {
+    return errorResponse(400, 'Invalid tenant_id');
+  }
+
+  const aliases = body.aliases === undefined ? [] : parseAliases(body.aliases);
+  if (typeof aliases === 'string') return errorResponse(400, aliases);
+
+  const metadata = body.metadata ?? {};
+  if (typeof metadata !== 'object' || metadata === null || Array.isArray(metadata)) {
+    return errorResponse(400, 'metadata must be an object');
+  }
+
+  const names = [name, ...aliases.filter((a) => a !== name)];
+  const conflict = await nameConflict(sql, tenantId, names, null);
+  if (conflict) {
+    return errorResponse(409, 'Customer name already in use', `"${conflict}" is already a name or alias of a customer of this tenant.`);
+  }
+
+  const result = await sql`
+    INSERT INTO customers (tenant_id, name, metadata, created_by)
+    VALUES (${tenantId}, ${name}, ${JSON.stringify(metadata)}, ${tenant.user_id || null})
+    RETURNING id
+  `;
+  const customerId = result[0].id as string;
+  await replaceAliases(sql, customerId, names.slice(1));
+
+  const created = await customerInScope(sql, tenant, customerId);
+
+  await recordAudit(sql, request, {
+    action: 'customer.create',
+    tenant,
+    tenant_id: tenantId,
+    target_type: 'customer',
+    target_id: customerId,
+    after: created,
+  });
+
+  return jsonResponse(created, 201);
+}
+
+/* ================================================================
+ * PUT /customers/:id
+ * ================================================================ */
+
+export async function handleUpdateCustomer(
+  customerId: string,
+  request: Request,
+  sql: postgres.Sql,
+  env: Env,
+  tenant: TenantInfo,
+): Promise<Response> {
+  const denied = customerRoleError(tenant);
+  if (denied) return denied;
+
+  let body: { name?: string; tenant_id?: string; aliases?: unknown; metadata?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(400, 'Invalid JSON body');
+  }
+
+  if (body.name === undefined && body.tenant_id === undefined && body.aliases === undefined && body.metadata === undefined) {
+    return errorResponse(400, 'No valid fields to update');
+  }
+
+  const before = await customerInScope(sql, tenant, customerId);
+  if (!before) {
+    return errorResponse(404, 'Customer not found');
+  }
+
+  const name = body.name !== undefined ? String(body.name).trim() : (before.name as string);
+  if (!name) {
+    return errorResponse(400, 'name cannot be empty');
+  }
+  if (name.length > MAX_NAME_LENGTH) {
+    return errorResponse(400, `name must be at most ${MAX_NAME_LENGTH} characters`);
+  }
+
+  const tenantId = body.tenant_id ?? (before.tenant_id as string);
+  if (tenantId !== before.tenant_id) {
+    if (typeof tenantId !== 'string' || !(await tenantInScope(sql, tenant, tenantId))) {
+      return errorResponse(400, 'Invalid tenant_id');
+    }
+    if (await hasUsers(sql, customerId)) {
+      return errorResponse(409, 'Customer has users', 'Move or reassign its users before moving the customer to another tenant.');
+    }
+  }
+
+  let aliases = body.aliases === undefined ? (before.aliases as string[]) : parseAliases(body.aliases);
+  if (typeof aliases === 'string') return errorResponse(400, aliases);
+
+  // A rename keeps the old spelling, so report rows under it still match
+  if (name !== before.name && !aliases.includes(before.name as string)) {
+    aliases = [...aliases, before.name as string];
+  }
+  aliases = aliases.filter((a) => a !== name);
+
+  const metadata = body.metadata ?? before.metadata;
+  if (typeof metadata !== 'object' || metadata === null || Array.isArray(metadata)) {
+    return errorResponse(400, 'metadata must be an object');
+  }
+
+  const conflict = await nameConflict(sql, tenantId, [name, ...aliases], customerId);
+  if (conflict) {
+    return errorResponse(409, 'Customer name already in use', `"${conflict}" is already a name or alias of a customer of this tenant.`);
+  }
+
+  await sql`
+    UPDATE customers
+    SET name = ${name},
+        tenant_id = ${tenantId},
+        metadata = ${JSON.stringify(metadata)},
+        updated_at = now()
+    WHERE id = ${customerId}
+  `;
+  await replaceAliases(sql, customerId, aliases);
+
+  // Users and API keys carry the name too; keep it in step
+  if (name !== before.name) {
+    const users = await sql`
+      UPDATE auth_users SET customer_name = ${name}, updated_at = now()
+      WHERE customer_id = ${customerId}
+      RETURNING id
+    `;
+    const keyOwners = await sql`
+      UPDATE auth_api_keys SET customer_name = ${name}
+      WHERE customer_id = ${customerId}
+      RETURNING user_id
+    `;
+    const affected = new Set([...users.map((u) => u.id as string), ...keyOwners.map((k) => k.user_id as string)]);
+    for (const userId of affected) {
+      await syncUserApiKeys(sql, env, userId);
+    }
+  }
+
+  const after = await customerInScope(sql, tenant, customerId);
+  await recordAudit(sql, request, {
+    action: 'customer.update',
+    tenant,
+    tenant_id: tenantId,
+    target_type: 'customer',
+    target_id: customerId,
+    before,
+    after,
+  });
+
+  return jsonResponse(after);
+}
+
+/* ================================================================
+ * DELETE /customers/:id
+ * ================================================================ */
+
+export async function handleDeleteCustomer(
+  customerId: string,
+  request: Request,
+  sql: postgres.Sql,
+  tenant: TenantInfo,
+): Promise<Response> {
+  const denied = customerRoleError(tenant);
+  if (denied) return denied;
+
+  const before = await customerInScope(sql, tenant, customerId);
+  if (!before) {
+    return errorResponse(404, 'Customer not found');
+  }
+
+  const keys = await sql`SELECT 1 FROM auth_api_keys WHERE customer_id = ${customerId} LIMIT 1`;
+  if ((await hasUsers(sql, customerId)) || keys.length > 0) {
+    return errorResponse(409, 'Customer is in use', 'Reassign or delete its users and API keys first.');
+  }
+
+  // Erased users' tombstones only remember the name
+  await sql`UPDATE auth_users SET customer_id = NULL WHERE customer_id = ${customerId}`;
+  await sql`DELETE FROM auth_user_customers WHERE customer_id = ${customerId}`;
+  await sql`DELETE FROM customers WHERE id = ${customerId}`;
+
+  await recordAudit(sql, request, {
+    action: 'customer.delete',
+    tenant,
+    tenant_id: before.tenant_id as string,
+    target_type: 'customer',
+    target_id: customerId,
+    before,
+  });
+
+  return jsonResponse({ status: 'ok', message: 'Customer deleted' });
+}
@@ -15,7 +15,7 @@
 import type postgres from 'postgres';
 import type { Env, TenantInfo } from '../types';
 import type { RateLimitResult } from '../middleware/rate-limit';
-import { tenantFilter, isPlatformAdmin } from '../db';
+import { tenantFilter, customerFilter, customerNameMatch, isPlatformAdmin } from '../db';
 import { parsePagination, paginationOffset } from '../utils/pagination';
 import { paginatedResponse, jsonResponse, errorResponse } from '../utils/response';
 
@@ -44,18 +44,15 @@ export async function handleEndpointsList(
   }
 
   // Customer scoping: customer-role users ALWAYS see only their own data
-  if (tenant.role === 'customer' && tenant.customer_id) {
-    filters.push(`customer_id = $${paramIdx}`);
-    params.push(tenant.customer_id);
-    paramIdx++;
-  } else if (tenant.role === 'customer' && tenant.customer_name) {
-    // Fallback: use customer_name via bundle instances lookup
-    filters.push(`endpoint_name IN (SELECT DISTINCT endpoint_name FROM rpt_bundle_instances WHERE customer_name = $${paramIdx} AND endpoint_name IS NOT NULL)`);
-    params.push(tenant.customer_name);
-    paramIdx++;
+  // (endpoints carry no customer name; match them via bundle instances)
+  const cf = customerFilter(tenant, paramIdx);
+  if (cf) {
+    filters.push(`endpoint_name IN (SELECT DISTINCT endpoint_name FROM rpt_bundle_instances WHERE ${cf.clause} AND endpoint_name IS NOT NULL)`);
+    params.push(...cf.params);
+    paramIdx = cf.nextIdx;
   } else if (isPlatformAdmin(tenant) && searchParams.get('customer')) {
     // Only platform admin can filter by arbitrary customer
-    filters.push(`endpoint_name IN (SELECT DISTINCT endpoint_name FROM rpt_bundle_instances WHERE customer_name = $${paramIdx} AND endpoint_name IS NOT NULL)`);
+    filters.push(`endpoint_name IN (SELECT DISTINCT endpoint_name FROM rpt_bundle_instances WHERE ${customerNameMatch('customer_name', paramIdx)} AND endpoint_name IS NOT NULL)`);
     params.push(searchParams.get('customer'));
     paramIdx++;
   }
@@ -157,12 +154,13 @@ export async function handleEndpointUsage(
   }
 
   // Customer scoping
-  if (tenant.role === 'customer' && tenant.customer_name) {
-    filters.push(`customer_name = $${paramIdx}`);
-    params.push(tenant.customer_name);
-    paramIdx++;
+  const cf = customerFilter(tenant, paramIdx);
+  if (cf) {
+    filters.push(cf.clause);
+    params.push(...cf.params);
+    paramIdx = cf.nextIdx;
   } else if (isPlatformAdmin(tenant) && searchParams.get('customer')) {
-    filters.push(`customer_name = $${paramIdx}`);
+    filters.push(customerNameMatch('customer_name', paramIdx));
     params.push(searchParams.get('customer'));
     paramIdx++;
   }
@@ -237,12 +235,13 @@ export async function handleTopEndpoints(
   }
 
   // Customer scoping
-  if (tenant.role === 'customer' && tenant.customer_name) {
-    filters.push(`customer_name = $${paramIdx}`);
-    params.push(tenant.customer_name);
-    paramIdx++;
+  const cf = customerFilter(tenant, paramIdx);
+  if (cf) {
+    filters.push(cf.clause);
+    params.push(...cf.params);
+    paramIdx = cf.nextIdx;
   } else if (isPlatformAdmin(tenant) && searchParams.get('customer')) {
-    filters.push(`customer_name = $${paramIdx}`);
+    filters.push(customerNameMatch('customer_name', paramIdx));
     params.push(searchParams.get('customer'));
     paramIdx++;
   }
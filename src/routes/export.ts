@@ -9,10 +9,11 @@
 import type postgres from 'postgres';
 import type { Env, TenantInfo } from '../types';
 import type { RateLimitResult } from '../middleware/rate-limit';
-import { tenantFilter, isPlatformAdmin } from '../db';
+import { tenantFilter, customerFilter, isPlatformAdmin } from '../db';
 import { errorResponse } from '../utils/response';
 import { corsHeaders } from '../middleware/cors';
 import { rateLimitHeaders } from '../middleware/rate-limit';
+import { toCSV, csvResponse } from '../utils/csv';
 
 interface ExportRequest {
   report_type: 'usage' | 'bundles' | 'instances' | 'endpoints';
@@ -55,11 +56,12 @@ export async function handleExport(
   const params: unknown[] = [...tf.params];
   let paramIdx = tf.nextIdx;
 
-  let customerFilter = '';
-  if (tenant.role === 'customer' && tenant.customer_name) {
-    customerFilter = ` AND customer_name = $${paramIdx}`;
-    params.push(tenant.customer_name);
-    paramIdx++;
+  let customerClause = '';
+  const cf = customerFilter(tenant, paramIdx);
+  if (cf) {
+    customerClause = ` AND ${cf.clause}`;
+    params.push(...cf.params);
+    paramIdx = cf.nextIdx;
   }
 
   let dateFilter = '';
@@ -92,7 +94,7 @@ export async function handleExport(
           serving_operator_name, serving_country_name,
           buy_charge, buy_currency, sell_charge, sell_currency
         FROM rpt_usage
-        WHERE ${tf.clause} ${customerFilter} ${dateFilter} ${extraFilter}
+        WHERE ${tf.clause} ${customerClause} ${dateFilter} ${extraFilter}
         ORDER BY timestamp DESC
       `;
       break;
@@ -104,7 +106,7 @@ export async function handleExport(
           price, currency, allowance, allowance_moniker,
           status_name, effective_from, effective_to
         FROM rpt_bundles
-        WHERE ${tf.clause} ${customerFilter}
+        WHERE ${tf.clause} ${customerClause}
         ORDER BY bundle_name ASC
       `;
       break;
@@ -117,7 +119,7 @@ export async function handleExport(
           start_time, end_time, status_name, status_moniker,
           sequence, sequence_max, data_used_mb, data_allowance_mb
         FROM rpt_bundle_instances
-        WHERE ${tf.clause} ${customerFilter} ${extraFilter}
+        WHERE ${tf.clause} ${customerClause} ${extraFilter}
         ORDER BY start_time DESC
       `;
       break;
@@ -131,7 +133,7 @@ export async function handleExport(
           charge_rolling_24h, charge_rolling_7d, charge_rolling_28d, charge_rolling_1y,
           first_activity, latest_activity
         FROM rpt_endpoints
-        WHERE ${tf.clause} ${customerFilter}
+        WHERE ${tf.clause} ${customerClause}
         ORDER BY endpoint_name ASC
       `;
       break;
@@ -162,39 +164,8 @@ export async function handleExport(
 
   // CSV format
   if (data.length === 0) {
-    return new Response('No data found for the specified criteria.\n', {
-      headers: {
-        'Content-Type': 'text/csv',
-        'Content-Disposition': `attachment; filename="${report_type}_export.csv"`,
-        ...corsHeaders(),
-        ...rateLimitHeaders(rateLimit),
-      },
-    });
-  }
-
-  const columns = Object.keys(data[0]);
-  const csvLines: string[] = [columns.join(',')];
-
-  for (const row of data) {
-    const values = columns.map((col) => {
-      const val = (row as Record<string, unknown>)[col];
-      if (val === null || val === undefined) return '';
-      const str = String(val);
-      // Escape CSV: quote if contains comma, quote, or newline
-      if (str.includes(',') || str.includes('"') || str.includes('\n')) {
-        return `"${str.replace(/"/g, '""')}"`;
-      }
-      return str;
-    });
-    csvLines.push(values.join(','));
+    return csvResponse('No data found for the specified criteria.\n', `${report_type}_export.csv`, rateLimit);
   }
 
-  return new Response(csvLines.join('\n') + '\n', {
-    headers: {
-      'Content-Type': 'text/csv',
-      'Content-Disposition': `attachment; filename="${report_type}_export.csv"`,
-      ...corsHeaders(),
-      ...rateLimitHeaders(rateLimit),
-    },
-  });
+  return csvResponse(toCSV(data as Record<string, unknown>[]), `${report_type}_export.csv`, rateLimit);
 }
@@ -2,10 +2,15 @@
  * Filter endpoints — populate tenant/customer dropdowns.
  *
  * Security:
- * - S-IMSY platform admin: sees all tenants (except Eclipse) and all customers
- * - Sub-tenant: sees own tenant + children; customers scoped to those tenants
+ * - Platform admin: sees all tenants and all customers
+ * - Sub-tenant: sees own tenant + all descendants; customers scoped to those tenants
  * - Customer: sees only their own tenant; customers scoped to their tenant
  *
+ * The tenant picker leaves out tenants with show_in_pickers = false
+ * (other than the caller's own). The customer picker lists each customer
+ * once under its registered name, however its rows spell it (see
+ * src/utils/customers.ts); unregistered names are listed as found.
+ *
  * GET /api/v1/filters/tenants     — Tenant hierarchy
  * GET /api/v1/filters/customers   — Distinct customer names
  */
@@ -13,7 +18,7 @@
 import type postgres from 'postgres';
 import type { TenantInfo } from '../types';
 import type { RateLimitResult } from '../middleware/rate-limit';
-import { isPlatformAdmin } from '../db';
+import { isPlatformAdmin, tenantFilter, customerFilter } from '../db';
 import { jsonResponse } from '../utils/response';
 
 export async function handleFilterTenants(
@@ -24,21 +29,23 @@ export async function handleFilterTenants(
   let tenants;
 
   if (isPlatformAdmin(tenant)) {
-    // Platform admin sees all tenants — exclude Eclipse (it's a customer, not a tenant)
+    // Platform admin sees all tenants that are shown in pickers
     tenants = await sql.unsafe(
-      `SELECT tenant_id, tenant_name, parent_tenant_id
+      `SELECT tenant_id, tenant_name, parent_tenant_id, tenant_kind
        FROM rpt_tenants
-       WHERE LOWER(tenant_name) != 'eclipse'
-       ORDER BY parent_tenant_id NULLS FIRST, tenant_name ASC`
+       WHERE show_in_pickers OR tenant_id = $1
+       ORDER BY parent_tenant_id NULLS FIRST, tenant_name ASC`,
+      [tenant.tenant_id]
     );
   } else {
-    // Everyone else sees own + children only
+    // Everyone else sees own (and granted) tenants + their descendants only
+    const tf = tenantFilter(tenant, 1);
     tenants = await sql.unsafe(
-      `SELECT tenant_id, tenant_name, parent_tenant_id
+      `SELECT tenant_id, tenant_name, parent_tenant_id, tenant_kind
        FROM rpt_tenants
-       WHERE tenant_id = $1 OR parent_tenant_id = $1
+       WHERE ${tf.clause} AND (show_in_pickers OR tenant_id = $${tf.nextIdx})
        ORDER BY parent_tenant_id NULLS FIRST, tenant_name ASC`,
-      [tenant.tenant_id]
+      [...tf.params, tenant.tenant_id] as any[]
     );
   }
 
@@ -64,23 +71,28 @@ export async function handleFilterCustomers(
       params.push(tenantId);
       paramIdx++;
     }
-  } else if (tenant.role === 'customer' && tenant.customer_name) {
-    // Customer: only see their own customer name within their tenant
-    filters.push(
-      `tenant_id IN (SELECT t.tenant_id FROM rpt_tenants t WHERE t.tenant_id = $${paramIdx} OR t.parent_tenant_id = $${paramIdx})`
-    );
-    params.push(tenant.tenant_id);
-    paramIdx++;
-    filters.push(`customer_name = $${paramIdx}`);
-    params.push(tenant.customer_name);
-    paramIdx++;
+  } else if (tenant.role === 'customer') {
+    // Customer: only see their own customers within their tenants
+    const tf = tenantFilter(tenant, paramIdx);
+    filters.push(tf.clause);
+    params.push(...tf.params);
+    paramIdx = tf.nextIdx;
+    const cf = customerFilter(tenant, paramIdx)!;
+    filters.push(cf.clause);
+    params.push(...cf.params);
+    paramIdx = cf.nextIdx;
+    // Customers spread over several tenants can narrow to one of them
+    if (tenantId) {
+      filters.push(`tenant_id = $${paramIdx}`);
+      params.push(tenantId);
+      paramIdx++;
+    }
   } else {
-    // Sub-tenant: scoped to own tenant + children
-    filters.push(
-      `tenant_id IN (SELECT t.tenant_id FROM rpt_tenants t WHERE t.tenant_id = $${paramIdx} OR t.parent_tenant_id = $${paramIdx})`
-    );
-    params.push(tenant.tenant_id);
-    paramIdx++;
+    // Sub-tenant: scoped to own tenant + descendants
+    const tf = tenantFilter(tenant, paramIdx);
+    filters.push(tf.clause);
+    params.push(...tf.params);
+    paramIdx = tf.nextIdx;
     // Sub-tenant can optionally filter by tenant_id within their scope
     if (tenantId) {
       filters.push(`tenant_id = $${paramIdx}`);
@@ -92,10 +104,18 @@ export async function handleFilterCustomers(
   const whereClause = filters.join(' AND ');
 
   const customers = await sql.unsafe(
-    `SELECT DISTINCT customer_name
+    `SELECT DISTINCT COALESCE(c.name, customer_name) AS customer_name
      FROM rpt_bundle_instances
+     LEFT JOIN LATERAL (
+       SELECT c.name FROM customers c
+       WHERE c.tenant_id = rpt_bundle_instances.tenant_id
+         AND (c.name = rpt_bundle_instances.customer_name
+              OR EXISTS (SELECT 1 FROM customer_aliases a
+                         WHERE a.customer_id = c.id AND a.alias = rpt_bundle_instances.customer_name))
+       LIMIT 1
+     ) c ON true
      WHERE ${whereClause}
-     ORDER BY customer_name ASC`,
+     ORDER BY 1 ASC`,
     params
   );
 
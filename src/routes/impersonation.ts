@@ -0,0 +1,115 @@
+/**
+ * User impersonation ("view as") for platform support staff.
+ *
+ *   POST /admin/users/:id/impersonate — Start: { reason } → short-lived token (users:impersonate)
+ *   POST /auth/impersonation/end      — End the impersonation session (impersonation token only)
+ *
+ * The token authenticates as the target user — same tenant, customer
+ * scoping and permissions — but carries an `act` claim naming the admin.
+ * Such requests are limited to GET routes (plus ending the session), are
+ * flagged in /auth/me as `impersonated_by`, and are each written to the
+ * audit log under the admin's name (see routeRequest). Platform users
+ * cannot be impersonated.
+ */
+
+import type postgres from 'postgres';
+import type { Env, TenantInfo } from '../types';
+import { jsonResponse, errorResponse } from '../utils/response';
+import { recordAudit } from '../utils/audit';
+import { mintImpersonationToken, type SessionUser } from './auth';
+
+/* ================================================================
+ * POST /admin/users/:id/impersonate
+ * ================================================================ */
+
+export async function handleStartImpersonation(
+  userId: string,
+  request: Request,
+  sql: postgres.Sql,
+  env: Env,
+  tenant: TenantInfo,
+): Promise<Response> {
+  let body: { reason?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(400, 'Invalid JSON body');
+  }
+
+  const reason = typeof body.reason === 'string' ? body.reason.trim() : '';
+  if (!reason) {
+    return errorResponse(400, 'reason is required', 'Say why you need to view as this user, e.g. a ticket reference.');
+  }
+
+  if (userId === tenant.user_id) {
+    return errorResponse(400, 'You cannot impersonate yourself');
+  }
+
+  const users = await sql`
+    SELECT u.id, u.email, u.role, u.role_id, u.tenant_id, u.customer_id, u.customer_name, u.is_active, t.tenant_kind
+    FROM auth_users u
+    JOIN rpt_tenants t ON t.tenant_id = u.tenant_id
+    WHERE u.id = ${userId}
+  `;
+  if (users.length === 0) {
+    return errorResponse(404, 'User not found');
+  }
+  const user = users[0];
+
+  if (user.tenant_kind === 'platform') {
+    return errorResponse(403, 'Forbidden', 'Platform users cannot be impersonated');
+  }
+  if (!user.is_active) {
+    return errorResponse(400, 'User is not active');
+  }
+
+  const { token, expiresAt, sid } = await mintImpersonationToken(sql, env, user as SessionUser, tenant);
+
+  await recordAudit(sql, request, {
+    action: 'impersonation.start',
+    tenant,
+    tenant_id: user.tenant_id,
+    target_type: 'user',
+    target_id: user.id,
+    metadata: { reason, session_id: sid, expires_at: expiresAt.toISOString() },
+  });
+
+  return jsonResponse({
+    token,
+    expires_at: expiresAt.toISOString(),
+    read_only: true,
+    user: {
+      id: user.id,
+      email: user.email,
+      role: user.role,
+      tenant_id: user.tenant_id,
+      customer_name: user.customer_name || null,
+    },
+  });
+}
+
+/* ================================================================
+ * POST /auth/impersonation/end
+ * ================================================================ */
+
+export async function handleEndImpersonation(
+  request: Request,
+  sql: postgres.Sql,
+  env: Env,
+  tenant: TenantInfo,
+): Promise<Response> {
+  if (!tenant.impersonator || !tenant.session_hash) {
+    return errorResponse(400, 'Not an impersonation session');
+  }
+
+  await env.TENANT_KV.delete(`session:${tenant.session_hash}`);
+
+  await recordAudit(sql, request, {
+    action: 'impersonation.end',
+    tenant,
+    target_type: 'user',
+    target_id: tenant.user_id,
+  });
+
+  return jsonResponse({ status: 'ok', message: 'Impersonation ended' });
+}
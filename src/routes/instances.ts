@@ -16,7 +16,7 @@
 import type postgres from 'postgres';
 import type { Env, TenantInfo } from '../types';
 import type { RateLimitResult } from '../middleware/rate-limit';
-import { tenantFilter, isPlatformAdmin } from '../db';
+import { tenantFilter, customerFilter, customerNameMatch, isPlatformAdmin } from '../db';
 import { parsePagination, paginationOffset } from '../utils/pagination';
 import { paginatedResponse } from '../utils/response';
 
@@ -48,13 +48,14 @@ export async function handleInstancesList(
   }
 
   // Customer-role users: always scoped to their own customer_name
-  if (tenant.role === 'customer' && tenant.customer_name) {
-    filters.push(`customer_name = $${paramIdx}`);
-    params.push(tenant.customer_name);
-    paramIdx++;
+  const cf = customerFilter(tenant, paramIdx);
+  if (cf) {
+    filters.push(cf.clause);
+    params.push(...cf.params);
+    paramIdx = cf.nextIdx;
   } else if (isPlatformAdmin(tenant) && searchParams.get('customer')) {
     // Only platform admin can filter by arbitrary customer
-    filters.push(`customer_name = $${paramIdx}`);
+    filters.push(customerNameMatch('customer_name', paramIdx));
     params.push(searchParams.get('customer'));
     paramIdx++;
   }
@@ -0,0 +1,300 @@
+/**
+ * Invitation lifecycle.
+ *
+ * Admin endpoints (users:manage):
+ *   GET    /admin/invites             — List invites (paginated; ?status=, ?search=)
+ *   DELETE /admin/invites/:id         — Revoke a pending invite
+ *   POST   /admin/users/bulk-invite   — Invite many users from JSON or CSV
+ *
+ * An invite is an auth_otp row with purpose 'invite' whose code_hash is
+ * the token in the emailed link (see issueInvite in ./admin). Its status:
+ *
+ *   pending    — unused and not yet expired
+ *   expired    — unused and past its 48-hour expiry
+ *   accepted   — the user set their password from it
+ *   superseded — replaced by a resend before it was used
+ *   revoked    — withdrawn by an admin
+ *
+ * Tenant admins see and manage invites for their own tenant + descendant
+ * tenants only.
+ */
+
+import type postgres from 'postgres';
+import type { Env, TenantInfo } from '../types';
+import { jsonResponse, paginatedResponse, errorResponse } from '../utils/response';
+import { parsePagination, paginationOffset } from '../utils/pagination';
+import { parseCSV } from '../utils/csv';
+import { tenantFilter } from '../db';
+import { recordAudit } from '../utils/audit';
+import type { RateLimitResult } from '../middleware/rate-limit';
+import { checkTargetManageable, createInvitedUser, type NewUserFields } from './admin';
+
+const INVITE_STATUSES = ['pending', 'expired', 'accepted', 'superseded', 'revoked'] as const;
+
+const MAX_BULK_INVITES = 100;
+
+const STATUS_SQL = `
+  CASE
+    WHEN o.revoked_at IS NOT NULL THEN 'revoked'
+    WHEN o.accepted_at IS NOT NULL THEN 'accepted'
+    WHEN o.used_at IS NOT NULL THEN 'superseded'
+    WHEN o.expires_at <= now() THEN 'expired'
+    ELSE 'pending'
+  END`;
+
+/* ================================================================
+ * GET /admin/invites
+ * ================================================================ */
+
+export async function handleListInvites(
+  searchParams: URLSearchParams,
+  sql: postgres.Sql,
+  tenant: TenantInfo,
+  env: Env,
+  rateLimit: RateLimitResult,
+): Promise<Response> {
+  const { page, pageSize } = parsePagination(searchParams, env);
+  const offset = paginationOffset({ page, pageSize });
+  const search = searchParams.get('search') || '';
+  const statusFilter = searchParams.get('status') || '';
+
+  if (statusFilter && !(INVITE_STATUSES as readonly string[]).includes(statusFilter)) {
+    return errorResponse(400, `Invalid status. Must be one of: ${INVITE_STATUSES.join(', ')}`);
+  }
+
+  const tf = tenantFilter(tenant, 1, 'u.tenant_id');
+  const conditions: string[] = [`o.purpose = 'invite'`, tf.clause];
+  const params: (string | number)[] = tf.params as string[];
+  let paramIndex = tf.nextIdx - 1;
+
+  if (search) {
+    paramIndex++;
+    conditions.push(
+      `(u.email_lower LIKE $${paramIndex} OR LOWER(u.display_name) LIKE $${paramIndex})`,
+    );
+    params.push(`%${search.toLowerCase()}%`);
+  }
+
+  if (statusFilter) {
+    paramIndex++;
+    conditions.push(`${STATUS_SQL} = $${paramIndex}`);
+    params.push(statusFilter);
+  }
+
+  const whereClause = `WHERE ${conditions.join(' AND ')}`;
+
+  const countResult = await sql.unsafe(
+    `SELECT COUNT(*) AS total
+     FROM auth_otp o
+     JOIN auth_users u ON u.id = o.user_id
+     ${whereClause}`,
+    params as any[],
+  );
+  const total = parseInt(countResult[0].total);
+
+  const rows = await sql.unsafe(
+    `SELECT o.id, ${STATUS_SQL} AS status,
+            o.created_at, o.expires_at, o.accepted_at, o.revoked_at,
+            CASE WHEN o.accepted_at IS NULL AND o.revoked_at IS NULL THEN o.used_at END AS superseded_at,
+            u.id AS user_id, u.email, u.display_name, u.role, u.tenant_id, u.customer_name,
+            t.tenant_name
+     FROM auth_otp o
+     JOIN auth_users u ON u.id = o.user_id
+     JOIN rpt_tenants t ON t.tenant_id = u.tenant_id
+     ${whereClause}
+     ORDER BY o.created_at DESC
+     LIMIT $${paramIndex + 1} OFFSET $${paramIndex + 2}`,
+    [...params, pageSize, offset] as any[],
+  );
+
+  const invites = rows.map((r: Record<string, unknown>) => ({
+    id: r.id,
+    status: r.status,
+    created_at: r.created_at,
+    expires_at: r.expires_at,
+    accepted_at: r.accepted_at || null,
+    revoked_at: r.revoked_at || null,
+    superseded_at: r.superseded_at || null,
+    user: {
+      id: r.user_id,
+      email: r.email,
+      display_name: r.display_name,
+      role: r.role,
+      tenant_id: r.tenant_id,
+      tenant_name: r.tenant_name,
+      customer_name: r.customer_name || null,
+    },
+  }));
+
+  return paginatedResponse(invites, total, page, pageSize, rateLimit);
+}
+
+/* ================================================================
+ * DELETE /admin/invites/:id
+ * ================================================================ */
+
+export async function handleRevokeInvite(
+  inviteId: string,
+  request: Request,
+  sql: postgres.Sql,
+  env: Env,
+  tenant: TenantInfo,
+): Promise<Response> {
+  const tf = tenantFilter(tenant, 2, 'u.tenant_id');
+  const invites = await sql.unsafe(
+    `SELECT o.id, o.code_hash, ${STATUS_SQL} AS status, u.id AS user_id, u.email, u.tenant_id
+     FROM auth_otp o
+     JOIN auth_users u ON u.id = o.user_id
+     WHERE o.id = $1 AND o.purpose = 'invite' AND ${tf.clause}`,
+    [inviteId, ...tf.params] as any[],
+  );
+  if (invites.length === 0) {
+    return errorResponse(404, 'Invite not found');
+  }
+  const invite = invites[0];
+
+  const outranked = await checkTargetManageable(sql, tenant, invite.user_id);
+  if (outranked) return outranked;
+
+  if (invite.status !== 'pending') {
+    return errorResponse(409, `Only pending invites can be revoked; this one is ${invite.status}`);
+  }
+
+  await env.TENANT_KV.delete(`invite:${invite.code_hash}`);
+  await sql`
+    UPDATE auth_otp SET used_at = now(), revoked_at = now()
+    WHERE id = ${inviteId}
+  `;
+
+  await recordAudit(sql, request, {
+    action: 'invite.revoke',
+    tenant,
+    tenant_id: invite.tenant_id,
+    target_type: 'user',
+    target_id: invite.user_id,
+    metadata: { invite_id: inviteId, email: invite.email },
+  });
+
+  return jsonResponse({ status: 'ok', message: 'Invite revoked' });
+}
+
+/* ================================================================
+ * POST /admin/users/bulk-invite
+ * ================================================================ */
+
+/** One row's outcome in a bulk invite. `row` is 1-based (CSV: excluding the header). */
+interface BulkInviteResult {
+  row: number;
+  email: string | null;
+  status: 'created' | 'failed';
+  id?: string;
+  invite_sent?: boolean;
+  error?: string;
+  detail?: string;
+}
+
+/**
+ * Read the bulk-invite rows: a JSON array (or { users: [...] }) of
+ * POST /admin/users bodies, or CSV with the same field names as headers.
+ */
+async function readBulkRows(request: Request): Promise<NewUserFields[] | string> {
+  const contentType = request.headers.get('Content-Type') || '';
+
+  if (contentType.includes('text/csv')) {
+    const rows = parseCSV(await request.text());
+    return rows.map((r) => ({
+      email: r.email || undefined,
+      display_name: r.display_name || undefined,
+      role: r.role || undefined,
+      role_id: r.role_id || null,
+      tenant_id: r.tenant_id || undefined,
+      customer_id: r.customer_id || undefined,
+      customer_name: r.customer_name || undefined,
+    }));
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return 'Invalid JSON body';
+  }
+  const rows = Array.isArray(body) ? body : (body as { users?: unknown })?.users;
+  if (!Array.isArray(rows)) {
+    return 'Body must be an array of users, or { users: [...] }';
+  }
+  return rows.map((r) => (typeof r === 'object' && r !== null ? r : {}) as NewUserFields);
+}
+
+/**
+ * Run `fn` in a savepoint when `sql` is a transaction, so a database error
+ * in one row rolls back that row only and leaves the transaction usable.
+ */
+async function inSavepoint<T>(sql: postgres.Sql, fn: (db: postgres.Sql) => Promise<T>): Promise<T> {
+  if (!('savepoint' in sql)) return fn(sql);
+  return (await (sql as unknown as postgres.TransactionSql).savepoint((sp) =>
+    fn(sp as unknown as postgres.Sql),
+  )) as T;
+}
+
+export async function handleBulkInvite(
+  request: Request,
+  sql: postgres.Sql,
+  env: Env,
+  tenant: TenantInfo,
+): Promise<Response> {
+  const rows = await readBulkRows(request);
+  if (typeof rows === 'string') {
+    return errorResponse(400, rows);
+  }
+  if (rows.length === 0) {
+    return errorResponse(400, 'No users to invite');
+  }
+  if (rows.length > MAX_BULK_INVITES) {
+    return errorResponse(400, `At most ${MAX_BULK_INVITES} users can be invited at once`);
+  }
+
+  // Rows are independent: one failing (even with a database error, see
+  // inSavepoint) doesn't stop the rest
+  const results: BulkInviteResult[] = [];
+  const seen = new Set<string>();
+  for (const [i, fields] of rows.entries()) {
+    const email = typeof fields.email === 'string' ? fields.email : null;
+    const emailLower = email?.toLowerCase();
+
+    if (emailLower && seen.has(emailLower)) {
+      results.push({ row: i + 1, email, status: 'failed', error: 'Duplicate email in this upload' });
+      continue;
+    }
+    if (emailLower) seen.add(emailLower);
+
+    let created: Response | Record<string, unknown>;
+    try {
+      created = await inSavepoint(sql, (db) => createInvitedUser(request, db, env, tenant, fields));
+    } catch (err) {
+      console.error(`[INVITES] Bulk invite row ${i + 1} failed:`, err);
+      results.push({ row: i + 1, email, status: 'failed', error: 'Could not create user' });
+      continue;
+    }
+    if (created instanceof Response) {
+      const err = (await created.json()) as { error: string; detail?: string };
+      results.push({ row: i + 1, email, status: 'failed', error: err.error, detail: err.detail });
+    } else {
+      results.push({
+        row: i + 1,
+        email,
+        status: 'created',
+        id: created.id as string,
+        invite_sent: created.invite_sent as boolean,
+      });
+    }
+  }
+
+  const createdCount = results.filter((r) => r.status === 'created').length;
+  return jsonResponse({
+    total: results.length,
+    created: createdCount,
+    failed: results.length - createdCount,
+    results,
+  });
+}
@@ -0,0 +1,168 @@
+/**
+ * Tenant IP allowlist administration.
+ *
+ * Admin endpoints (security:manage):
+ *   GET    /admin/ip-allowlist?tenant_id=  — A tenant's allowlist (default: caller's tenant)
+ *   POST   /admin/ip-allowlist             — Add a CIDR
+ *   DELETE /admin/ip-allowlist/:id         — Remove a CIDR
+ *
+ * A tenant with at least one entry can only be reached from those
+ * networks; one with none is open. Tenant admins may manage their own
+ * tenant + descendant tenants. Changes that would block the caller's own
+ * current IP are refused. Enforcement is in src/index.ts.
+ */
+
+import type postgres from 'postgres';
+import type { Env, TenantInfo } from '../types';
+import { jsonResponse, errorResponse } from '../utils/response';
+import { normalizeCidr, ipInAllowlist, syncIpAllowlist } from '../utils/ip-allowlist';
+import { recordAudit, clientIp } from '../utils/audit';
+import { tenantInScope } from './admin';
+
+const MAX_ENTRIES_PER_TENANT = 100;
+
+/**
+ * Refuse a change that would leave the caller's own tenant unreachable
+ * from the IP they're calling from.
+ */
+function lockoutError(request: Request, tenant: TenantInfo, tenantId: string, cidrs: string[]): Response | null {
+  if (tenantId !== tenant.tenant_id || cidrs.length === 0) return null;
+  const ip = clientIp(request);
+  if (ipInAllowlist(ip, cidrs)) return null;
+  return errorResponse(
+    400,
+    'Change would lock you out',
+    `Your current IP address (${ip}) would not be on your tenant's allowlist.`,
+  );
+}
+
+/* ================================================================
+ * GET /admin/ip-allowlist
+ * ================================================================ */
+
+export async function handleListIpAllowlist(
+  request: Request,
+  searchParams: URLSearchParams,
+  sql: postgres.Sql,
+  tenant: TenantInfo,
+): Promise<Response> {
+  const tenantId = searchParams.get('tenant_id') || tenant.tenant_id;
+  if (!(await tenantInScope(sql, tenant, tenantId))) {
+    return errorResponse(404, 'Tenant not found');
+  }
+
+  const entries = await sql`
+    SELECT a.id, a.cidr, a.description, a.created_at, u.email AS created_by_email
+    FROM auth_tenant_ip_allowlists a
+    LEFT JOIN auth_users u ON u.id = a.created_by
+    WHERE a.tenant_id = ${tenantId}
+    ORDER BY a.created_at
+  `;
+
+  return jsonResponse({
+    tenant_id: tenantId,
+    enforced: entries.length > 0,
+    entries,
+    your_ip: clientIp(request),
+  });
+}
+
+/* ================================================================
+ * POST /admin/ip-allowlist
+ * ================================================================ */
+
+export async function handleCreateIpAllowlistEntry(
+  request: Request,
+  sql: postgres.Sql,
+  env: Env,
+  tenant: TenantInfo,
+): Promise<Response> {
+  let body: { tenant_id?: string; cidr?: string; description?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(400, 'Invalid JSON body');
+  }
+
+  const tenantId = body.tenant_id || tenant.tenant_id;
+  if (!(await tenantInScope(sql, tenant, tenantId))) {
+    return errorResponse(400, 'Invalid tenant_id');
+  }
+
+  const cidr = typeof body.cidr === 'string' ? normalizeCidr(body.cidr) : null;
+  if (!cidr) {
+    return errorResponse(400, 'Invalid cidr', 'Use an IPv4 or IPv6 network, e.g. 203.0.113.0/24 or 2001:db8::/32, with no host bits set.');
+  }
+
+  const existing = await sql`
+    SELECT cidr FROM auth_tenant_ip_allowlists WHERE tenant_id = ${tenantId}
+  `;
+  if (existing.some((e) => e.cidr === cidr)) {
+    return errorResponse(409, 'This CIDR is already on the allowlist');
+  }
+  if (existing.length >= MAX_ENTRIES_PER_TENANT) {
+    return errorResponse(400, `A tenant can have at most ${MAX_ENTRIES_PER_TENANT} allowlist entries`);
+  }
+
+  const locked = lockoutError(request, tenant, tenantId, [...existing.map((e) => e.cidr as string), cidr]);
+  if (locked) return locked;
+
+  const result = await sql`
+    INSERT INTO auth_tenant_ip_allowlists (tenant_id, cidr, description, created_by)
+    VALUES (${tenantId}, ${cidr}, ${body.description || null}, ${tenant.user_id || null})
+    RETURNING id, tenant_id, cidr, description, created_at
+  `;
+
+  await syncIpAllowlist(sql, env, tenantId);
+
+  await recordAudit(sql, request, {
+    action: 'ip_allowlist.create',
+    tenant,
+    tenant_id: tenantId,
+    target_type: 'ip_allowlist',
+    target_id: result[0].id,
+    after: { cidr, description: body.description || null },
+  });
+
+  return jsonResponse(result[0], 201);
+}
+
+/* ================================================================
+ * DELETE /admin/ip-allowlist/:id
+ * ================================================================ */
+
+export async function handleDeleteIpAllowlistEntry(
+  entryId: string,
+  request: Request,
+  sql: postgres.Sql,
+  env: Env,
+  tenant: TenantInfo,
+): Promise<Response> {
+  const entries = await sql`
+    SELECT id, tenant_id, cidr, description FROM auth_tenant_ip_allowlists WHERE id = ${entryId}
+  `;
+  if (entries.length === 0 || !(await tenantInScope(sql, tenant, entries[0].tenant_id))) {
+    return errorResponse(404, 'Allowlist entry not found');
+  }
+  const entry = entries[0];
+
+  const remaining = await sql`
+    SELECT cidr FROM auth_tenant_ip_allowlists WHERE tenant_id = ${entry.tenant_id} AND id <> ${entryId}
+  `;
+  const locked = lockoutError(request, tenant, entry.tenant_id, remaining.map((e) => e.cidr as string));
+  if (locked) return locked;
+
+  await sql`DELETE FROM auth_tenant_ip_allowlists WHERE id = ${entryId}`;
+  await syncIpAllowlist(sql, env, entry.tenant_id);
+
+  await recordAudit(sql, request, {
+    action: 'ip_allowlist.delete',
+    tenant,
+    tenant_id: entry.tenant_id,
+    target_type: 'ip_allowlist',
+    target_id: entryId,
+    before: { cidr: entry.cidr, description: entry.description },
+  });
+
+  return jsonResponse({ status: 'ok', message: 'Allowlist entry removed' });
+}
@@ -0,0 +1,300 @@
+/**
+ * MFA enrolment route handlers.
+ *
+ * Every user has a second-factor method stored in auth_users.mfa_method:
+ *   'email' — 6-digit code mailed via Brevo on each login (default)
+ *   'totp'  — RFC 6238 code from an authenticator app
+ *
+ * Protected endpoints (JWT required):
+ *   GET  /auth/mfa                — Current MFA method and enrolment status
+ *   POST /auth/mfa/totp/setup     — Generate a pending TOTP secret + otpauth URI
+ *   POST /auth/mfa/totp/confirm   — Confirm enrolment with a code from the app
+ *   POST /auth/mfa/totp/disable   — Switch back to email OTP (requires a TOTP code)
+ *   GET  /auth/me/recovery-codes  — Number of unused recovery codes
+ *   POST /auth/me/recovery-codes  — (Re)generate recovery codes, shown once
+ *
+ * Recovery codes are single-use and accepted by /auth/verify-otp in place
+ * of either factor, so a user without access to their mailbox or
+ * authenticator app can still sign in.
+ */
+
+import type postgres from 'postgres';
+import type { TenantInfo } from '../types';
+import { jsonResponse, errorResponse } from '../utils/response';
+import { generateTOTPSecret, verifyTOTP, buildOtpauthURI } from '../utils/totp';
+import { generateRecoveryCode, normalizeRecoveryCode, hashOTP } from '../utils/crypto';
+import { recordAudit } from '../utils/audit';
+
+/** Number of codes issued per (re)generation. */
+const RECOVERY_CODE_COUNT = 10;
+
+/* ================================================================
+ * GET /auth/mfa
+ * ================================================================ */
+
+export async function handleGetMfa(
+  sql: postgres.Sql,
+  tenant: TenantInfo,
+): Promise<Response> {
+  if (!tenant.user_id) {
+    return errorResponse(400, 'MFA is only available for JWT sessions');
+  }
+
+  const users = await sql`
+    SELECT mfa_method, totp_enrolled_at
+    FROM auth_users
+    WHERE id = ${tenant.user_id}
+  `;
+  if (users.length === 0) {
+    return errorResponse(404, 'User not found');
+  }
+
+  const user = users[0];
+  return jsonResponse({
+    mfa_method: user.mfa_method,
+    totp_enrolled: user.mfa_method === 'totp',
+    totp_enrolled_at: user.totp_enrolled_at,
+  });
+}
+
+/* ================================================================
+ * POST /auth/mfa/totp/setup
+ * ================================================================ */
+
+export async function handleTotpSetup(
+  sql: postgres.Sql,
+  tenant: TenantInfo,
+): Promise<Response> {
+  if (tenant.auth_method !== 'jwt' || !tenant.user_id) {
+    return errorResponse(400, 'MFA is only available for JWT sessions');
+  }
+
+  const users = await sql`
+    SELECT email, mfa_method FROM auth_users WHERE id = ${tenant.user_id}
+  `;
+  if (users.length === 0) {
+    return errorResponse(404, 'User not found');
+  }
+
+  const user = users[0];
+  if (user.mfa_method === 'totp') {
+    return errorResponse(409, 'Authenticator app already enrolled', 'Disable it first to enrol a new device.');
+  }
+
+  // The secret stays pending until the user proves their app generates valid codes
+  const secret = generateTOTPSecret();
+  await sql`
+    UPDATE auth_users
+    SET totp_pending_secret = ${secret}, updated_at = now()
+    WHERE id = ${tenant.user_id}
+  `;
+
+  return jsonResponse({
+    secret,
+    otpauth_uri: buildOtpauthURI(secret, user.email),
+  });
+}
+
+/* ================================================================
+ * POST /auth/mfa/totp/confirm
+ * ================================================================ */
+
+export async function handleTotpConfirm(
+  request: Request,
+  sql: postgres.Sql,
+  tenant: TenantInfo,
+): Promise<Response> {
+  if (tenant.auth_method !== 'jwt' || !tenant.user_id) {
+    return errorResponse(400, 'MFA is only available for JWT sessions');
+  }
+
+  let body: { code?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(400, 'Invalid JSON body');
+  }
+
+  if (!body.code || typeof body.code !== 'string') {
+    return errorResponse(400, 'code is required');
+  }
+
+  const users = await sql`
+    SELECT totp_pending_secret FROM auth_users WHERE id = ${tenant.user_id}
+  `;
+  if (users.length === 0) {
+    return errorResponse(404, 'User not found');
+  }
+
+  const pendingSecret = users[0].totp_pending_secret as string | null;
+  if (!pendingSecret) {
+    return errorResponse(400, 'No enrolment in progress', 'Call /auth/mfa/totp/setup first.');
+  }
+
+  const step = await verifyTOTP(pendingSecret, body.code);
+  if (step === null) {
+    return errorResponse(401, 'Invalid verification code');
+  }
+
+  await sql`
+    UPDATE auth_users
+    SET totp_secret = ${pendingSecret},
+        totp_pending_secret = NULL,
+        totp_last_step = ${step},
+        totp_enrolled_at = now(),
+        mfa_method = 'totp',
+        updated_at = now()
+    WHERE id = ${tenant.user_id}
+  `;
+
+  await recordAudit(sql, request, {
+    action: 'mfa.totp_enroll',
+    tenant,
+    target_type: 'user',
+    target_id: tenant.user_id,
+    after: { mfa_method: 'totp' },
+  });
+
+  return jsonResponse({ status: 'ok', mfa_method: 'totp' });
+}
+
+/* ================================================================
+ * POST /auth/mfa/totp/disable
+ * ================================================================ */
+
+export async function handleTotpDisable(
+  request: Request,
+  sql: postgres.Sql,
+  tenant: TenantInfo,
+): Promise<Response> {
+  if (tenant.auth_method !== 'jwt' || !tenant.user_id) {
+    return errorResponse(400, 'MFA is only available for JWT sessions');
+  }
+
+  let body: { code?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(400, 'Invalid JSON body');
+  }
+
+  if (!body.code || typeof body.code !== 'string') {
+    return errorResponse(400, 'code is required');
+  }
+
+  const users = await sql`
+    SELECT mfa_method, totp_secret, totp_last_step
+    FROM auth_users
+    WHERE id = ${tenant.user_id}
+  `;
+  if (users.length === 0) {
+    return errorResponse(404, 'User not found');
+  }
+
+  const user = users[0];
+  if (user.mfa_method !== 'totp' || !user.totp_secret) {
+    return errorResponse(400, 'Authenticator app is not enrolled');
+  }
+
+  const lastStep = user.totp_last_step === null ? null : Number(user.totp_last_step);
+  const step = await verifyTOTP(user.totp_secret, body.code, lastStep);
+  if (step === null) {
+    return errorResponse(401, 'Invalid verification code');
+  }
+
+  await sql`
+    UPDATE auth_users
+    SET mfa_method = 'email',
+        totp_secret = NULL,
+        totp_pending_secret = NULL,
+        totp_last_step = NULL,
+        totp_enrolled_at = NULL,
+        updated_at = now()
+    WHERE id = ${tenant.user_id}
+  `;
+
+  await recordAudit(sql, request, {
+    action: 'mfa.totp_disable',
+    tenant,
+    target_type: 'user',
+    target_id: tenant.user_id,
+    before: { mfa_method: 'totp' },
+    after: { mfa_method: 'email' },
+  });
+
+  return jsonResponse({ status: 'ok', mfa_method: 'email' });
+}
+
+/* ================================================================
+ * GET /auth/me/recovery-codes
+ * ================================================================ */
+
+export async function handleGetRecoveryCodes(
+  sql: postgres.Sql,
+  tenant: TenantInfo,
+): Promise<Response> {
+  if (!tenant.user_id) {
+    return errorResponse(400, 'Recovery codes are only available for JWT sessions');
+  }
+
+  const rows = await sql`
+    SELECT COUNT(*) FILTER (WHERE used_at IS NULL) AS remaining,
+           MAX(created_at) AS generated_at
+    FROM auth_recovery_codes
+    WHERE user_id = ${tenant.user_id}
+  `;
+
+  return jsonResponse({
+    remaining: parseInt(rows[0].remaining),
+    generated_at: rows[0].generated_at,
+  });
+}
+
+/* ================================================================
+ * POST /auth/me/recovery-codes
+ * ================================================================ */
+
+export async function handleRegenerateRecoveryCodes(
+  request: Request,
+  sql: postgres.Sql,
+  tenant: TenantInfo,
+): Promise<Response> {
+  if (tenant.auth_method !== 'jwt' || !tenant.user_id) {
+    return errorResponse(400, 'Recovery codes are only available for JWT sessions');
+  }
+
+  const codes: string[] = [];
+  const hashes: string[] = [];
+  for (let i = 0; i < RECOVERY_CODE_COUNT; i++) {
+    const code = generateRecoveryCode();
+    codes.push(code);
+    hashes.push(await hashOTP(normalizeRecoveryCode(code)));
+  }
+
+  // Replace the whole set — any previously issued codes stop working.
+  // Used codes are kept for the audit trail.
+  await sql`
+    DELETE FROM auth_recovery_codes
+    WHERE user_id = ${tenant.user_id} AND used_at IS NULL
+  `;
+  for (const hash of hashes) {
+    await sql`
+      INSERT INTO auth_recovery_codes (user_id, code_hash)
+      VALUES (${tenant.user_id}, ${hash})
+    `;
+  }
+
+  await recordAudit(sql, request, {
+    action: 'mfa.recovery_codes_regenerate',
+    tenant,
+    target_type: 'user',
+    target_id: tenant.user_id,
+    metadata: { count: codes.length },
+  });
+
+  return jsonResponse({
+    codes,
+    remaining: codes.length,
+    message: 'Store these codes somewhere safe. They will not be shown again.',
+  }, 201);
+}
@@ -0,0 +1,577 @@
+/**
+ * OIDC single sign-on route handlers.
+ *
+ * Each tenant can register its corporate identity provider (Azure AD,
+ * Google Workspace, …). Users whose email domain matches a provider's
+ * allowed_domains sign in there instead of using password + OTP.
+ *
+ * Public endpoints (no auth required):
+ *   POST /auth/oidc/start     — Email → authorization URL (code + PKCE)
+ *   POST /auth/oidc/callback  — state + code → JWT (same as /auth/verify-otp)
+ *
+ * Admin endpoints:
+ *   GET    /admin/oidc-providers      — List providers
+ *   POST   /admin/oidc-providers      — Create provider
+ *   PUT    /admin/oidc-providers/:id  — Update provider
+ *   DELETE /admin/oidc-providers/:id  — Delete provider
+ *
+ * Users are linked just-in-time by email_lower: an existing account in the
+ * provider's tenant is bound to the IdP subject on first SSO login, and an
+ * unknown email gets a new account with the provider's default role. The
+ * IdP must assert email_verified = true, unless the provider is set to
+ * trust_unverified_email (for IdPs that never send the claim).
+ */
+
+import type postgres from 'postgres';
+import type { Env, TenantInfo } from '../types';
+import { jsonResponse, errorResponse } from '../utils/response';
+import { getDiscovery, verifyIdToken, randomToken, pkceChallenge, isAllowedIssuerUrl } from '../utils/oidc';
+import { issueSession, recordLoginFailure } from './auth';
+import { recordAudit } from '../utils/audit';
+
+const STATE_TTL_SECONDS = 600;
+
+interface PendingAuthorization {
+  provider_id: string;
+  code_verifier: string;
+  nonce: string;
+  redirect_uri: string;
+}
+
+interface ProviderInput {
+  tenant_id?: string;
+  name?: string;
+  issuer?: string;
+  client_id?: string;
+  client_secret?: string | null;
+  allowed_domains?: string[];
+  default_role?: string;
+  default_customer_name?: string | null;
+  trust_unverified_email?: boolean;
+  is_active?: boolean;
+}
+
+/** Where the IdP sends the browser back to; the frontend posts code + state to /auth/oidc/callback. */
+function redirectUri(env: Env): string {
+  return env.OIDC_REDIRECT_URI || `${env.FRONTEND_URL || 'https://simsy-reporting.pages.dev'}/index.html`;
+}
+
+function emailDomain(email: string): string {
+  return email.slice(email.lastIndexOf('@') + 1).toLowerCase();
+}
+
+/* ================================================================
+ * POST /auth/oidc/start
+ * ================================================================ */
+
+export async function handleOidcStart(
+  request: Request,
+  sql: postgres.Sql,
+  env: Env,
+): Promise<Response> {
+  let body: { email?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(400, 'Invalid JSON body');
+  }
+
+  if (!body.email || !body.email.includes('@')) {
+    return errorResponse(400, 'Email is required');
+  }
+
+  const providers = await sql`
+    SELECT id, issuer, client_id
+    FROM auth_oidc_providers
+    WHERE is_active = true
+      AND allowed_domains ? ${emailDomain(body.email)}
+    ORDER BY created_at
+    LIMIT 1
+  `;
+  if (providers.length === 0) {
+    return errorResponse(404, 'Single sign-on is not configured for this email domain');
+  }
+  const provider = providers[0];
+
+  let discovery;
+  try {
+    discovery = await getDiscovery(provider.issuer, env);
+  } catch (err) {
+    console.error(`[AUTH] OIDC discovery failed for ${provider.issuer}:`, err);
+    return errorResponse(502, 'Identity provider unavailable', 'Please try again in a moment.');
+  }
+
+  const state = randomToken();
+  const pending: PendingAuthorization = {
+    provider_id: provider.id,
+    code_verifier: randomToken(48),
+    nonce: randomToken(),
+    redirect_uri: redirectUri(env),
+  };
+  await env.TENANT_KV.put(`oidc_state:${state}`, JSON.stringify(pending), {
+    expirationTtl: STATE_TTL_SECONDS,
+  });
+
+  const params = new URLSearchParams({
+    response_type: 'code',
+    client_id: provider.client_id,
+    redirect_uri: pending.redirect_uri,
+    scope: 'openid email profile',
+    state,
+    nonce: pending.nonce,
+    code_challenge: await pkceChallenge(pending.code_verifier),
+    code_challenge_method: 'S256',
+    login_hint: body.email,
+  });
+
+  return jsonResponse({
+    status: 'redirect',
+    authorization_url: `${discovery.authorization_endpoint}?${params.toString()}`,
+    expires_in: STATE_TTL_SECONDS,
+  });
+}
+
+/* ================================================================
+ * POST /auth/oidc/callback
+ * ================================================================ */
+
+export async function handleOidcCallback(
+  request: Request,
+  sql: postgres.Sql,
+  env: Env,
+): Promise<Response> {
+  let body: { state?: string; code?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(400, 'Invalid JSON body');
+  }
+
+  if (!body.state || !body.code) {
+    return errorResponse(400, 'state and code are required');
+  }
+
+  // 1. Consume the pending authorization (single use)
+  const pending = (await env.TENANT_KV.get(`oidc_state:${body.state}`, 'json')) as PendingAuthorization | null;
+  if (!pending) {
+    return errorResponse(401, 'Invalid or expired sign-on session');
+  }
+  await env.TENANT_KV.delete(`oidc_state:${body.state}`);
+
+  const providers = await sql`
+    SELECT id, tenant_id, issuer, client_id, client_secret, allowed_domains,
+           default_role, default_customer_name, trust_unverified_email
+    FROM auth_oidc_providers
+    WHERE id = ${pending.provider_id} AND is_active = true
+  `;
+  if (providers.length === 0) {
+    return errorResponse(401, 'Single sign-on provider is no longer available');
+  }
+  const provider = providers[0];
+
+  // 2. Exchange the code for tokens
+  let claims;
+  try {
+    const discovery = await getDiscovery(provider.issuer, env);
+    const form = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code: body.code,
+      redirect_uri: pending.redirect_uri,
+      client_id: provider.client_id,
+      code_verifier: pending.code_verifier,
+    });
+    if (provider.client_secret) form.set('client_secret', provider.client_secret);
+
+    const tokenRes = await fetch(discovery.token_endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Accept: 'application/json',
+      },
+      body: form.toString(),
+    });
+    if (!tokenRes.ok) {
+      const detail = await tokenRes.text().catch(() => 'unknown error');
+      throw new Error(`Token endpoint returned ${tokenRes.status}: ${detail}`);
+    }
+    const tokens = (await tokenRes.json()) as { id_token?: string };
+    if (!tokens.id_token) throw new Error('Token response has no id_token');
+
+    // 3. Validate the id_token against the provider's JWKS
+    claims = await verifyIdToken(
+      tokens.id_token,
+      { issuer: provider.issuer, clientId: provider.client_id, nonce: pending.nonce, jwksUri: discovery.jwks_uri },
+      env,
+    );
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.warn(`[AUTH] OIDC sign-on failed for provider ${provider.id}: ${msg}`);
+    await recordLoginFailure(request, sql, 'sso_error', { tenant_id: provider.tenant_id }, {
+      method: 'oidc',
+      provider_id: provider.id,
+      detail: msg,
+    });
+    return errorResponse(401, 'Single sign-on failed', 'Please try again or contact your administrator.');
+  }
+
+  // 4. The IdP must vouch for an email in one of the provider's domains
+  const emailVerified =
+    claims.email_verified === true ||
+    claims.email_verified === 'true' ||
+    (claims.email_verified === undefined && provider.trust_unverified_email === true);
+  if (!claims.email || !emailVerified) {
+    await recordLoginFailure(request, sql, 'sso_unverified_email', { email: claims.email, tenant_id: provider.tenant_id }, {
+      method: 'oidc',
+      provider_id: provider.id,
+    });
+    return errorResponse(403, 'Identity provider did not return a verified email');
+  }
+  const allowedDomains = provider.allowed_domains as string[];
+  if (!allowedDomains.includes(emailDomain(claims.email))) {
+    await recordLoginFailure(request, sql, 'sso_domain_not_allowed', { email: claims.email, tenant_id: provider.tenant_id }, {
+      method: 'oidc',
+      provider_id: provider.id,
+    });
+    return errorResponse(403, 'Email domain is not permitted for this sign-on provider');
+  }
+
+  // 5. Just-in-time link or provision by email_lower
+  const users = await sql`
+    SELECT id, tenant_id, is_active, password_hash, last_login_at,
+           oidc_provider_id, oidc_subject, deleted_at
+    FROM auth_users
+    WHERE email_lower = ${claims.email.toLowerCase()}
+  `;
+
+  let userId: string;
+  if (users.length > 0) {
+    const user = users[0];
+    const failed = (reason: string) =>
+      recordLoginFailure(request, sql, reason, { id: user.id, email: claims.email, tenant_id: user.tenant_id }, {
+        method: 'oidc',
+        provider_id: provider.id,
+      });
+
+    if (user.tenant_id !== provider.tenant_id) {
+      await failed('sso_wrong_tenant');
+      return errorResponse(403, 'This account belongs to a different organisation');
+    }
+    if (user.oidc_subject && (user.oidc_provider_id !== provider.id || user.oidc_subject !== claims.sub)) {
+      await failed('sso_identity_mismatch');
+      return errorResponse(403, 'This account is linked to a different identity');
+    }
+
+    // An invited user who has never set a password may activate via SSO;
+    // anyone else who is inactive (or deleted) was disabled by an administrator.
+    const pendingInvite = !user.password_hash && !user.oidc_subject && !user.last_login_at;
+    if (user.deleted_at || (!user.is_active && !pendingInvite)) {
+      await failed('disabled');
+      return errorResponse(403, 'Account disabled', 'Contact your administrator.');
+    }
+
+    await sql`
+      UPDATE auth_users
+      SET oidc_provider_id = ${provider.id},
+          oidc_subject = ${claims.sub},
+          is_active = true,
+          updated_at = now()
+      WHERE id = ${user.id}
+    `;
+    userId = user.id;
+
+    if (!user.oidc_subject) {
+      await recordAudit(sql, request, {
+        action: 'user.sso_link',
+        actor: { user_id: user.id, email: claims.email },
+        tenant_id: user.tenant_id,
+        target_type: 'user',
+        target_id: user.id,
+        after: { oidc_provider_id: provider.id, oidc_subject: claims.sub },
+      });
+    }
+  } else {
+    const created = await sql`
+      INSERT INTO auth_users
+        (email, password_hash, salt, display_name, role, tenant_id, customer_name,
+         is_active, oidc_provider_id, oidc_subject)
+      VALUES (
+        ${claims.email}, ${null}, ${null},
+        ${claims.name || claims.email},
+        ${provider.default_role},
+        ${provider.tenant_id},
+        ${provider.default_role === 'customer' ? provider.default_customer_name : null},
+        true,
+        ${provider.id},
+        ${claims.sub}
+      )
+      RETURNING id, email, display_name, role, tenant_id, customer_name, is_active
+    `;
+    userId = created[0].id;
+
+    await recordAudit(sql, request, {
+      action: 'user.create',
+      actor: { user_id: userId, email: claims.email },
+      tenant_id: provider.tenant_id,
+      target_type: 'user',
+      target_id: userId,
+      after: { ...created[0] },
+      metadata: { via: 'oidc', provider_id: provider.id },
+    });
+  }
+
+  // 6. Issue the session exactly as /auth/verify-otp does
+  return issueSession(request, sql, env, userId, 'oidc');
+}
+
+/* ================================================================
+ * Admin: provider management
+ * ================================================================ */
+
+/** Provider fields recorded in the audit log (client_secret is redacted there). */
+function providerSnapshot(r: Record<string, unknown>): Record<string, unknown> {
+  return {
+    tenant_id: r.tenant_id,
+    name: r.name,
+    issuer: r.issuer,
+    client_id: r.client_id,
+    client_secret: r.client_secret,
+    allowed_domains: r.allowed_domains,
+    default_role: r.default_role,
+    default_customer_name: r.default_customer_name,
+    trust_unverified_email: r.trust_unverified_email,
+    is_active: r.is_active,
+  };
+}
+
+function providerRow(r: Record<string, unknown>) {
+  return {
+    id: r.id,
+    tenant_id: r.tenant_id,
+    name: r.name,
+    issuer: r.issuer,
+    client_id: r.client_id,
+    has_client_secret: !!r.client_secret,
+    allowed_domains: r.allowed_domains,
+    default_role: r.default_role,
+    default_customer_name: r.default_customer_name || null,
+    trust_unverified_email: r.trust_unverified_email,
+    is_active: r.is_active,
+    created_at: r.created_at,
+    updated_at: r.updated_at,
+  };
+}
+
+/** Validate provider fields; `partial` allows omitted fields (updates). */
+async function validateProvider(
+  input: ProviderInput,
+  sql: postgres.Sql,
+  partial: boolean,
+): Promise<string | null> {
+  if (!partial) {
+    if (!input.tenant_id || !input.name || !input.issuer || !input.client_id || !input.allowed_domains) {
+      return 'Missing required fields: tenant_id, name, issuer, client_id, allowed_domains';
+    }
+  }
+
+  if (input.issuer !== undefined && !isAllowedIssuerUrl(input.issuer)) {
+    return 'issuer must be an https URL (http is only allowed for localhost)';
+  }
+
+  if (input.allowed_domains !== undefined) {
+    if (
+      !Array.isArray(input.allowed_domains) ||
+      input.allowed_domains.length === 0 ||
+      !input.allowed_domains.every((d) => typeof d === 'string' && /^[a-z0-9.-]+\.[a-z]{2,}$/i.test(d))
+    ) {
+      return 'allowed_domains must be a non-empty array of domain names';
+    }
+  }
+
+  if (input.default_role !== undefined && !['tenant', 'customer'].includes(input.default_role)) {
+    return 'default_role must be tenant or customer';
+  }
+
+  if (input.default_role === 'customer' && !input.default_customer_name) {
+    return 'default_customer_name is required when default_role is customer';
+  }
+
+  if (input.trust_unverified_email !== undefined && typeof input.trust_unverified_email !== 'boolean') {
+    return 'trust_unverified_email must be a boolean';
+  }
+
+  if (input.tenant_id !== undefined) {
+    const tenants = await sql`SELECT tenant_id FROM rpt_tenants WHERE tenant_id = ${input.tenant_id}`;
+    if (tenants.length === 0) return 'Invalid tenant_id';
+  }
+
+  return null;
+}
+
+export async function handleListOidcProviders(
+  sql: postgres.Sql,
+): Promise<Response> {
+  const rows = await sql`
+    SELECT * FROM auth_oidc_providers ORDER BY tenant_id, name
+  `;
+  return jsonResponse({ data: rows.map(providerRow) });
+}
+
+export async function handleCreateOidcProvider(
+  request: Request,
+  sql: postgres.Sql,
+  tenant: TenantInfo,
+): Promise<Response> {
+  let body: ProviderInput;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(400, 'Invalid JSON body');
+  }
+
+  const invalid = await validateProvider({ default_role: 'tenant', ...body }, sql, false);
+  if (invalid) return errorResponse(400, invalid);
+
+  const domains = body.allowed_domains!.map((d) => d.toLowerCase());
+  const result = await sql`
+    INSERT INTO auth_oidc_providers
+      (tenant_id, name, issuer, client_id, client_secret, allowed_domains,
+       default_role, default_customer_name, trust_unverified_email, is_active, created_by)
+    VALUES (
+      ${body.tenant_id!}, ${body.name!}, ${body.issuer!}, ${body.client_id!},
+      ${body.client_secret || null},
+      ${JSON.stringify(domains)},
+      ${body.default_role || 'tenant'},
+      ${body.default_customer_name || null},
+      ${body.trust_unverified_email === true},
+      ${body.is_active !== false},
+      ${tenant.user_id || null}
+    )
+    RETURNING *
+  `;
+
+  await recordAudit(sql, request, {
+    action: 'oidc_provider.create',
+    tenant,
+    tenant_id: result[0].tenant_id,
+    target_type: 'oidc_provider',
+    target_id: result[0].id,
+    after: providerSnapshot(result[0]),
+  });
+
+  return jsonResponse(providerRow(result[0]), 201);
+}
+
+export async function handleUpdateOidcProvider(
+  providerId: string,
+  request: Request,
+  sql: postgres.Sql,
+  tenant: TenantInfo,
+): Promise<Response> {
+  let body: ProviderInput;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(400, 'Invalid JSON body');
+  }
+
+  const existing = await sql`SELECT * FROM auth_oidc_providers WHERE id = ${providerId}`;
+  if (existing.length === 0) {
+    return errorResponse(404, 'Provider not found');
+  }
+
+  // Validate against the merged result so role/customer stay consistent
+  const merged: ProviderInput = {
+    default_role: existing[0].default_role,
+    default_customer_name: existing[0].default_customer_name,
+    ...body,
+  };
+  const invalid = await validateProvider(merged, sql, true);
+  if (invalid) return errorResponse(400, invalid);
+
+  const updates: string[] = [];
+  const params: (string | boolean | null)[] = [];
+  let paramIndex = 0;
+
+  const allowedFields: Record<string, string> = {
+    tenant_id: 'tenant_id',
+    name: 'name',
+    issuer: 'issuer',
+    client_id: 'client_id',
+    client_secret: 'client_secret',
+    allowed_domains: 'allowed_domains',
+    default_role: 'default_role',
+    default_customer_name: 'default_customer_name',
+    trust_unverified_email: 'trust_unverified_email',
+    is_active: 'is_active',
+  };
+
+  for (const [key, column] of Object.entries(allowedFields)) {
+    const value = body[key as keyof ProviderInput];
+    if (value !== undefined) {
+      paramIndex++;
+      updates.push(`${column} = $${paramIndex}`);
+      params.push(
+        key === 'allowed_domains'
+          ? JSON.stringify((value as string[]).map((d) => d.toLowerCase()))
+          : (value as string | boolean | null),
+      );
+    }
+  }
+
+  if (updates.length === 0) {
+    return errorResponse(400, 'No valid fields to update');
+  }
+
+  updates.push('updated_at = now()');
+  paramIndex++;
+  params.push(providerId);
+
+  const result = await sql.unsafe(
+    `UPDATE auth_oidc_providers SET ${updates.join(', ')} WHERE id = $${paramIndex} RETURNING *`,
+    params as any[],
+  );
+
+  await recordAudit(sql, request, {
+    action: 'oidc_provider.update',
+    tenant,
+    tenant_id: result[0].tenant_id,
+    target_type: 'oidc_provider',
+    target_id: providerId,
+    before: providerSnapshot(existing[0]),
+    after: providerSnapshot(result[0]),
+  });
+
+  return jsonResponse(providerRow(result[0]));
+}
+
+export async function handleDeleteOidcProvider(
+  providerId: string,
+  request: Request,
+  sql: postgres.Sql,
+  tenant: TenantInfo,
+): Promise<Response> {
+  const deleted = await sql`
+    DELETE FROM auth_oidc_providers WHERE id = ${providerId} RETURNING *
+  `;
+  if (deleted.length === 0) {
+    return errorResponse(404, 'Provider not found');
+  }
+
+  // Linked users keep their accounts; they fall back to password login
+  await sql`
+    UPDATE auth_users
+    SET oidc_provider_id = NULL, oidc_subject = NULL, updated_at = now()
+    WHERE oidc_provider_id = ${providerId}
+  `;
+
+  await recordAudit(sql, request, {
+    action: 'oidc_provider.delete',
+    tenant,
+    tenant_id: deleted[0].tenant_id,
+    target_type: 'oidc_provider',
+    target_id: providerId,
+    before: providerSnapshot(deleted[0]),
+  });
+
+  return jsonResponse({ status: 'ok', message: 'Provider deleted' });
+}
@@ -0,0 +1,161 @@
+/**
+ * Password policy administration.
+ *
+ * Admin endpoints (security:manage):
+ *   GET /admin/password-policy?tenant_id=  — Effective policy (default: caller's tenant)
+ *   PUT /admin/password-policy             — Set a tenant's policy
+ *
+ * Tenant admins may manage the policy of their own tenant + descendant tenants.
+ * The policy is enforced by src/utils/password-policy.ts.
+ */
+
+import type postgres from 'postgres';
+import type { TenantInfo } from '../types';
+import { jsonResponse, errorResponse } from '../utils/response';
+import { getPasswordPolicy, DEFAULT_PASSWORD_POLICY, type PasswordPolicy } from '../utils/password-policy';
+import { recordAudit } from '../utils/audit';
+import { tenantInScope } from './admin';
+
+const MIN_LENGTH_FLOOR = 8;
+const MIN_LENGTH_CEILING = 128;
+const MAX_HISTORY_COUNT = 24;
+const MAX_AGE_CEILING_DAYS = 3650;
+
+const BOOLEAN_FIELDS = [
+  'require_uppercase',
+  'require_lowercase',
+  'require_digit',
+  'require_symbol',
+  'disallow_personal_info',
+] as const;
+
+/** Merge and validate a policy update; returns the new policy or an error message. */
+function parsePolicy(current: PasswordPolicy, body: Record<string, unknown>): PasswordPolicy | string {
+  const policy = { ...current };
+
+  if (body.min_length !== undefined) {
+    const n = body.min_length;
+    if (!Number.isInteger(n) || (n as number) < MIN_LENGTH_FLOOR || (n as number) > MIN_LENGTH_CEILING) {
+      return `min_length must be an integer between ${MIN_LENGTH_FLOOR} and ${MIN_LENGTH_CEILING}`;
+    }
+    policy.min_length = n as number;
+  }
+
+  for (const field of BOOLEAN_FIELDS) {
+    if (body[field] !== undefined) {
+      if (typeof body[field] !== 'boolean') return `${field} must be a boolean`;
+      policy[field] = body[field] as boolean;
+    }
+  }
+
+  if (body.history_count !== undefined) {
+    const n = body.history_count;
+    if (!Number.isInteger(n) || (n as number) < 0 || (n as number) > MAX_HISTORY_COUNT) {
+      return `history_count must be an integer between 0 and ${MAX_HISTORY_COUNT}`;
+    }
+    policy.history_count = n as number;
+  }
+
+  if (body.max_age_days !== undefined) {
+    const n = body.max_age_days;
+    if (n !== null && (!Number.isInteger(n) || (n as number) < 1 || (n as number) > MAX_AGE_CEILING_DAYS)) {
+      return `max_age_days must be null or an integer between 1 and ${MAX_AGE_CEILING_DAYS}`;
+    }
+    policy.max_age_days = n as number | null;
+  }
+
+  return policy;
+}
+
+/* ================================================================
+ * GET /admin/password-policy
+ * ================================================================ */
+
+export async function handleGetPasswordPolicy(
+  searchParams: URLSearchParams,
+  sql: postgres.Sql,
+  tenant: TenantInfo,
+): Promise<Response> {
+  const tenantId = searchParams.get('tenant_id') || tenant.tenant_id;
+  if (!(await tenantInScope(sql, tenant, tenantId))) {
+    return errorResponse(404, 'Tenant not found');
+  }
+
+  const rows = await sql`SELECT updated_at FROM auth_password_policies WHERE tenant_id = ${tenantId}`;
+
+  return jsonResponse({
+    tenant_id: tenantId,
+    ...(await getPasswordPolicy(sql, tenantId)),
+    is_default: rows.length === 0,
+    updated_at: rows[0]?.updated_at ?? null,
+    defaults: DEFAULT_PASSWORD_POLICY,
+  });
+}
+
+/* ================================================================
+ * PUT /admin/password-policy
+ * ================================================================ */
+
+export async function handleUpdatePasswordPolicy(
+  request: Request,
+  sql: postgres.Sql,
+  tenant: TenantInfo,
+): Promise<Response> {
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(400, 'Invalid JSON body');
+  }
+
+  const tenantId = typeof body.tenant_id === 'string' ? body.tenant_id : tenant.tenant_id;
+  if (!(await tenantInScope(sql, tenant, tenantId))) {
+    return errorResponse(400, 'Invalid tenant_id');
+  }
+
+  const before = await getPasswordPolicy(sql, tenantId);
+  const policy = parsePolicy(before, body);
+  if (typeof policy === 'string') {
+    return errorResponse(400, policy);
+  }
+
+  const result = await sql`
+    INSERT INTO auth_password_policies
+      (tenant_id, min_length, require_uppercase, require_lowercase, require_digit, require_symbol,
+       disallow_personal_info, history_count, max_age_days, updated_by, updated_at)
+    VALUES (
+      ${tenantId}, ${policy.min_length}, ${policy.require_uppercase}, ${policy.require_lowercase},
+      ${policy.require_digit}, ${policy.require_symbol}, ${policy.disallow_personal_info},
+      ${policy.history_count}, ${policy.max_age_days}, ${tenant.user_id || null}, now()
+    )
+    ON CONFLICT (tenant_id) DO UPDATE SET
+      min_length = EXCLUDED.min_length,
+      require_uppercase = EXCLUDED.require_uppercase,
+      require_lowercase = EXCLUDED.require_lowercase,
+      require_digit = EXCLUDED.require_digit,
+      require_symbol = EXCLUDED.require_symbol,
+      disallow_personal_info = EXCLUDED.disallow_personal_info,
+      history_count = EXCLUDED.history_count,
+      max_age_days = EXCLUDED.max_age_days,
+      updated_by = EXCLUDED.updated_by,
+      updated_at = now()
+    RETURNING updated_at
+  `;
+
+  await recordAudit(sql, request, {
+    action: 'password_policy.update',
+    tenant,
+    tenant_id: tenantId,
+    target_type: 'password_policy',
+    target_id: tenantId,
+    before: { ...before },
+    after: { ...policy },
+  });
+
+  return jsonResponse({
+    tenant_id: tenantId,
+    ...policy,
+    is_default: false,
+    updated_at: result[0].updated_at,
+  });
+}
@@ -0,0 +1,186 @@
+/**
+ * User preference routes.
+ *
+ *   GET /auth/me/preferences  — The caller's preferences (defaults filled in)
+ *   PUT /auth/me/preferences  — Update some or all of them
+ *
+ * Fields: timezone (IANA), locale (BCP 47), currency (ISO 4217 or null),
+ * default_tenant_id / default_customer_name (dashboard filters, null to
+ * clear) and email_notifications ({ new_sign_in, recovery_code_used,
+ * password_changed } booleans).
+ *
+ * The notifications are security alerts, so turning one off needs a
+ * second factor: the first PUT answers `otp_required` (emailing a code
+ * unless the user has TOTP), and the same PUT repeated with `code`
+ * applies it. Turning them back on needs nothing extra.
+ */
+
+import type postgres from 'postgres';
+import type { Env, TenantInfo } from '../types';
+import { jsonResponse, errorResponse } from '../utils/response';
+import {
+  getUserPreferences,
+  isValidTimezone,
+  isValidLocale,
+  NOTIFICATION_TYPES,
+  type UserPreferences,
+} from '../utils/preferences';
+import { recordAudit } from '../utils/audit';
+import { tenantInScope } from './admin';
+import { verifyStepUpCode, type StepUpUser } from './auth';
+
+/** Merge and validate a preferences update; returns the result or an error message. */
+async function parsePreferences(
+  sql: postgres.Sql,
+  tenant: TenantInfo,
+  current: UserPreferences,
+  body: Record<string, unknown>,
+): Promise<UserPreferences | string> {
+  const prefs = { ...current, email_notifications: { ...current.email_notifications } };
+
+  if (body.timezone !== undefined) {
+    if (typeof body.timezone !== 'string' || !isValidTimezone(body.timezone)) {
+      return 'timezone must be an IANA zone name, e.g. "Europe/London"';
+    }
+    prefs.timezone = body.timezone;
+  }
+
+  if (body.locale !== undefined) {
+    if (typeof body.locale !== 'string' || !isValidLocale(body.locale)) {
+      return 'locale must be a BCP 47 language tag, e.g. "en-GB"';
+    }
+    prefs.locale = Intl.getCanonicalLocales(body.locale)[0];
+  }
+
+  if (body.currency !== undefined) {
+    if (body.currency !== null && (typeof body.currency !== 'string' || !/^[A-Za-z]{3}$/.test(body.currency))) {
+      return 'currency must be null or an ISO 4217 code, e.g. "GBP"';
+    }
+    prefs.currency = body.currency === null ? null : (body.currency as string).toUpperCase();
+  }
+
+  if (body.default_tenant_id !== undefined) {
+    if (body.default_tenant_id !== null) {
+      if (typeof body.default_tenant_id !== 'string' || !(await tenantInScope(sql, tenant, body.default_tenant_id))) {
+        return 'default_tenant_id must be null or a tenant you can access';
+      }
+    }
+    prefs.default_tenant_id = body.default_tenant_id as string | null;
+  }
+
+  if (body.default_customer_name !== undefined) {
+    if (body.default_customer_name !== null && typeof body.default_customer_name !== 'string') {
+      return 'default_customer_name must be a string or null';
+    }
+    prefs.default_customer_name = (body.default_customer_name as string | null) || null;
+  }
+
+  if (body.email_notifications !== undefined) {
+    const n = body.email_notifications;
+    if (typeof n !== 'object' || n === null || Array.isArray(n)) {
+      return 'email_notifications must be an object';
+    }
+    for (const [type, enabled] of Object.entries(n)) {
+      if (!(NOTIFICATION_TYPES as readonly string[]).includes(type)) {
+        return `Unknown notification type: ${type}. Must be one of: ${NOTIFICATION_TYPES.join(', ')}`;
+      }
+      if (typeof enabled !== 'boolean') return `email_notifications.${type} must be a boolean`;
+      prefs.email_notifications[type as keyof UserPreferences['email_notifications']] = enabled;
+    }
+  }
+
+  return prefs;
+}
+
+/* ================================================================
+ * GET /auth/me/preferences
+ * ================================================================ */
+
+export async function handleGetPreferences(
+  sql: postgres.Sql,
+  tenant: TenantInfo,
+): Promise<Response> {
+  if (!tenant.user_id) {
+    return errorResponse(400, 'Preferences are only available for user sessions');
+  }
+
+  return jsonResponse(await getUserPreferences(sql, tenant.user_id));
+}
+
+/* ================================================================
+ * PUT /auth/me/preferences
+ * ================================================================ */
+
+export async function handleUpdatePreferences(
+  request: Request,
+  sql: postgres.Sql,
+  env: Env,
+  tenant: TenantInfo,
+): Promise<Response> {
+  if (tenant.auth_method !== 'jwt' || !tenant.user_id) {
+    return errorResponse(400, 'Preferences can only be changed from a JWT session');
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(400, 'Invalid JSON body');
+  }
+
+  const current = await getUserPreferences(sql, tenant.user_id);
+  const prefs = await parsePreferences(sql, tenant, current, body);
+  if (typeof prefs === 'string') {
+    return errorResponse(400, prefs);
+  }
+
+  // Silencing a security alert needs a second factor
+  const disabled = NOTIFICATION_TYPES.filter(
+    (type) => current.email_notifications[type] && !prefs.email_notifications[type],
+  );
+  if (disabled.length > 0) {
+    if (body.code !== undefined && typeof body.code !== 'string') {
+      return errorResponse(400, 'code must be a string');
+    }
+    const users = await sql`
+      SELECT id, email, display_name, mfa_method, totp_secret, totp_last_step
+      FROM auth_users
+      WHERE id = ${tenant.user_id}
+    `;
+    if (users.length === 0) {
+      return errorResponse(404, 'User not found');
+    }
+    const code = body.code as string | undefined;
+    const challenge = await verifyStepUpCode(sql, env, users[0] as StepUpUser, 'notification_optout', code);
+    if (challenge) return challenge;
+
+    await recordAudit(sql, request, {
+      action: 'user.notifications_disabled',
+      tenant,
+      target_type: 'user',
+      target_id: tenant.user_id,
+      metadata: { notifications: disabled },
+    });
+  }
+
+  await sql`
+    INSERT INTO auth_user_preferences
+      (user_id, timezone, locale, currency, default_tenant_id, default_customer_name,
+       email_notifications, updated_at)
+    VALUES (
+      ${tenant.user_id}, ${prefs.timezone}, ${prefs.locale}, ${prefs.currency},
+      ${prefs.default_tenant_id}, ${prefs.default_customer_name},
+      ${JSON.stringify(prefs.email_notifications)}, now()
+    )
+    ON CONFLICT (user_id) DO UPDATE SET
+      timezone = EXCLUDED.timezone,
+      locale = EXCLUDED.locale,
+      currency = EXCLUDED.currency,
+      default_tenant_id = EXCLUDED.default_tenant_id,
+      default_customer_name = EXCLUDED.default_customer_name,
+      email_notifications = EXCLUDED.email_notifications,
+      updated_at = now()
+  `;
+
+  return jsonResponse(prefs);
+}
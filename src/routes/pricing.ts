@@ -11,14 +11,24 @@
  * Revenue = monthly_price × billable_endpoint_count
  * The monthly_price is the fixed monthly charge per endpoint for a bundle.
  * A billable endpoint is one that had a Live, Active, or Depleted
- * bundle instance overlapping the month.
+ * bundle instance overlapping the month. Months run midnight to midnight
+ * in the caller's timezone preference (UTC by default).
  */
 
 import type postgres from 'postgres';
 import type { Env, TenantInfo } from '../types';
 import type { RateLimitResult } from '../middleware/rate-limit';
-import { tenantFilter, isPlatformAdmin } from '../db';
+import {
+  tenantFilter,
+  customerFilter,
+  customerNameMatch,
+  isPlatformAdmin,
+  usageDayColumn,
+  usageDayBound,
+} from '../db';
 import { jsonResponse, errorResponse } from '../utils/response';
+import { recordAudit } from '../utils/audit';
+import { getUserTimezone } from '../utils/preferences';
 
 interface PriceEntry {
   tenant_id: string;
@@ -30,6 +40,13 @@ interface StoredPricing {
   prices: PriceEntry[];
 }
 
+/** Prices keyed by "tenant_id/bundle_moniker", so audit diffs show each changed price. */
+function priceMap(prices: PriceEntry[]): Record<string, number> {
+  const map: Record<string, number> = {};
+  for (const p of prices) map[`${p.tenant_id}/${p.bundle_moniker}`] = p.monthly_price;
+  return map;
+}
+
 // ── GET /admin/pricing ─────────────────────────────────────────────
 
 export async function handleGetPricing(
@@ -73,6 +90,8 @@ export async function handleGetPricing(
 
 export async function handleSavePricing(
   request: Request,
+  sql: postgres.Sql,
+  tenant: TenantInfo,
   env: Env,
   rateLimit: RateLimitResult,
 ): Promise<Response> {
@@ -105,8 +124,17 @@ export async function handleSavePricing(
   // Only store non-zero entries
   const nonZero = body.prices.filter((p) => p.monthly_price > 0);
 
+  const previous = (await env.TENANT_KV.get('pricing:all', 'json')) as StoredPricing | null;
   await env.TENANT_KV.put('pricing:all', JSON.stringify({ prices: nonZero }));
 
+  await recordAudit(sql, request, {
+    action: 'pricing.update',
+    tenant,
+    target_type: 'pricing',
+    before: priceMap(previous?.prices || []),
+    after: priceMap(nonZero),
+  });
+
   return jsonResponse({ status: 'ok', saved: nonZero.length }, 200, rateLimit);
 }
 
@@ -139,12 +167,13 @@ export async function handleRevenueMonthly(
   }
 
   // Customer scoping
-  if (tenant.role === 'customer' && tenant.customer_name) {
-    filters.push(`customer_name = $${paramIdx}`);
-    params.push(tenant.customer_name);
-    paramIdx++;
+  const cf = customerFilter(tenant, paramIdx);
+  if (cf) {
+    filters.push(cf.clause);
+    params.push(...cf.params);
+    paramIdx = cf.nextIdx;
   } else if (isPlatformAdmin(tenant) && searchParams.get('customer')) {
-    filters.push(`customer_name = $${paramIdx}`);
+    filters.push(customerNameMatch('customer_name', paramIdx));
     params.push(searchParams.get('customer'));
     paramIdx++;
   }
@@ -156,6 +185,11 @@ export async function handleRevenueMonthly(
   params.push((months - 1).toString());
   paramIdx++;
 
+  const tz = await getUserTimezone(sql, tenant);
+  const tzParamIdx = paramIdx;
+  params.push(tz);
+  paramIdx++;
+
   const data = await sql.unsafe(
     `
     WITH deduped AS (
@@ -172,8 +206,8 @@ export async function handleRevenueMonthly(
     ),
     months AS (
       SELECT generate_series(
-        date_trunc('month', NOW() - ($${monthsParamIdx} || ' months')::interval),
-        date_trunc('month', NOW()),
+        date_trunc('month', (NOW() AT TIME ZONE $${tzParamIdx}) - ($${monthsParamIdx} || ' months')::interval),
+        date_trunc('month', NOW() AT TIME ZONE $${tzParamIdx}),
         '1 month'
       )::date AS month_start
     )
@@ -187,8 +221,8 @@ export async function handleRevenueMonthly(
       MAX(d.data_allowance_mb) AS allowance_mb
     FROM months m
     JOIN deduped d
-      ON d.start_time < (m.month_start + interval '1 month')
-      AND d.end_time >= m.month_start
+      ON d.start_time < ((m.month_start + interval '1 month') AT TIME ZONE $${tzParamIdx})
+      AND d.end_time >= (m.month_start::timestamp AT TIME ZONE $${tzParamIdx})
     GROUP BY m.month_start, d.bundle_moniker, d.tenant_id, d.customer_name
     ORDER BY m.month_start, d.bundle_moniker, d.tenant_id, d.customer_name
     `,
@@ -232,7 +266,7 @@ export async function handleRevenueMonthly(
     };
   });
 
-  return jsonResponse({ view, months, data: rows }, 200, rateLimit);
+  return jsonResponse({ view, months, timezone: tz, data: rows }, 200, rateLimit);
 }
 
 // ── GET /revenue/cost-chart ─────────────────────────────────────────
@@ -259,12 +293,13 @@ export async function handleRevenueCostChart(
   }
 
   // Customer scoping
-  if (tenant.role === 'customer' && tenant.customer_name) {
-    filters.push(`customer_name = $${paramIdx}`);
-    params.push(tenant.customer_name);
-    paramIdx++;
+  const cf = customerFilter(tenant, paramIdx);
+  if (cf) {
+    filters.push(cf.clause);
+    params.push(...cf.params);
+    paramIdx = cf.nextIdx;
   } else if (isPlatformAdmin(tenant) && searchParams.get('customer')) {
-    filters.push(`customer_name = $${paramIdx}`);
+    filters.push(customerNameMatch('customer_name', paramIdx));
     params.push(searchParams.get('customer'));
     paramIdx++;
   }
@@ -275,6 +310,11 @@ export async function handleRevenueCostChart(
   params.push((months - 1).toString());
   paramIdx++;
 
+  const tz = await getUserTimezone(sql, tenant);
+  const tzParamIdx = paramIdx;
+  params.push(tz);
+  paramIdx++;
+
   // Query 1: Revenue per month (endpoint counts × pricing)
   // Use TO_CHAR for consistent YYYY-MM string keys
   const revenueData = await sql.unsafe(
@@ -293,8 +333,8 @@ export async function handleRevenueCostChart(
     ),
     months AS (
       SELECT generate_series(
-        date_trunc('month', NOW() - ($${monthsParamIdx} || ' months')::interval),
-        date_trunc('month', NOW()),
+        date_trunc('month', (NOW() AT TIME ZONE $${tzParamIdx}) - ($${monthsParamIdx} || ' months')::interval),
+        date_trunc('month', NOW() AT TIME ZONE $${tzParamIdx}),
         '1 month'
       )::date AS month_start
     )
@@ -305,8 +345,8 @@ export async function handleRevenueCostChart(
       COUNT(DISTINCT d.iccid) AS endpoint_count
     FROM months m
     JOIN deduped d
-      ON d.start_time < (m.month_start + interval '1 month')
-      AND d.end_time >= m.month_start
+      ON d.start_time < ((m.month_start + interval '1 month') AT TIME ZONE $${tzParamIdx})
+      AND d.end_time >= (m.month_start::timestamp AT TIME ZONE $${tzParamIdx})
     GROUP BY m.month_start, d.bundle_moniker, d.tenant_id
     ORDER BY m.month_start
     `,
@@ -319,12 +359,11 @@ export async function handleRevenueCostChart(
   const usageParams: unknown[] = [];
   let uIdx = 1;
 
-  // Tenant filter on rpt_usage — mirror the same scoping logic
-  if (!isPlatformAdmin(tenant)) {
-    usageFilters.push(`tenant_id IN (SELECT t.tenant_id FROM rpt_tenants t WHERE t.tenant_id = $${uIdx} OR t.parent_tenant_id = $${uIdx})`);
-    usageParams.push(tenant.tenant_id);
-    uIdx++;
-  }
+  // Tenant filter on rpt_usage — the same scoping as every other route
+  const utf = tenantFilter(tenant, uIdx);
+  usageFilters.push(utf.clause);
+  usageParams.push(...utf.params);
+  uIdx = utf.nextIdx;
 
   if (isPlatformAdmin(tenant) && searchParams.get('tenant_id')) {
     usageFilters.push(`tenant_id = $${uIdx}`);
@@ -333,12 +372,13 @@ export async function handleRevenueCostChart(
   }
 
   // Customer scoping
-  if (tenant.role === 'customer' && tenant.customer_name) {
-    usageFilters.push(`customer_name = $${uIdx}`);
-    usageParams.push(tenant.customer_name);
-    uIdx++;
+  const ucf = customerFilter(tenant, uIdx);
+  if (ucf) {
+    usageFilters.push(ucf.clause);
+    usageParams.push(...ucf.params);
+    uIdx = ucf.nextIdx;
   } else if (isPlatformAdmin(tenant) && searchParams.get('customer')) {
-    usageFilters.push(`customer_name = $${uIdx}`);
+    usageFilters.push(customerNameMatch('customer_name', uIdx));
     usageParams.push(searchParams.get('customer'));
     uIdx++;
   }
@@ -347,6 +387,9 @@ export async function handleRevenueCostChart(
   usageParams.push((months - 1).toString());
   uIdx++;
 
+  const local = usageDayColumn(tz, usageParams);
+  uIdx = usageParams.length + 1;
+
   const usageWhereClause = usageFilters.length > 0
     ? 'AND ' + usageFilters.join(' AND ')
     : '';
@@ -354,13 +397,13 @@ export async function handleRevenueCostChart(
   const costData = await sql.unsafe(
     `
     SELECT
-      TO_CHAR(date_trunc('month', usage_date), 'YYYY-MM') AS month_key,
+      TO_CHAR(date_trunc('month', ${local.day}), 'YYYY-MM') AS month_key,
       COALESCE(SUM(buy_charge), 0) AS wholesale_cost
     FROM rpt_usage
-    WHERE usage_date >= date_trunc('month', NOW() - ($${usageMonthsIdx} || ' months')::interval)
+    WHERE ${usageDayBound(local, '>=', `date_trunc('month', (NOW() AT TIME ZONE ${local.tz}) - ($${usageMonthsIdx} || ' months')::interval)`)}
       ${usageWhereClause}
-    GROUP BY date_trunc('month', usage_date)
-    ORDER BY date_trunc('month', usage_date)
+    GROUP BY date_trunc('month', ${local.day})
+    ORDER BY date_trunc('month', ${local.day})
     `,
     usageParams,
   );
@@ -389,14 +432,17 @@ export async function handleRevenueCostChart(
     costByMonth.set(c.month_key as string, Number(c.wholesale_cost));
   }
 
-  // Generate the full month series as YYYY-MM strings (guaranteed chronological)
+  // Generate the full month series as YYYY-MM strings (guaranteed chronological),
+  // ending with the current month in the caller's timezone
+  const today = new Intl.DateTimeFormat('en', { timeZone: tz, year: 'numeric', month: 'numeric' })
+    .formatToParts(new Date());
+  const thisYear = Number(today.find((p) => p.type === 'year')!.value);
+  const thisMonth = Number(today.find((p) => p.type === 'month')!.value) - 1;
   const monthSeries: string[] = [];
   for (let i = months - 1; i >= 0; i--) {
-    const d = new Date();
-    d.setDate(1);
-    d.setMonth(d.getMonth() - i);
-    const yyyy = d.getFullYear();
-    const mm = String(d.getMonth() + 1).padStart(2, '0');
+    const d = new Date(Date.UTC(thisYear, thisMonth - i, 1));
+    const yyyy = d.getUTCFullYear();
+    const mm = String(d.getUTCMonth() + 1).padStart(2, '0');
     monthSeries.push(`${yyyy}-${mm}`);
   }
 
@@ -0,0 +1,184 @@
+/**
+ * Personal data routes (data subject requests).
+ *
+ *   GET  /auth/me/export — Everything stored about the caller, as a JSON download
+ *   POST /auth/me/erase  — Erase the caller's account: { current_password?, code? }
+ *
+ * Erasure needs the current password (if the account has one) plus a
+ * second factor, like a password change: the first call emails a code
+ * (TOTP users use their app), the second submits it. The account is then
+ * anonymised as described in src/utils/user-lifecycle.ts — it is not
+ * restorable. Both routes need a JWT session of the user themselves, not
+ * an API key or an impersonation session.
+ */
+
+import type postgres from 'postgres';
+import type { Env, TenantInfo } from '../types';
+import { jsonResponse, errorResponse } from '../utils/response';
+import { verifyPassword } from '../utils/crypto';
+import { getUserPreferences } from '../utils/preferences';
+import { eraseUser } from '../utils/user-lifecycle';
+import { recordAudit } from '../utils/audit';
+import { registerFailedPassword, verifyStepUpCode, type StepUpUser } from './auth';
+
+function ownSessionError(tenant: TenantInfo): Response | null {
+  if (tenant.auth_method !== 'jwt' || !tenant.user_id) {
+    return errorResponse(400, 'Only available for JWT sessions');
+  }
+  if (tenant.impersonator) {
+    return errorResponse(403, 'Forbidden', 'Not available while impersonating a user');
+  }
+  return null;
+}
+
+/* ================================================================
+ * GET /auth/me/export
+ * ================================================================ */
+
+export async function handleExportMyData(
+  request: Request,
+  sql: postgres.Sql,
+  tenant: TenantInfo,
+): Promise<Response> {
+  const notOwn = ownSessionError(tenant);
+  if (notOwn) return notOwn;
+  const userId = tenant.user_id!;
+
+  const users = await sql`
+    SELECT id, email, display_name, role, tenant_id, customer_name, is_active,
+           mfa_method, totp_enrolled_at, oidc_subject IS NOT NULL AS sso_linked,
+           password_changed_at, last_login_at, created_at, updated_at
+    FROM auth_users
+    WHERE id = ${userId}
+  `;
+  if (users.length === 0) {
+    return errorResponse(404, 'User not found');
+  }
+
+  const sessions = await sql`
+    SELECT issued_at, expires_at, last_activity_at, ip_address, user_agent
+    FROM auth_sessions WHERE user_id = ${userId}
+    ORDER BY issued_at DESC
+  `;
+  const knownDevices = await sql`
+    SELECT device, country, last_ip, first_seen_at, last_seen_at
+    FROM auth_known_devices WHERE user_id = ${userId}
+    ORDER BY last_seen_at DESC
+  `;
+  const passkeys = await sql`
+    SELECT name, created_at, last_used_at
+    FROM auth_webauthn_credentials WHERE user_id = ${userId}
+    ORDER BY created_at
+  `;
+  const apiKeys = await sql`
+    SELECT name, key_prefix, scopes, customer_name, expires_at, last_used_at, revoked_at, created_at
+    FROM auth_api_keys WHERE user_id = ${userId}
+    ORDER BY created_at
+  `;
+  const auditEntries = await sql`
+    SELECT occurred_at, action, actor_email, actor_method, target_type, target_id,
+           changes, metadata, ip_address, user_agent
+    FROM audit_log
+    WHERE actor_user_id = ${userId}
+       OR (target_type = 'user' AND target_id = ${userId})
+    ORDER BY occurred_at
+  `;
+
+  await recordAudit(sql, request, {
+    action: 'user.data_export',
+    tenant,
+    target_type: 'user',
+    target_id: userId,
+  });
+
+  const response = jsonResponse({
+    exported_at: new Date().toISOString(),
+    profile: users[0],
+    preferences: await getUserPreferences(sql, userId),
+    sessions,
+    known_devices: knownDevices,
+    passkeys,
+    api_keys: apiKeys,
+    audit_log: auditEntries,
+  });
+  response.headers.set('Content-Disposition', 'attachment; filename="my-data.json"');
+  return response;
+}
+
+/* ================================================================
+ * POST /auth/me/erase
+ * ================================================================ */
+
+export async function handleEraseMe(
+  request: Request,
+  sql: postgres.Sql,
+  env: Env,
+  tenant: TenantInfo,
+): Promise<Response> {
+  const notOwn = ownSessionError(tenant);
+  if (notOwn) return notOwn;
+
+  let body: { current_password?: string; code?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(400, 'Invalid JSON body');
+  }
+  if (body.code !== undefined && typeof body.code !== 'string') {
+    return errorResponse(400, 'code must be a string');
+  }
+
+  const users = await sql`
+    SELECT id, email, display_name, tenant_id, password_hash, salt, failed_logins, locked_until,
+           mfa_method, totp_secret, totp_last_step
+    FROM auth_users
+    WHERE id = ${tenant.user_id!}
+  `;
+  if (users.length === 0) {
+    return errorResponse(404, 'User not found');
+  }
+  const user = users[0];
+
+  if (user.locked_until && new Date(user.locked_until) > new Date()) {
+    return errorResponse(423, 'Account temporarily locked');
+  }
+
+  // 1. The current password, for accounts that have one (SSO accounts don't)
+  if (user.password_hash) {
+    if (!body.current_password) {
+      return errorResponse(400, 'current_password is required');
+    }
+    if (!(await verifyPassword(body.current_password, user.password_hash, user.salt))) {
+      const failed = await registerFailedPassword(sql, user.id, user.failed_logins);
+      await recordAudit(sql, request, {
+        action: 'user.erase_failed',
+        tenant,
+        target_type: 'user',
+        target_id: user.id,
+        metadata: { reason: 'bad_password', ...failed },
+      });
+      return errorResponse(401, 'Current password is incorrect');
+    }
+  }
+
+  // 2. A second factor: first call sends a code, second call checks it
+  const challenge = await verifyStepUpCode(sql, env, user as StepUpUser, 'account_erasure', body.code);
+  if (challenge) return challenge;
+
+  // 3. Record the request first so the entry is anonymised along with the rest
+  await recordAudit(sql, request, {
+    action: 'user.erase',
+    tenant,
+    target_type: 'user',
+    target_id: user.id,
+    metadata: { reason: 'self_service' },
+  });
+
+  const auditEntries = await eraseUser(sql, env, user.id);
+
+  return jsonResponse({
+    status: 'ok',
+    message: 'Your account and personal data have been erased',
+    audit_entries_anonymised: auditEntries,
+  });
+}
@@ -0,0 +1,242 @@
+/**
+ * Named role management.
+ *
+ * A named role is a set of permissions (see src/permissions.ts) that can be
+ * assigned to users via auth_users.role_id, e.g. a "Finance" role with
+ * usage:read + revenue:read but no users:manage. Users without a named role
+ * get the defaults for their legacy role.
+ *
+ * Admin endpoints (roles:manage):
+ *   GET    /admin/roles      — List roles with member counts
+ *   POST   /admin/roles      — Create a role
+ *   PUT    /admin/roles/:id  — Update name / description / permissions
+ *   DELETE /admin/roles/:id  — Delete a role (members revert to defaults)
+ *
+ * Changes reach signed-in members on their next token refresh.
+ */
+
+import type postgres from 'postgres';
+import type { Env, TenantInfo } from '../types';
+import { jsonResponse, errorResponse } from '../utils/response';
+import { PERMISSIONS, DEFAULT_ROLE_PERMISSIONS, isPermission, missingPermissions, type Permission } from '../permissions';
+import { syncUserApiKeys } from '../utils/api-keys';
+import { recordAudit } from '../utils/audit';
+
+interface RoleInput {
+  name?: string;
+  description?: string | null;
+  permissions?: unknown[];
+}
+
+/** Validate a permission list; returns the deduplicated list or an error response. */
+function parsePermissions(tenant: TenantInfo, value: unknown): Permission[] | Response {
+  if (!Array.isArray(value) || !value.every(isPermission)) {
+    return errorResponse(400, 'permissions must be an array of known permissions', `Valid permissions: ${PERMISSIONS.join(', ')}`);
+  }
+  const permissions = [...new Set(value)];
+
+  const missing = missingPermissions(tenant, permissions);
+  if (missing.length > 0) {
+    return errorResponse(403, 'Forbidden', `Cannot grant permissions you do not hold: ${missing.join(', ')}`);
+  }
+  return permissions;
+}
+
+/** Refresh API key snapshots of every member of a role. */
+async function syncRoleMembers(sql: postgres.Sql, env: Env, userIds: string[]): Promise<void> {
+  for (const userId of userIds) {
+    await syncUserApiKeys(sql, env, userId);
+  }
+}
+
+/* ================================================================
+ * GET /admin/roles
+ * ================================================================ */
+
+export async function handleListRoles(
+  sql: postgres.Sql,
+): Promise<Response> {
+  const rows = await sql`
+    SELECT r.id, r.name, r.description, r.permissions, r.created_at, r.updated_at,
+           COUNT(u.id) AS user_count
+    FROM auth_roles r
+    LEFT JOIN auth_users u ON u.role_id = r.id
+    GROUP BY r.id
+    ORDER BY r.name
+  `;
+
+  return jsonResponse({
+    data: rows.map((r: Record<string, unknown>) => ({
+      id: r.id,
+      name: r.name,
+      description: r.description || null,
+      permissions: r.permissions,
+      user_count: parseInt(r.user_count as string),
+      created_at: r.created_at,
+      updated_at: r.updated_at,
+    })),
+    available_permissions: PERMISSIONS,
+  });
+}
+
+/* ================================================================
+ * POST /admin/roles
+ * ================================================================ */
+
+export async function handleCreateRole(
+  request: Request,
+  sql: postgres.Sql,
+  tenant: TenantInfo,
+): Promise<Response> {
+  let body: RoleInput;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(400, 'Invalid JSON body');
+  }
+
+  const name = body.name?.trim();
+  if (!name) {
+    return errorResponse(400, 'name is required');
+  }
+
+  const permissions = parsePermissions(tenant, body.permissions);
+  if (permissions instanceof Response) return permissions;
+
+  const duplicate = await sql`SELECT id FROM auth_roles WHERE lower(name) = ${name.toLowerCase()}`;
+  if (duplicate.length > 0) {
+    return errorResponse(409, 'A role with this name already exists');
+  }
+
+  const result = await sql`
+    INSERT INTO auth_roles (name, description, permissions, created_by)
+    VALUES (${name}, ${body.description || null}, ${JSON.stringify(permissions)}, ${tenant.user_id || null})
+    RETURNING id, name, description, permissions, created_at, updated_at
+  `;
+
+  await recordAudit(sql, request, {
+    action: 'role.create',
+    tenant,
+    target_type: 'role',
+    target_id: result[0].id,
+    after: { name, description: result[0].description, permissions },
+  });
+
+  return jsonResponse({ ...result[0], user_count: 0 }, 201);
+}
+
+/* ================================================================
+ * PUT /admin/roles/:id
+ * ================================================================ */
+
+export async function handleUpdateRole(
+  roleId: string,
+  request: Request,
+  sql: postgres.Sql,
+  env: Env,
+  tenant: TenantInfo,
+): Promise<Response> {
+  let body: RoleInput;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(400, 'Invalid JSON body');
+  }
+
+  const existing = await sql`SELECT id, name, description, permissions FROM auth_roles WHERE id = ${roleId}`;
+  if (existing.length === 0) {
+    return errorResponse(404, 'Role not found');
+  }
+  const role = existing[0];
+
+  let permissions = role.permissions as Permission[];
+  if (body.permissions !== undefined) {
+    const parsed = parsePermissions(tenant, body.permissions);
+    if (parsed instanceof Response) return parsed;
+    permissions = parsed;
+  }
+
+  const name = body.name !== undefined ? body.name.trim() : role.name;
+  if (!name) {
+    return errorResponse(400, 'name cannot be empty');
+  }
+  if (name.toLowerCase() !== role.name.toLowerCase()) {
+    const duplicate = await sql`SELECT id FROM auth_roles WHERE lower(name) = ${name.toLowerCase()}`;
+    if (duplicate.length > 0) {
+      return errorResponse(409, 'A role with this name already exists');
+    }
+  }
+
+  const result = await sql`
+    UPDATE auth_roles
+    SET name = ${name},
+        description = ${body.description !== undefined ? body.description : role.description},
+        permissions = ${JSON.stringify(permissions)},
+        updated_at = now()
+    WHERE id = ${roleId}
+    RETURNING id, name, description, permissions, created_at, updated_at
+  `;
+
+  const members = await sql`SELECT id FROM auth_users WHERE role_id = ${roleId}`;
+  await syncRoleMembers(sql, env, members.map((m: Record<string, unknown>) => m.id as string));
+
+  await recordAudit(sql, request, {
+    action: 'role.update',
+    tenant,
+    target_type: 'role',
+    target_id: roleId,
+    before: { name: role.name, description: role.description, permissions: role.permissions },
+    after: { name, description: result[0].description, permissions },
+    metadata: { user_count: members.length },
+  });
+
+  return jsonResponse({ ...result[0], user_count: members.length });
+}
+
+/* ================================================================
+ * DELETE /admin/roles/:id
+ * ================================================================ */
+
+export async function handleDeleteRole(
+  roleId: string,
+  request: Request,
+  sql: postgres.Sql,
+  env: Env,
+  tenant: TenantInfo,
+): Promise<Response> {
+  const members = await sql`SELECT id, role FROM auth_users WHERE role_id = ${roleId}`;
+
+  // Members fall back to their legacy role's defaults, which may be broader
+  // than this role — the caller must be able to grant those.
+  const fallback = new Set<Permission>();
+  for (const m of members) {
+    for (const p of DEFAULT_ROLE_PERMISSIONS[m.role as TenantInfo['role']] || []) fallback.add(p);
+  }
+  const missing = missingPermissions(tenant, [...fallback]);
+  if (missing.length > 0) {
+    return errorResponse(403, 'Forbidden', `Deleting this role would grant its members: ${missing.join(', ')}`);
+  }
+
+  const deleted = await sql`DELETE FROM auth_roles WHERE id = ${roleId} RETURNING id, name, description, permissions`;
+  if (deleted.length === 0) {
+    return errorResponse(404, 'Role not found');
+  }
+
+  // role_id is ON DELETE SET NULL
+  await syncRoleMembers(sql, env, members.map((m: Record<string, unknown>) => m.id as string));
+
+  await recordAudit(sql, request, {
+    action: 'role.delete',
+    tenant,
+    target_type: 'role',
+    target_id: roleId,
+    before: { name: deleted[0].name, description: deleted[0].description, permissions: deleted[0].permissions },
+    metadata: { users_reverted: members.length },
+  });
+
+  return jsonResponse({
+    status: 'ok',
+    message: 'Role deleted',
+    users_reverted: members.length,
+  });
+}
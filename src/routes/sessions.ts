@@ -0,0 +1,130 @@
+/**
+ * Self-service session management.
+ *
+ * Protected endpoints (JWT required):
+ *   GET    /auth/sessions                — List the caller's active sessions
+ *   DELETE /auth/sessions/:id            — Sign out one session
+ *   POST   /auth/sessions/revoke-others  — Sign out every session except this one
+ *
+ * Revocation deletes the KV `session:<hash>` key (checked on every request
+ * by authenticateJWT) and the auth_sessions row, whose refresh tokens
+ * cascade, so a revoked device can neither call the API nor refresh.
+ */
+
+import type postgres from 'postgres';
+import type { Env, TenantInfo } from '../types';
+import { jsonResponse, errorResponse } from '../utils/response';
+import { recordAudit } from '../utils/audit';
+import { revokeSession } from './auth';
+
+/* ================================================================
+ * GET /auth/sessions
+ * ================================================================ */
+
+export async function handleListMySessions(
+  sql: postgres.Sql,
+  tenant: TenantInfo,
+): Promise<Response> {
+  if (tenant.auth_method !== 'jwt' || !tenant.user_id) {
+    return errorResponse(400, 'Sessions are only available for JWT sessions');
+  }
+
+  const rows = await sql`
+    SELECT id, token_hash, issued_at, expires_at, absolute_expires_at,
+           last_activity_at, ip_address, user_agent
+    FROM auth_sessions
+    WHERE user_id = ${tenant.user_id} AND expires_at > now()
+    ORDER BY COALESCE(last_activity_at, issued_at) DESC
+  `;
+
+  const sessions = rows.map((r: Record<string, unknown>) => ({
+    id: r.id,
+    current: r.token_hash === tenant.session_hash,
+    issued_at: r.issued_at,
+    expires_at: r.expires_at,
+    absolute_expires_at: r.absolute_expires_at,
+    last_activity_at: r.last_activity_at,
+    ip_address: r.ip_address,
+    user_agent: r.user_agent,
+  }));
+
+  return jsonResponse({ data: sessions });
+}
+
+/* ================================================================
+ * DELETE /auth/sessions/:id
+ * ================================================================ */
+
+export async function handleRevokeMySession(
+  sessionId: string,
+  request: Request,
+  sql: postgres.Sql,
+  env: Env,
+  tenant: TenantInfo,
+): Promise<Response> {
+  if (tenant.auth_method !== 'jwt' || !tenant.user_id) {
+    return errorResponse(400, 'Sessions are only available for JWT sessions');
+  }
+
+  // Scoped to the caller — someone else's session id is simply "not found"
+  if (!/^[0-9a-f-]{36}$/i.test(sessionId)) {
+    return errorResponse(404, 'Session not found');
+  }
+  const sessions = await sql`
+    SELECT id, token_hash FROM auth_sessions
+    WHERE id = ${sessionId} AND user_id = ${tenant.user_id}
+  `;
+  if (sessions.length === 0) {
+    return errorResponse(404, 'Session not found');
+  }
+
+  const session = sessions[0];
+  await revokeSession(sql, env, session.id, session.token_hash);
+
+  await recordAudit(sql, request, {
+    action: 'session.revoke',
+    tenant,
+    target_type: 'session',
+    target_id: session.id,
+    metadata: { self_service: true },
+  });
+
+  return jsonResponse({
+    status: 'ok',
+    message: 'Session revoked',
+    current: session.token_hash === tenant.session_hash,
+  });
+}
+
+/* ================================================================
+ * POST /auth/sessions/revoke-others
+ * ================================================================ */
+
+export async function handleRevokeOtherSessions(
+  request: Request,
+  sql: postgres.Sql,
+  env: Env,
+  tenant: TenantInfo,
+): Promise<Response> {
+  if (tenant.auth_method !== 'jwt' || !tenant.user_id || !tenant.session_hash) {
+    return errorResponse(400, 'Sessions are only available for JWT sessions');
+  }
+
+  const sessions = await sql`
+    SELECT id, token_hash FROM auth_sessions
+    WHERE user_id = ${tenant.user_id} AND token_hash <> ${tenant.session_hash}
+  `;
+  for (const session of sessions) {
+    await revokeSession(sql, env, session.id, session.token_hash);
+  }
+
+  await recordAudit(sql, request, {
+    action: 'session.revoke_others',
+    tenant,
+    target_type: 'user',
+    target_id: tenant.user_id,
+    metadata: { revoked: sessions.length },
+  });
+
+  return jsonResponse({ status: 'ok', revoked: sessions.length });
+}
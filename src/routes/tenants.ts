@@ -0,0 +1,414 @@
+/**
+ * Tenant management (platform admins only).
+ *
+ *   GET    /admin/tenants              — List tenants (tenants:read); ?format=tree nests children
+ *   POST   /admin/tenants              — Create a tenant (tenants:manage)
+ *   PUT    /admin/tenants/:id          — Rename, move or (de)activate a tenant (tenants:manage)
+ *   DELETE /admin/tenants/:id          — Deactivate a tenant (tenants:manage)
+ *
+ * Tenants form a tree through parent_tenant_id. A tenant can't be moved
+ * under itself or one of its descendants, and an active tenant can't sit
+ * under an inactive one — so deactivating a tenant requires its children
+ * to be deactivated (or moved) first. Users of an inactive tenant can't
+ * sign in, refresh or call the API.
+ *
+ * Tenant attributes (see src/utils/tenant-attributes.ts) can be set on
+ * create and update: tenant_kind ('reseller' or 'customer_org' — the
+ * single 'platform' tenant is set up by migration and can't be changed or
+ * created), show_in_pickers, branding ({ display_name?, logo_url?,
+ * primary_color? }) and default_currency (ISO 4217 or null). The platform
+ * tenant is always an active root.
+ */
+
+import type postgres from 'postgres';
+import type { Env, TenantInfo } from '../types';
+import { jsonResponse, errorResponse } from '../utils/response';
+import { syncTenantSnapshot } from '../utils/tenant-attributes';
+import { recordAudit } from '../utils/audit';
+
+const TENANT_ROLES = ['tenant', 'customer'];
+
+/** Kinds an admin can give a tenant; 'platform' is reserved. */
+const ASSIGNABLE_KINDS = ['reseller', 'customer_org'];
+
+const BRANDING_FIELDS = ['display_name', 'logo_url', 'primary_color'];
+
+/** The tenant attribute fields accepted by POST and PUT. */
+interface TenantAttributeFields {
+  tenant_kind?: string;
+  show_in_pickers?: boolean;
+  branding?: Record<string, unknown>;
+  default_currency?: string | null;
+}
+
+interface TenantNode {
+  tenant_id: string;
+  tenant_name: string;
+  parent_tenant_id: string | null;
+  role: string;
+  tenant_kind: string;
+  show_in_pickers: boolean;
+  is_active: boolean;
+  user_count: number;
+  children: TenantNode[];
+}
+
+async function tenantSnapshot(sql: postgres.Sql, tenantId: string): Promise<Record<string, unknown> | null> {
+  const rows = await sql`
+    SELECT tenant_id, tenant_name, parent_tenant_id, role, tenant_kind, show_in_pickers,
+           branding, default_currency, is_active
+    FROM rpt_tenants WHERE tenant_id = ${tenantId}
+  `;
+  return rows.length > 0 ? { ...rows[0] } : null;
+}
+
+/** Why the attribute fields in a POST/PUT body are invalid (null if they're not). */
+function attributeError(body: TenantAttributeFields): string | null {
+  if (body.tenant_kind !== undefined && !ASSIGNABLE_KINDS.includes(body.tenant_kind)) {
+    return `Invalid tenant_kind. Must be one of: ${ASSIGNABLE_KINDS.join(', ')}`;
+  }
+  if (body.show_in_pickers !== undefined && typeof body.show_in_pickers !== 'boolean') {
+    return 'show_in_pickers must be a boolean';
+  }
+  if (body.branding !== undefined) {
+    const b = body.branding;
+    if (typeof b !== 'object' || b === null || Array.isArray(b)) {
+      return 'branding must be an object';
+    }
+    for (const [field, value] of Object.entries(b)) {
+      if (!BRANDING_FIELDS.includes(field)) {
+        return `Unknown branding field: ${field}. Must be one of: ${BRANDING_FIELDS.join(', ')}`;
+      }
+      if (value !== null && typeof value !== 'string') return `branding.${field} must be a string or null`;
+    }
+    if (typeof b.logo_url === 'string' && !/^https:\/\//.test(b.logo_url)) {
+      return 'branding.logo_url must be an https:// URL';
+    }
+    if (typeof b.primary_color === 'string' && !/^#[0-9a-fA-F]{6}$/.test(b.primary_color)) {
+      return 'branding.primary_color must be a hex colour, e.g. "#0055aa"';
+    }
+  }
+  if (body.default_currency !== undefined && body.default_currency !== null &&
+      (typeof body.default_currency !== 'string' || !/^[A-Za-z]{3}$/.test(body.default_currency))) {
+    return 'default_currency must be null or an ISO 4217 code, e.g. "GBP"';
+  }
+  return null;
+}
+
+/**
+ * Why `parentId` can't be the parent of `tenantId` (null if it can).
+ * `tenantId` is null when the tenant is being created.
+ */
+async function parentError(
+  sql: postgres.Sql,
+  tenantId: string | null,
+  parentId: string,
+  active: boolean,
+): Promise<string | null> {
+  const parents = await sql`SELECT is_active FROM rpt_tenants WHERE tenant_id = ${parentId}`;
+  if (parents.length === 0) {
+    return 'parent_tenant_id does not exist';
+  }
+  if (active && parents[0].is_active === false) {
+    return 'An active tenant cannot be placed under an inactive parent';
+  }
+  if (tenantId === null) return null;
+
+  // Walk up from the new parent; meeting the tenant itself would make a cycle
+  const cycle = await sql`
+    WITH RECURSIVE ancestors AS (
+      SELECT tenant_id, parent_tenant_id FROM rpt_tenants WHERE tenant_id = ${parentId}
+      UNION
+      SELECT t.tenant_id, t.parent_tenant_id
+      FROM rpt_tenants t
+      JOIN ancestors a ON t.tenant_id = a.parent_tenant_id
+    )
+    SELECT 1 FROM ancestors WHERE tenant_id = ${tenantId}
+  `;
+  return cycle.length > 0 ? 'A tenant cannot be moved under itself or one of its descendants' : null;
+}
+
+/** 409 while the tenant still has active children. */
+async function activeChildrenError(sql: postgres.Sql, tenantId: string): Promise<Response | null> {
+  const children = await sql`
+    SELECT tenant_id FROM rpt_tenants
+    WHERE parent_tenant_id = ${tenantId} AND is_active <> false AND tenant_id <> ${tenantId}
+    ORDER BY tenant_id
+  `;
+  if (children.length === 0) return null;
+  return errorResponse(
+    409,
+    'Tenant has active child tenants',
+    `Deactivate or move these first: ${children.map((c) => c.tenant_id).join(', ')}`,
+  );
+}
+
+/** Nest the flat tenant list by parent_tenant_id. Orphans become roots. */
+function buildTree(rows: Omit<TenantNode, 'children'>[]): TenantNode[] {
+  const nodes = new Map<string, TenantNode>();
+  for (const r of rows) nodes.set(r.tenant_id, { ...r, children: [] });
+
+  const roots: TenantNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.parent_tenant_id ? nodes.get(node.parent_tenant_id) : undefined;
+    if (parent && parent !== node) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+  return roots;
+}
+
+/* ================================================================
+ * GET /admin/tenants
+ * ================================================================ */
+
+export async function handleListTenants(
+  searchParams: URLSearchParams,
+  sql: postgres.Sql,
+): Promise<Response> {
+  const rows = await sql`
+    SELECT t.tenant_id, t.tenant_name, t.parent_tenant_id, t.role, t.tenant_kind,
+           t.show_in_pickers, t.branding, t.default_currency, t.is_active,
+           (SELECT COUNT(*)::int FROM auth_users u
+            WHERE u.tenant_id = t.tenant_id AND u.deleted_at IS NULL) AS user_count
+    FROM rpt_tenants t
+    ORDER BY t.tenant_name
+  `;
+
+  if (searchParams.get('format') === 'tree') {
+    return jsonResponse({ data: buildTree(rows as unknown as Omit<TenantNode, 'children'>[]) });
+  }
+
+  return jsonResponse({ data: rows });
+}
+
+/* ================================================================
+ * POST /admin/tenants
+ * ================================================================ */
+
+export async function handleCreateTenant(
+  request: Request,
+  sql: postgres.Sql,
+  env: Env,
+  tenant: TenantInfo,
+): Promise<Response> {
+  let body: TenantAttributeFields & {
+    tenant_id?: string;
+    tenant_name?: string;
+    parent_tenant_id?: string | null;
+    role?: string;
+  };
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(400, 'Invalid JSON body');
+  }
+
+  const tenantId = typeof body.tenant_id === 'string' ? body.tenant_id.trim().toLowerCase() : '';
+  const tenantName = typeof body.tenant_name === 'string' ? body.tenant_name.trim() : '';
+  if (!tenantId || !tenantName) {
+    return errorResponse(400, 'Missing required fields: tenant_id, tenant_name');
+  }
+  if (!/^[a-z0-9][a-z0-9-]{1,62}$/.test(tenantId)) {
+    return errorResponse(400, 'Invalid tenant_id', 'Use 2–63 lowercase letters, digits and hyphens, starting with a letter or digit.');
+  }
+
+  const role = body.role ?? 'tenant';
+  if (!TENANT_ROLES.includes(role)) {
+    return errorResponse(400, `Invalid role. Must be one of: ${TENANT_ROLES.join(', ')}`);
+  }
+  const invalidAttributes = attributeError(body);
+  if (invalidAttributes) return errorResponse(400, invalidAttributes);
+
+  // New tenants default to sitting under the platform tenant
+  let parentId: string | null;
+  if (body.parent_tenant_id === undefined) {
+    const platform = await sql`SELECT tenant_id FROM rpt_tenants WHERE tenant_kind = 'platform'`;
+    parentId = platform.length > 0 ? platform[0].tenant_id : null;
+  } else {
+    parentId = body.parent_tenant_id;
+  }
+  if (parentId !== null) {
+    const invalid = await parentError(sql, null, parentId, true);
+    if (invalid) return errorResponse(400, invalid);
+  }
+
+  const existing = await sql`SELECT 1 FROM rpt_tenants WHERE tenant_id = ${tenantId}`;
+  if (existing.length > 0) {
+    return errorResponse(409, 'A tenant with this tenant_id already exists');
+  }
+
+  const result = await sql`
+    INSERT INTO rpt_tenants
+      (tenant_id, tenant_name, parent_tenant_id, role, tenant_kind, show_in_pickers,
+       branding, default_currency, is_active)
+    VALUES (
+      ${tenantId}, ${tenantName}, ${parentId}, ${role}, ${body.tenant_kind ?? 'reseller'},
+      ${body.show_in_pickers ?? true}, ${JSON.stringify(body.branding ?? {})},
+      ${body.default_currency ? body.default_currency.toUpperCase() : null}, true
+    )
+    RETURNING tenant_id, tenant_name, parent_tenant_id, role, tenant_kind, show_in_pickers,
+              branding, default_currency, is_active, created_at
+  `;
+
+  await syncTenantSnapshot(sql, env, tenantId);
+
+  await recordAudit(sql, request, {
+    action: 'tenant.create',
+    tenant,
+    tenant_id: tenantId,
+    target_type: 'tenant',
+    target_id: tenantId,
+    after: await tenantSnapshot(sql, tenantId),
+  });
+
+  return jsonResponse(result[0], 201);
+}
+
+/* ================================================================
+ * PUT /admin/tenants/:id
+ * ================================================================ */
+
+export async function handleUpdateTenant(
+  tenantId: string,
+  request: Request,
+  sql: postgres.Sql,
+  env: Env,
+  tenant: TenantInfo,
+): Promise<Response> {
+  let body: TenantAttributeFields & {
+    tenant_name?: string;
+    parent_tenant_id?: string | null;
+    role?: string;
+    is_active?: boolean;
+  };
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(400, 'Invalid JSON body');
+  }
+
+  const fields = ['tenant_name', 'parent_tenant_id', 'role', 'is_active', 'tenant_kind', 'show_in_pickers', 'branding', 'default_currency'];
+  if (!fields.some((f) => body[f as keyof typeof body] !== undefined)) {
+    return errorResponse(400, 'No valid fields to update');
+  }
+
+  const before = await tenantSnapshot(sql, tenantId);
+  if (!before) {
+    return errorResponse(404, 'Tenant not found');
+  }
+
+  const tenantName = body.tenant_name !== undefined ? String(body.tenant_name).trim() : (before.tenant_name as string);
+  const parentId = body.parent_tenant_id !== undefined ? body.parent_tenant_id : (before.parent_tenant_id as string | null);
+  const role = body.role ?? (before.role as string);
+  const isActive = body.is_active ?? (before.is_active as boolean);
+  const tenantKind = body.tenant_kind ?? (before.tenant_kind as string);
+  const showInPickers = body.show_in_pickers ?? (before.show_in_pickers as boolean);
+  const branding = body.branding ?? (before.branding as Record<string, unknown>);
+  const defaultCurrency = body.default_currency !== undefined
+    ? (body.default_currency ? body.default_currency.toUpperCase() : null)
+    : (before.default_currency as string | null);
+
+  if (!tenantName) {
+    return errorResponse(400, 'tenant_name cannot be empty');
+  }
+  if (body.is_active !== undefined && typeof body.is_active !== 'boolean') {
+    return errorResponse(400, 'is_active must be a boolean');
+  }
+  if (body.role !== undefined && role !== before.role && !TENANT_ROLES.includes(role)) {
+    return errorResponse(400, `Invalid role. Must be one of: ${TENANT_ROLES.join(', ')}`);
+  }
+  if (body.tenant_kind !== undefined && before.tenant_kind === 'platform') {
+    return errorResponse(400, 'The platform tenant\'s tenant_kind cannot be changed');
+  }
+  const invalidAttributes = attributeError(body);
+  if (invalidAttributes) return errorResponse(400, invalidAttributes);
+
+  if (before.tenant_kind === 'platform' && (parentId !== null || !isActive || role !== before.role)) {
+    return errorResponse(400, 'The platform tenant must stay an active root tenant');
+  }
+
+  if (parentId !== null && (parentId !== before.parent_tenant_id || (isActive && !before.is_active))) {
+    const invalid = await parentError(sql, tenantId, parentId, isActive);
+    if (invalid) return errorResponse(400, invalid);
+  }
+
+  if (!isActive && before.is_active) {
+    const blocked = await activeChildrenError(sql, tenantId);
+    if (blocked) return blocked;
+  }
+
+  await sql`
+    UPDATE rpt_tenants
+    SET tenant_name = ${tenantName},
+        parent_tenant_id = ${parentId},
+        role = ${role},
+        tenant_kind = ${tenantKind},
+        show_in_pickers = ${showInPickers},
+        branding = ${JSON.stringify(branding)},
+        default_currency = ${defaultCurrency},
+        is_active = ${isActive},
+        updated_at = now()
+    WHERE tenant_id = ${tenantId}
+  `;
+  await syncTenantSnapshot(sql, env, tenantId);
+
+  const after = await tenantSnapshot(sql, tenantId);
+  await recordAudit(sql, request, {
+    action: isActive === before.is_active ? 'tenant.update' : isActive ? 'tenant.activate' : 'tenant.deactivate',
+    tenant,
+    tenant_id: tenantId,
+    target_type: 'tenant',
+    target_id: tenantId,
+    before,
+    after,
+  });
+
+  return jsonResponse(after);
+}
+
+/* ================================================================
+ * DELETE /admin/tenants/:id — deactivate
+ * ================================================================ */
+
+export async function handleDeactivateTenant(
+  tenantId: string,
+  request: Request,
+  sql: postgres.Sql,
+  env: Env,
+  tenant: TenantInfo,
+): Promise<Response> {
+  const before = await tenantSnapshot(sql, tenantId);
+  if (!before) {
+    return errorResponse(404, 'Tenant not found');
+  }
+  if (before.tenant_kind === 'platform') {
+    return errorResponse(400, 'The platform tenant cannot be deactivated');
+  }
+  if (!before.is_active) {
+    return errorResponse(409, 'Tenant is already inactive');
+  }
+
+  const blocked = await activeChildrenError(sql, tenantId);
+  if (blocked) return blocked;
+
+  await sql`
+    UPDATE rpt_tenants SET is_active = false, updated_at = now()
+    WHERE tenant_id = ${tenantId}
+  `;
+  await syncTenantSnapshot(sql, env, tenantId);
+
+  await recordAudit(sql, request, {
+    action: 'tenant.deactivate',
+    tenant,
+    tenant_id: tenantId,
+    target_type: 'tenant',
+    target_id: tenantId,
+    before,
+    after: await tenantSnapshot(sql, tenantId),
+  });
+
+  return jsonResponse({ status: 'ok', message: 'Tenant deactivated' });
+}
@@ -3,14 +3,30 @@
  *
  * GET /api/v1/usage/summary  — Aggregated usage with daily/monthly/annual grouping
  * GET /api/v1/usage/records  — Paginated raw usage records
+ *
+ * Days and months are the caller's local ones, per their timezone
+ * preference (UTC by default); from/to dates are local days too. Outside
+ * UTC the summary is built from raw rows rather than the materialised
+ * views, so it needs `from` and at most MAX_LOCAL_SUMMARY_DAYS of range.
  */
 
 import type postgres from 'postgres';
 import type { Env, TenantInfo } from '../types';
 import type { RateLimitResult } from '../middleware/rate-limit';
-import { tenantFilter, isPlatformAdmin } from '../db';
+import {
+  tenantFilter,
+  customerFilter,
+  customerNameMatch,
+  isPlatformAdmin,
+  usageDayColumn,
+  usageDayBound,
+} from '../db';
 import { parsePagination, paginationOffset } from '../utils/pagination';
 import { jsonResponse, paginatedResponse, errorResponse } from '../utils/response';
+import { getUserTimezone } from '../utils/preferences';
+
+/** Longest from–to range (days) the summary will aggregate from raw rows outside UTC. */
+const MAX_LOCAL_SUMMARY_DAYS = 366;
 
 export async function handleUsageSummary(
   searchParams: URLSearchParams,
@@ -38,7 +54,44 @@ export async function handleUsageSummary(
   // Build date filter
   const tf = tenantFilter(tenant);
   const params: unknown[] = [...tf.params];
-  let paramIdx = tf.nextIdx;
+
+  // The views bucket by UTC day; in any other timezone the same columns
+  // are aggregated from rpt_usage, bucketed by local day. That can't use
+  // the views, so the range must be bounded and is pushed down to the
+  // indexed usage_date inside the subquery.
+  const tz = await getUserTimezone(sql, tenant);
+  let source = view;
+  if (tz !== 'UTC') {
+    const days = from ? (Date.parse(to || new Date().toISOString().slice(0, 10)) - Date.parse(from)) / 86_400_000 : NaN;
+    if (!(days <= MAX_LOCAL_SUMMARY_DAYS)) {
+      return errorResponse(400, 'Date range too long',
+        `Outside UTC, from is required and from–to may span at most ${MAX_LOCAL_SUMMARY_DAYS} days.`, rateLimit);
+    }
+
+    const local = usageDayColumn(tz, params);
+    const unit = groupBy === 'monthly' ? 'month' : 'year';
+    const bucket = groupBy === 'daily' ? local.day : `date_trunc('${unit}', ${local.day})::date`;
+    // A bucket on or after `from` holds only days on or after it; one on
+    // or before `to` ends at the end of to's period
+    params.push(from);
+    const bounds = [usageDayBound(local, '>=', `$${params.length}::date`)];
+    if (to) {
+      params.push(to);
+      bounds.push(usageDayBound(local, '<=', groupBy === 'daily'
+        ? `$${params.length}::date`
+        : `(date_trunc('${unit}', $${params.length}::date) + interval '1 ${unit}' - interval '1 day')::date`));
+    }
+    source = `(
+      SELECT tenant_id, customer_name, ${bucket} AS ${dateCol},
+             consumption AS total_consumption, charged_consumption AS total_charged,
+             uplink_bytes + downlink_bytes AS total_bytes, buy_charge AS total_buy,
+             sell_charge AS total_sell, 1 AS record_count
+      FROM rpt_usage
+      WHERE ${bounds.join(' AND ')}
+    ) local_usage`;
+  }
+
+  let paramIdx = params.length + 1;
   let dateFilter = '';
 
   if (from) {
@@ -60,13 +113,14 @@ export async function handleUsageSummary(
   }
 
   // Customer scoping
-  let customerFilter = '';
-  if (tenant.role === 'customer' && tenant.customer_name) {
-    customerFilter = ` AND customer_name = $${paramIdx}`;
-    params.push(tenant.customer_name);
-    paramIdx++;
+  let customerClause = '';
+  const cf = customerFilter(tenant, paramIdx);
+  if (cf) {
+    customerClause = ` AND ${cf.clause}`;
+    params.push(...cf.params);
+    paramIdx = cf.nextIdx;
   } else if (isPlatformAdmin(tenant) && searchParams.get('customer')) {
-    customerFilter = ` AND customer_name = $${paramIdx}`;
+    customerClause = ` AND ${customerNameMatch('customer_name', paramIdx)}`;
     params.push(searchParams.get('customer'));
     paramIdx++;
   }
@@ -80,8 +134,8 @@ export async function handleUsageSummary(
       COALESCE(SUM(total_buy), 0) AS total_buy,
       COALESCE(SUM(total_sell), 0) AS total_sell,
       COALESCE(SUM(record_count), 0) AS total_records
-    FROM ${view}
-    WHERE ${tf.clause} ${dateFilter} ${customerFilter}
+    FROM ${source}
+    WHERE ${tf.clause} ${dateFilter} ${customerClause}
   `;
 
   const summary = await sql.unsafe(summaryQuery, params);
@@ -96,8 +150,8 @@ export async function handleUsageSummary(
       COALESCE(SUM(total_buy), 0) AS buy_total,
       COALESCE(SUM(total_sell), 0) AS sell_total,
       COALESCE(SUM(record_count), 0) AS records
-    FROM ${view}
-    WHERE ${tf.clause} ${dateFilter} ${customerFilter}
+    FROM ${source}
+    WHERE ${tf.clause} ${dateFilter} ${customerClause}
     GROUP BY ${dateCol}
     ORDER BY ${dateCol} ASC
   `;
@@ -110,6 +164,7 @@ export async function handleUsageSummary(
       from: from || 'all',
       to: to || 'now',
       group_by: groupBy,
+      timezone: tz,
     },
     summary: {
       total_consumption: Number(summary[0]?.total_consumption || 0),
@@ -158,15 +213,19 @@ export async function handleUsageBreakdown(
   let paramIdx = tf.nextIdx;
   let dateFilter = '';
 
-  if (from) {
-    dateFilter += ` AND usage_date >= $${paramIdx}::date`;
-    params.push(from);
-    paramIdx++;
-  }
-  if (to) {
-    dateFilter += ` AND usage_date <= $${paramIdx}::date`;
-    params.push(to);
-    paramIdx++;
+  if (from || to) {
+    const local = usageDayColumn(await getUserTimezone(sql, tenant), params);
+    paramIdx = params.length + 1;
+    if (from) {
+      dateFilter += ` AND ${usageDayBound(local, '>=', `$${paramIdx}::date`)}`;
+      params.push(from);
+      paramIdx++;
+    }
+    if (to) {
+      dateFilter += ` AND ${usageDayBound(local, '<=', `$${paramIdx}::date`)}`;
+      params.push(to);
+      paramIdx++;
+    }
   }
 
   if (isPlatformAdmin(tenant) && searchParams.get('tenant_id')) {
@@ -176,12 +235,13 @@ export async function handleUsageBreakdown(
   }
 
   // Customer scoping
-  if (tenant.role === 'customer' && tenant.customer_name) {
-    dateFilter += ` AND customer_name = $${paramIdx}`;
-    params.push(tenant.customer_name);
-    paramIdx++;
+  const cf = customerFilter(tenant, paramIdx);
+  if (cf) {
+    dateFilter += ` AND ${cf.clause}`;
+    params.push(...cf.params);
+    paramIdx = cf.nextIdx;
   } else if (isPlatformAdmin(tenant) && searchParams.get('customer')) {
-    dateFilter += ` AND customer_name = $${paramIdx}`;
+    dateFilter += ` AND ${customerNameMatch('customer_name', paramIdx)}`;
     params.push(searchParams.get('customer'));
     paramIdx++;
   }
@@ -247,12 +307,13 @@ export async function handleUsageRecords(
   }
 
   // Customer scoping
-  if (tenant.role === 'customer' && tenant.customer_name) {
-    filters.push(`customer_name = $${paramIdx}`);
-    params.push(tenant.customer_name);
-    paramIdx++;
+  const cf = customerFilter(tenant, paramIdx);
+  if (cf) {
+    filters.push(cf.clause);
+    params.push(...cf.params);
+    paramIdx = cf.nextIdx;
   } else if (isPlatformAdmin(tenant) && searchParams.get('customer')) {
-    filters.push(`customer_name = $${paramIdx}`);
+    filters.push(customerNameMatch('customer_name', paramIdx));
     params.push(searchParams.get('customer'));
     paramIdx++;
   }
@@ -333,25 +394,30 @@ export async function handleUsageRoaming(
   }
 
   // Customer scoping
-  if (tenant.role === 'customer' && tenant.customer_name) {
-    filters.push(`customer_name = $${paramIdx}`);
-    params.push(tenant.customer_name);
-    paramIdx++;
+  const cf = customerFilter(tenant, paramIdx);
+  if (cf) {
+    filters.push(cf.clause);
+    params.push(...cf.params);
+    paramIdx = cf.nextIdx;
   } else if (isPlatformAdmin(tenant) && searchParams.get('customer')) {
-    filters.push(`customer_name = $${paramIdx}`);
+    filters.push(customerNameMatch('customer_name', paramIdx));
     params.push(searchParams.get('customer'));
     paramIdx++;
   }
 
-  if (from) {
-    filters.push(`usage_date >= $${paramIdx}::date`);
-    params.push(from);
-    paramIdx++;
-  }
-  if (to) {
-    filters.push(`usage_date <= $${paramIdx}::date`);
-    params.push(to);
-    paramIdx++;
+  if (from || to) {
+    const local = usageDayColumn(await getUserTimezone(sql, tenant), params);
+    paramIdx = params.length + 1;
+    if (from) {
+      filters.push(usageDayBound(local, '>=', `$${paramIdx}::date`));
+      params.push(from);
+      paramIdx++;
+    }
+    if (to) {
+      filters.push(usageDayBound(local, '<=', `$${paramIdx}::date`));
+      params.push(to);
+      paramIdx++;
+    }
   }
 
   const whereClause = filters.join(' AND ');
@@ -440,30 +506,36 @@ export async function handleUsageCosts(
   }
 
   // Customer scoping
-  if (tenant.role === 'customer' && tenant.customer_name) {
-    filters.push(`customer_name = $${paramIdx}`);
-    params.push(tenant.customer_name);
-    paramIdx++;
+  const cf = customerFilter(tenant, paramIdx);
+  if (cf) {
+    filters.push(cf.clause);
+    params.push(...cf.params);
+    paramIdx = cf.nextIdx;
   } else if (isPlatformAdmin(tenant) && searchParams.get('customer')) {
-    filters.push(`customer_name = $${paramIdx}`);
+    filters.push(customerNameMatch('customer_name', paramIdx));
     params.push(searchParams.get('customer'));
     paramIdx++;
   }
 
+  // Months are the caller's local months
+  const local = usageDayColumn(await getUserTimezone(sql, tenant), params);
+  paramIdx = params.length + 1;
+
   // Default date range: last N months
   const from = searchParams.get('from');
   const to = searchParams.get('to');
   if (from) {
-    filters.push(`usage_date >= $${paramIdx}::date`);
+    filters.push(usageDayBound(local, '>=', `$${paramIdx}::date`));
     params.push(from);
     paramIdx++;
   } else {
-    filters.push(`usage_date >= (date_trunc('month', NOW()) - ($${paramIdx} || ' months')::interval)::date`);
+    filters.push(usageDayBound(local, '>=',
+      `(date_trunc('month', NOW() AT TIME ZONE ${local.tz}) - ($${paramIdx} || ' months')::interval)::date`));
     params.push(months.toString());
     paramIdx++;
   }
   if (to) {
-    filters.push(`usage_date <= $${paramIdx}::date`);
+    filters.push(usageDayBound(local, '<=', `$${paramIdx}::date`));
     params.push(to);
     paramIdx++;
   }
@@ -473,27 +545,27 @@ export async function handleUsageCosts(
   // Monthly cost by customer (using charged_consumption — the billable figure)
   const data = await sql.unsafe(`
     SELECT
-      date_trunc('month', usage_date)::date::text AS month,
+      date_trunc('month', ${local.day})::date::text AS month,
       COALESCE(customer_name, 'Unknown') AS customer,
       COALESCE(SUM(buy_charge), 0) AS wholesale_cost,
       COALESCE(SUM(charged_consumption), 0) AS total_bytes,
       COUNT(*) AS record_count
     FROM rpt_usage
     WHERE ${whereClause}
-    GROUP BY date_trunc('month', usage_date), customer_name
+    GROUP BY date_trunc('month', ${local.day}), customer_name
     ORDER BY month DESC, wholesale_cost DESC
   `, params);
 
   // Monthly totals (using charged_consumption)
   const monthlyTotals = await sql.unsafe(`
     SELECT
-      date_trunc('month', usage_date)::date::text AS month,
+      date_trunc('month', ${local.day})::date::text AS month,
       COALESCE(SUM(buy_charge), 0) AS wholesale_cost,
       COALESCE(SUM(charged_consumption), 0) AS total_bytes,
       COUNT(*) AS record_count
     FROM rpt_usage
     WHERE ${whereClause}
-    GROUP BY date_trunc('month', usage_date)
+    GROUP BY date_trunc('month', ${local.day})
     ORDER BY month DESC
   `, params);
 
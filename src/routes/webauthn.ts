@@ -0,0 +1,405 @@
+/**
+ * WebAuthn / passkey route handlers.
+ *
+ * A passkey replaces both the password and the second factor: the
+ * authenticator proves possession of the private key and performs user
+ * verification (biometric or PIN) itself.
+ *
+ * Protected endpoints (JWT required):
+ *   POST   /auth/webauthn/register/options  — Creation options + challenge_token
+ *   POST   /auth/webauthn/register/verify   — Store the new credential
+ *   GET    /auth/webauthn/credentials       — List the user's passkeys
+ *   DELETE /auth/webauthn/credentials/:id   — Remove a passkey
+ *
+ * Public endpoints (no auth required):
+ *   POST /auth/webauthn/login/options  — Request options + challenge_token
+ *   POST /auth/webauthn/login/verify   — Assertion → JWT (same as /auth/verify-otp)
+ *
+ * Challenges live in KV under `webauthn_challenge:<token>` for 5 minutes
+ * and are deleted on first use.
+ */
+
+import type postgres from 'postgres';
+import type { Env, TenantInfo } from '../types';
+import { jsonResponse, errorResponse } from '../utils/response';
+import { base64UrlEncode } from '../utils/base64url';
+import {
+  COSE_ALG_ES256,
+  COSE_ALG_RS256,
+  generateChallenge,
+  verifyRegistration,
+  verifyAssertion,
+  type RelyingParty,
+  type RegistrationResponse,
+  type AssertionResponse,
+} from '../utils/webauthn';
+import { issueSession, recordLoginFailure } from './auth';
+import { recordAudit } from '../utils/audit';
+
+const CHALLENGE_TTL_SECONDS = 300;
+
+interface PendingChallenge {
+  challenge: string;
+  type: 'register' | 'login';
+  /** Set for registration ceremonies */
+  user_id?: string;
+}
+
+/** Relying party derived from config, defaulting to the frontend's origin. */
+function relyingParty(env: Env): RelyingParty {
+  const origin = env.WEBAUTHN_ORIGIN || env.FRONTEND_URL || 'https://simsy-reporting.pages.dev';
+  return {
+    id: env.WEBAUTHN_RP_ID || new URL(origin).hostname,
+    origin: new URL(origin).origin,
+  };
+}
+
+/** Fetch and delete a pending challenge (single use). */
+async function consumeChallenge(env: Env, token: string): Promise<PendingChallenge | null> {
+  const key = `webauthn_challenge:${token}`;
+  const pending = (await env.TENANT_KV.get(key, 'json')) as PendingChallenge | null;
+  if (pending) await env.TENANT_KV.delete(key);
+  return pending;
+}
+
+/* ================================================================
+ * POST /auth/webauthn/register/options
+ * ================================================================ */
+
+export async function handleWebAuthnRegisterOptions(
+  sql: postgres.Sql,
+  tenant: TenantInfo,
+  env: Env,
+): Promise<Response> {
+  if (tenant.auth_method !== 'jwt' || !tenant.user_id) {
+    return errorResponse(400, 'Passkeys can only be registered from a JWT session');
+  }
+
+  const users = await sql`
+    SELECT id, email, display_name FROM auth_users WHERE id = ${tenant.user_id}
+  `;
+  if (users.length === 0) {
+    return errorResponse(404, 'User not found');
+  }
+  const user = users[0];
+
+  const existing = await sql`
+    SELECT credential_id, transports
+    FROM auth_webauthn_credentials
+    WHERE user_id = ${user.id}
+  `;
+
+  const challenge = generateChallenge();
+  const challengeToken = crypto.randomUUID();
+  const pending: PendingChallenge = { challenge, type: 'register', user_id: user.id };
+  await env.TENANT_KV.put(`webauthn_challenge:${challengeToken}`, JSON.stringify(pending), {
+    expirationTtl: CHALLENGE_TTL_SECONDS,
+  });
+
+  const rp = relyingParty(env);
+  return jsonResponse({
+    challenge_token: challengeToken,
+    publicKey: {
+      rp: { id: rp.id, name: 'S-IMSY Reporting' },
+      user: {
+        id: base64UrlEncode(user.id),
+        name: user.email,
+        displayName: user.display_name,
+      },
+      challenge,
+      pubKeyCredParams: [
+        { type: 'public-key', alg: COSE_ALG_ES256 },
+        { type: 'public-key', alg: COSE_ALG_RS256 },
+      ],
+      timeout: CHALLENGE_TTL_SECONDS * 1000,
+      attestation: 'none',
+      authenticatorSelection: {
+        residentKey: 'preferred',
+        userVerification: 'required',
+      },
+      excludeCredentials: existing.map((c: Record<string, unknown>) => ({
+        type: 'public-key',
+        id: c.credential_id,
+        transports: c.transports || undefined,
+      })),
+    },
+  });
+}
+
+/* ================================================================
+ * POST /auth/webauthn/register/verify
+ * ================================================================ */
+
+export async function handleWebAuthnRegisterVerify(
+  request: Request,
+  sql: postgres.Sql,
+  tenant: TenantInfo,
+  env: Env,
+): Promise<Response> {
+  if (tenant.auth_method !== 'jwt' || !tenant.user_id) {
+    return errorResponse(400, 'Passkeys can only be registered from a JWT session');
+  }
+
+  let body: {
+    challenge_token?: string;
+    name?: string;
+    credential?: { response?: RegistrationResponse & { transports?: string[] } };
+  };
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(400, 'Invalid JSON body');
+  }
+
+  const response = body.credential?.response;
+  if (!body.challenge_token || !response?.clientDataJSON || !response.attestationObject) {
+    return errorResponse(400, 'challenge_token and credential.response are required');
+  }
+
+  const pending = await consumeChallenge(env, body.challenge_token);
+  if (!pending || pending.type !== 'register' || pending.user_id !== tenant.user_id) {
+    return errorResponse(401, 'Invalid or expired registration challenge');
+  }
+
+  let verified;
+  try {
+    verified = await verifyRegistration(response, pending.challenge, relyingParty(env));
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return errorResponse(400, 'Passkey registration failed', msg);
+  }
+
+  const duplicate = await sql`
+    SELECT id FROM auth_webauthn_credentials WHERE credential_id = ${verified.credentialId}
+  `;
+  if (duplicate.length > 0) {
+    return errorResponse(409, 'This passkey is already registered');
+  }
+
+  const name = (body.name || 'Passkey').slice(0, 100);
+  const result = await sql`
+    INSERT INTO auth_webauthn_credentials
+      (user_id, credential_id, public_key, alg, sign_count, transports, name)
+    VALUES (
+      ${tenant.user_id},
+      ${verified.credentialId},
+      ${JSON.stringify(verified.publicKey)},
+      ${verified.alg},
+      ${verified.signCount},
+      ${response.transports ? JSON.stringify(response.transports) : null},
+      ${name}
+    )
+    RETURNING id, name, created_at
+  `;
+
+  await recordAudit(sql, request, {
+    action: 'passkey.register',
+    tenant,
+    target_type: 'passkey',
+    target_id: result[0].id,
+    after: { name },
+  });
+
+  return jsonResponse(
+    {
+      id: result[0].id,
+      name: result[0].name,
+      created_at: result[0].created_at,
+    },
+    201,
+  );
+}
+
+/* ================================================================
+ * GET /auth/webauthn/credentials
+ * ================================================================ */
+
+export async function handleListWebAuthnCredentials(
+  sql: postgres.Sql,
+  tenant: TenantInfo,
+): Promise<Response> {
+  if (!tenant.user_id) {
+    return errorResponse(400, 'Passkeys are only available for JWT sessions');
+  }
+
+  const rows = await sql`
+    SELECT id, name, created_at, last_used_at
+    FROM auth_webauthn_credentials
+    WHERE user_id = ${tenant.user_id}
+    ORDER BY created_at DESC
+  `;
+
+  return jsonResponse({ data: rows });
+}
+
+/* ================================================================
+ * DELETE /auth/webauthn/credentials/:id
+ * ================================================================ */
+
+export async function handleDeleteWebAuthnCredential(
+  credentialId: string,
+  request: Request,
+  sql: postgres.Sql,
+  tenant: TenantInfo,
+): Promise<Response> {
+  if (tenant.auth_method !== 'jwt' || !tenant.user_id) {
+    return errorResponse(400, 'Passkeys are only available for JWT sessions');
+  }
+
+  const deleted = await sql`
+    DELETE FROM auth_webauthn_credentials
+    WHERE id = ${credentialId} AND user_id = ${tenant.user_id}
+    RETURNING id, name
+  `;
+  if (deleted.length === 0) {
+    return errorResponse(404, 'Passkey not found');
+  }
+
+  await recordAudit(sql, request, {
+    action: 'passkey.delete',
+    tenant,
+    target_type: 'passkey',
+    target_id: credentialId,
+    before: { name: deleted[0].name },
+  });
+
+  return jsonResponse({ status: 'ok', message: 'Passkey removed' });
+}
+
+/* ================================================================
+ * POST /auth/webauthn/login/options
+ * ================================================================ */
+
+export async function handleWebAuthnLoginOptions(
+  request: Request,
+  sql: postgres.Sql,
+  env: Env,
+): Promise<Response> {
+  let body: { email?: string } = {};
+  try {
+    body = await request.json();
+  } catch {
+    // Empty body is fine — discoverable credential (username-less) login
+  }
+
+  // With an email we can hint the browser at that user's credentials.
+  // Without one, the authenticator offers any discoverable passkey for this RP.
+  let allowCredentials: { type: 'public-key'; id: string; transports?: string[] }[] = [];
+  if (body.email) {
+    const rows = await sql`
+      SELECT c.credential_id, c.transports
+      FROM auth_webauthn_credentials c
+      JOIN auth_users u ON u.id = c.user_id
+      WHERE u.email_lower = ${body.email.toLowerCase()}
+    `;
+    allowCredentials = rows.map((c: Record<string, unknown>) => ({
+      type: 'public-key' as const,
+      id: c.credential_id as string,
+      transports: (c.transports as string[] | null) || undefined,
+    }));
+  }
+
+  const challenge = generateChallenge();
+  const challengeToken = crypto.randomUUID();
+  const pending: PendingChallenge = { challenge, type: 'login' };
+  await env.TENANT_KV.put(`webauthn_challenge:${challengeToken}`, JSON.stringify(pending), {
+    expirationTtl: CHALLENGE_TTL_SECONDS,
+  });
+
+  return jsonResponse({
+    challenge_token: challengeToken,
+    publicKey: {
+      rpId: relyingParty(env).id,
+      challenge,
+      timeout: CHALLENGE_TTL_SECONDS * 1000,
+      userVerification: 'required',
+      allowCredentials,
+    },
+  });
+}
+
+/* ================================================================
+ * POST /auth/webauthn/login/verify
+ * ================================================================ */
+
+export async function handleWebAuthnLoginVerify(
+  request: Request,
+  sql: postgres.Sql,
+  env: Env,
+): Promise<Response> {
+  let body: {
+    challenge_token?: string;
+    credential?: { id?: string; response?: AssertionResponse };
+  };
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(400, 'Invalid JSON body');
+  }
+
+  const credentialId = body.credential?.id;
+  const response = body.credential?.response;
+  if (
+    !body.challenge_token ||
+    !credentialId ||
+    !response?.clientDataJSON ||
+    !response.authenticatorData ||
+    !response.signature
+  ) {
+    return errorResponse(400, 'challenge_token and credential are required');
+  }
+
+  // 1. Consume the challenge
+  const pending = await consumeChallenge(env, body.challenge_token);
+  if (!pending || pending.type !== 'login') {
+    return errorResponse(401, 'Invalid or expired login challenge');
+  }
+
+  // 2. Look up the credential and its owner
+  const rows = await sql`
+    SELECT c.id, c.user_id, c.public_key, c.alg, c.sign_count,
+           u.is_active, u.locked_until
+    FROM auth_webauthn_credentials c
+    JOIN auth_users u ON u.id = c.user_id
+    WHERE c.credential_id = ${credentialId}
+  `;
+  if (rows.length === 0) {
+    await recordLoginFailure(request, sql, 'unknown_passkey', {}, { method: 'passkey' });
+    return errorResponse(401, 'Unknown passkey');
+  }
+  const cred = rows[0];
+
+  // 3. Verify the assertion signature
+  let newSignCount: number;
+  try {
+    newSignCount = await verifyAssertion(response, pending.challenge, relyingParty(env), {
+      publicKey: typeof cred.public_key === 'string' ? JSON.parse(cred.public_key) : cred.public_key,
+      alg: Number(cred.alg),
+      signCount: Number(cred.sign_count),
+    });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.warn(`[AUTH] Passkey assertion rejected for credential ${cred.id}: ${msg}`);
+    await recordLoginFailure(request, sql, 'invalid_assertion', { id: cred.user_id }, { method: 'passkey', detail: msg });
+    return errorResponse(401, 'Passkey verification failed');
+  }
+
+  // 4. Same account checks as the password path
+  if (cred.locked_until && new Date(cred.locked_until) > new Date()) {
+    await recordLoginFailure(request, sql, 'locked', { id: cred.user_id }, { method: 'passkey' });
+    return errorResponse(423, 'Account temporarily locked');
+  }
+  if (!cred.is_active) {
+    await recordLoginFailure(request, sql, 'disabled', { id: cred.user_id }, { method: 'passkey' });
+    return errorResponse(403, 'Account disabled', 'Contact your administrator.');
+  }
+
+  await sql`
+    UPDATE auth_webauthn_credentials
+    SET sign_count = ${newSignCount}, last_used_at = now()
+    WHERE id = ${cred.id}
+  `;
+
+  // 5. Issue the session exactly as /auth/verify-otp does
+  return issueSession(request, sql, env, cred.user_id, 'passkey');
+}
@@ -1,3 +1,5 @@
+import type { Permission } from './permissions';
+
 export interface Env {
   HYPERDRIVE: Hyperdrive;
   TENANT_KV: KVNamespace;
@@ -5,32 +7,70 @@ export interface Env {
   RATE_LIMIT_PER_MINUTE: string;
   DEFAULT_PAGE_SIZE: string;
   MAX_PAGE_SIZE: string;
-  /** HS256 signing secret for JWTs (set via wrangler secret put) */
-  JWT_SECRET: string;
+  /** Legacy HS256 secret for JWTs — signs only when JWT_SIGNING_KEY is unset (set via wrangler secret put) */
+  JWT_SECRET?: string;
+  /** Private JWK (EC P-256 or RSA, with kid) used to sign JWTs (set via wrangler secret put) */
+  JWT_SIGNING_KEY?: string;
+  /** JWKS of previous public keys still accepted during rotation (set via wrangler secret put) */
+  JWT_VERIFICATION_KEYS?: string;
   /** Brevo API key for sending OTP emails (set via wrangler secret put) */
   BREVO_API_KEY: string;
-  /** JWT session lifetime in hours (default: "24") */
+  /** Idle session lifetime in hours — each refresh extends the session by this much (default: "24") */
   SESSION_TTL_HOURS: string;
+  /** Access token (JWT) lifetime in minutes (default: "15") */
+  ACCESS_TOKEN_TTL_MINUTES?: string;
+  /** Absolute session lifetime in hours, regardless of refreshes (default: "168") */
+  SESSION_MAX_AGE_HOURS?: string;
   /** OTP code lifetime in minutes (default: "5") */
   OTP_TTL_MINUTES: string;
   /** Sender email address for OTP emails */
   OTP_FROM_EMAIL: string;
   /** Frontend base URL for invite links */
   FRONTEND_URL: string;
+  /** WebAuthn relying-party ID (default: hostname of FRONTEND_URL) */
+  WEBAUTHN_RP_ID?: string;
+  /** Origin passkey ceremonies run on (default: origin of FRONTEND_URL) */
+  WEBAUTHN_ORIGIN?: string;
+  /** OIDC redirect URI registered with tenant IdPs (default: FRONTEND_URL + "/index.html") */
+  OIDC_REDIRECT_URI?: string;
+  /** Days a deleted user can be restored before the scheduled purge erases it (default: "30") */
+  USER_RETENTION_DAYS?: string;
 }
 
+/** rpt_tenants.tenant_kind (see src/utils/tenant-attributes.ts) */
+export type TenantKind = 'platform' | 'reseller' | 'customer_org';
+
 export interface TenantInfo {
   tenant_id: string;
   tenant_name: string;
   role: 'admin' | 'tenant' | 'customer';
+  /** Set after authentication from the tenant's attributes snapshot */
+  tenant_kind?: TenantKind;
+  /** Customer-scoped callers: their customer (customers.id) */
   customer_id?: string;
   customer_name?: string;
-  /** Present when authenticated via JWT */
+  /** Customer-scoped callers: every customer they may see (customers.id), their own first */
+  customer_ids?: string[];
+  /** Tenants granted beyond tenant_id, each with its descendants (see src/utils/user-grants.ts) */
+  granted_tenant_ids?: string[];
+  /** Customer-scoped callers: every spelling of each of their customers, set by withTenantContext */
+  customer_names?: string[];
+  /** Present when authenticated via JWT or API key */
   user_id?: string;
-  /** Present when authenticated via JWT */
+  /** Present when authenticated via JWT or API key */
   user_email?: string;
+  /** Present when authenticated via JWT — auth_sessions.token_hash of the current session */
+  session_hash?: string;
+  /** Present when a platform admin is viewing as this user — the admin behind the request */
+  impersonator?: { user_id: string; email: string };
+  /** Present when authenticated via API key */
+  api_key_id?: string;
+  /** Present when authenticated via API key — report types the key may read */
+  api_key_scopes?: string[];
+  /** Feature permissions (see src/permissions.ts) */
+  permissions: Permission[];
   /** How the request was authenticated */
-  auth_method: 'jwt' | 'service_token';
+  auth_method: 'jwt' | 'api_key' | 'service_token';
 }
 
 export interface PaginationParams {
@@ -0,0 +1,154 @@
+/**
+ * API key helpers.
+ *
+ * Keys look like `srk_<43 base64url chars>` and are shown to the user once.
+ * Postgres (auth_api_keys) holds only the SHA-256 hash plus metadata; the
+ * Worker authenticates from a KV snapshot at `apikey:<hash>` so requests
+ * never touch the auth tables. The snapshot is rewritten whenever the
+ * owning user changes and deleted on revocation.
+ *
+ * Keys are read-only: each scope grants the GET routes of one report type
+ * (plus POST /export for the `export` scope).
+ */
+
+import type postgres from 'postgres';
+import type { Env, TenantInfo } from '../types';
+import { base64UrlEncode } from './base64url';
+import { hashTokenId } from './crypto';
+import { resolvePermissions } from '../permissions';
+import { userScopeClaims } from './user-grants';
+
+export const API_KEY_PREFIX = 'srk_';
+
+/** Report-type scopes and the API paths (below /api/v1) each one unlocks. */
+export const API_KEY_SCOPES: Record<string, RegExp[]> = {
+  usage: [/^\/usage\/[^/]+$/],
+  revenue: [/^\/revenue\/[^/]+$/],
+  bundles: [/^\/bundles(\/[^/]+)?$/, /^\/bundle-instances$/],
+  endpoints: [/^\/endpoints(\/top|\/[^/]+\/usage)?$/],
+  export: [/^\/export$/],
+};
+
+/** Dropdown data every key may read, regardless of scope. */
+const ALWAYS_ALLOWED: RegExp[] = [/^\/filters\/(tenants|customers)$/];
+
+/** Shape of the `apikey:<hash>` KV entry. */
+export interface ApiKeySnapshot {
+  key_id: string;
+  user_id: string;
+  user_email: string;
+  tenant_id: string;
+  role: TenantInfo['role'];
+  /** The customer the key (or its customer-role owner) is limited to */
+  customer_id?: string | null;
+  customer_name: string | null;
+  /** Every customer the key may see: its restriction, else its customer-role owner's */
+  customer_ids?: string[];
+  /** The owner's granted tenants (see ./user-grants) */
+  granted_tenant_ids?: string[];
+  scopes: string[];
+  /** The owner's permissions, narrowed further by `scopes` */
+  permissions: string[];
+  /** ISO timestamp */
+  expires_at: string;
+}
+
+/** Throttle for last_used_at writes, in seconds. */
+const LAST_USED_RESOLUTION_SECONDS = 300;
+
+/** Generate a new raw API key. */
+export function generateApiKey(): string {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return `${API_KEY_PREFIX}${base64UrlEncode(bytes)}`;
+}
+
+/** True if an API key with `scopes` may call `method apiPath`. */
+export function apiKeyAllows(scopes: string[], method: string, apiPath: string): boolean {
+  if (method === 'GET' && ALWAYS_ALLOWED.some((re) => re.test(apiPath))) return true;
+
+  for (const scope of scopes) {
+    const patterns = API_KEY_SCOPES[scope];
+    if (!patterns || !patterns.some((re) => re.test(apiPath))) continue;
+    if (method === 'GET' || (scope === 'export' && method === 'POST')) return true;
+  }
+  return false;
+}
+
+/** Look up an API key's snapshot by its raw value. */
+export async function getApiKeySnapshot(env: Env, rawKey: string): Promise<ApiKeySnapshot | null> {
+  const keyHash = await hashTokenId(rawKey);
+  return (await env.TENANT_KV.get(`apikey:${keyHash}`, 'json')) as ApiKeySnapshot | null;
+}
+
+/**
+ * Rewrite (or delete) the KV snapshots of a user's live keys from the
+ * current auth_users row and grants. Call after any change to the user's
+ * role, tenant, customer(s), granted tenants or active flag.
+ */
+export async function syncUserApiKeys(sql: postgres.Sql, env: Env, userId: string): Promise<void> {
+  const keys = await sql`
+    SELECT k.id, k.key_hash, k.scopes, k.customer_id, k.customer_name, k.expires_at,
+           u.email, u.role, u.role_id, u.tenant_id, u.customer_id AS user_customer_id,
+           u.customer_name AS user_customer_name, u.is_active
+    FROM auth_api_keys k
+    JOIN auth_users u ON u.id = k.user_id
+    WHERE k.user_id = ${userId}
+      AND k.revoked_at IS NULL
+      AND k.expires_at > now()
+  `;
+
+  for (const k of keys) {
+    if (!k.is_active) {
+      await env.TENANT_KV.delete(`apikey:${k.key_hash}`);
+      continue;
+    }
+    const claims = await userScopeClaims(sql, { id: userId, role: k.role, customer_id: k.user_customer_id });
+    await putApiKeySnapshot(env, k.key_hash, {
+      key_id: k.id,
+      user_id: userId,
+      user_email: k.email,
+      tenant_id: k.tenant_id,
+      // A customer restriction narrows the key to that customer's data
+      role: k.customer_name ? 'customer' : k.role,
+      customer_id: k.customer_name ? k.customer_id : k.user_customer_id,
+      customer_name: k.customer_name || k.user_customer_name || null,
+      customer_ids: k.customer_name ? (k.customer_id ? [k.customer_id] : undefined) : claims.customer_ids,
+      granted_tenant_ids: claims.granted_tenant_ids,
+      scopes: k.scopes,
+      permissions: await resolvePermissions(sql, { role: k.role, role_id: k.role_id }),
+      expires_at: new Date(k.expires_at).toISOString(),
+    });
+  }
+}
+
+/** Write a snapshot to KV, expiring with the key itself. */
+export async function putApiKeySnapshot(env: Env, keyHash: string, snapshot: ApiKeySnapshot): Promise<void> {
+  // KV rejects expirations less than 60 seconds away; such a key is as good as expired
+  const expiration = Math.floor(new Date(snapshot.expires_at).getTime() / 1000);
+  if (expiration - Math.floor(Date.now() / 1000) < 60) {
+    await env.TENANT_KV.delete(`apikey:${keyHash}`);
+    return;
+  }
+  await env.TENANT_KV.put(`apikey:${keyHash}`, JSON.stringify(snapshot), { expiration });
+}
+
+/** Revoke every live key of a user (deactivation / deletion). */
+export async function revokeUserApiKeys(sql: postgres.Sql, env: Env, userId: string): Promise<void> {
+  const revoked = await sql`
+    UPDATE auth_api_keys SET revoked_at = now()
+    WHERE user_id = ${userId} AND revoked_at IS NULL
+    RETURNING key_hash
+  `;
+  for (const k of revoked) {
+    await env.TENANT_KV.delete(`apikey:${k.key_hash}`);
+  }
+}
+
+/** Record use of a key, at most once per LAST_USED_RESOLUTION_SECONDS. */
+export async function touchApiKey(sql: postgres.Sql, env: Env, keyId: string): Promise<void> {
+  const marker = `apikey_used:${keyId}`;
+  if (await env.TENANT_KV.get(marker)) return;
+  await env.TENANT_KV.put(marker, '1', { expirationTtl: LAST_USED_RESOLUTION_SECONDS });
+  await sql`UPDATE auth_api_keys SET last_used_at = now() WHERE id = ${keyId}`;
+}
@@ -0,0 +1,135 @@
+/**
+ * Audit log writer.
+ *
+ * Admin and security-relevant actions append a row to audit_log (see
+ * migrations/008_audit_log.sql): who acted, in which tenant, on what, with
+ * a field-level before/after diff plus the caller's IP and user agent.
+ *
+ * Secrets never reach the log — fields such as password_hash or
+ * client_secret are recorded only as "[redacted]". A failure to write an
+ * entry is logged but never fails the action being audited: inside a
+ * transaction (withTenantContext) the INSERT runs in a savepoint, so its
+ * failure doesn't abort the caller's transaction.
+ */
+
+import type postgres from 'postgres';
+import type { TenantInfo } from '../types';
+
+/** Fields whose values are replaced before they are stored. */
+const REDACTED_FIELDS = new Set([
+  'password',
+  'password_hash',
+  'salt',
+  'totp_secret',
+  'totp_pending_secret',
+  'client_secret',
+  'key_hash',
+  'token_hash',
+]);
+
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+export interface AuditEvent {
+  /** Dotted event name, e.g. "user.update" or "auth.login_failed" */
+  action: string;
+  /** The authenticated caller. Omit on public routes and set `actor` instead. */
+  tenant?: TenantInfo;
+  /** Actor on unauthenticated routes (login attempts) */
+  actor?: { user_id?: string | null; email?: string | null };
+  /** Tenant of the affected object (default: the caller's tenant) */
+  tenant_id?: string | null;
+  target_type?: string;
+  target_id?: string | null;
+  /** State before the change; omit on create */
+  before?: Record<string, unknown> | null;
+  /** State after the change; omit on delete */
+  after?: Record<string, unknown> | null;
+  metadata?: Record<string, unknown>;
+}
+
+/** Client IP as seen by Cloudflare. */
+export function clientIp(request: Request): string {
+  return request.headers.get('CF-Connecting-IP') || request.headers.get('X-Forwarded-For') || 'unknown';
+}
+
+/** User agent, truncated to what the DB columns store. */
+export function clientUserAgent(request: Request): string {
+  return (request.headers.get('User-Agent') || 'unknown').slice(0, 500);
+}
+
+function redact(field: string, value: unknown): unknown {
+  return REDACTED_FIELDS.has(field) && value !== null && value !== undefined ? '[redacted]' : value;
+}
+
+function comparable(value: unknown): string {
+  return JSON.stringify(value instanceof Date ? value.toISOString() : value ?? null);
+}
+
+/**
+ * Field-level diff of two snapshots. Only fields that differ are included;
+ * on create (no `before`) or delete (no `after`) every field is.
+ */
+export function diffChanges(
+  before?: Record<string, unknown> | null,
+  after?: Record<string, unknown> | null,
+): AuditChanges | null {
+  if (!before && !after) return null;
+
+  const changes: AuditChanges = {};
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  for (const field of fields) {
+    const from = before ? before[field] ?? null : null;
+    const to = after ? after[field] ?? null : null;
+    if (before && after && comparable(from) === comparable(to)) continue;
+    // A changed secret is recorded, its value is not
+    changes[field] = { from: redact(field, from), to: redact(field, to) };
+  }
+  return Object.keys(changes).length > 0 ? changes : null;
+}
+
+/**
+ * Append an entry to the audit log. Never throws, and a failed write is
+ * rolled back to a savepoint when `sql` is a transaction, leaving the
+ * transaction usable. `request` is null for scheduled jobs, which have no
+ * caller IP or user agent.
+ */
+export async function recordAudit(
+  sql: postgres.Sql,
+  request: Request | null,
+  event: AuditEvent,
+): Promise<void> {
+  // Under impersonation the accountable actor is the admin, not the user viewed
+  const impersonator = event.tenant?.impersonator;
+  const actorUserId = impersonator?.user_id ?? event.tenant?.user_id ?? event.actor?.user_id ?? null;
+  const actorEmail = impersonator?.email ?? event.tenant?.user_email ?? event.actor?.email ?? null;
+  const changes = diffChanges(event.before, event.after);
+
+  const write = (db: postgres.Sql) => db`
+    INSERT INTO audit_log
+      (actor_user_id, actor_email, actor_method, tenant_id, action,
+       target_type, target_id, changes, metadata, ip_address, user_agent)
+    VALUES (
+      ${actorUserId},
+      ${actorEmail},
+      ${impersonator ? 'impersonation' : event.tenant?.auth_method ?? null},
+      ${event.tenant_id !== undefined ? event.tenant_id : event.tenant?.tenant_id ?? null},
+      ${event.action},
+      ${event.target_type ?? null},
+      ${event.target_id ?? null},
+      ${changes ? JSON.stringify(changes) : null},
+      ${event.metadata ? JSON.stringify(event.metadata) : null},
+      ${request ? clientIp(request) : null},
+      ${request ? clientUserAgent(request) : null}
+    )
+  `;
+
+  try {
+    if ('savepoint' in sql) {
+      await (sql as unknown as postgres.TransactionSql).savepoint((sp) => write(sp as unknown as postgres.Sql));
+    } else {
+      await write(sql);
+    }
+  } catch (err) {
+    console.error(`[AUDIT] Failed to record ${event.action}:`, err);
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * Base64-URL encoding helpers (RFC 4648 §5, no padding).
+ *
+ * Shared by JWT signing and WebAuthn, which both exchange binary
+ * values as base64url strings.
+ */
+
+export function base64UrlEncode(input: string | ArrayBuffer | Uint8Array): string {
+  const str =
+    typeof input === 'string'
+      ? btoa(input)
+      : btoa(String.fromCharCode(...(input instanceof Uint8Array ? input : new Uint8Array(input))));
+  return str.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function base64UrlDecode(str: string): string {
+  let padded = str.replace(/-/g, '+').replace(/_/g, '/');
+  while (padded.length % 4) padded += '=';
+  return atob(padded);
+}
+
+export function base64UrlDecodeBytes(str: string): Uint8Array {
+  const raw = base64UrlDecode(str);
+  return Uint8Array.from(raw, (c) => c.charCodeAt(0));
+}
@@ -0,0 +1,216 @@
+/**
+ * Bundled list of common and breached passwords, for offline checks.
+ *
+ * Stored k-anonymity style, like the Pwned Passwords range API: the SHA-1
+ * of each lower-cased password is split into a 5-character prefix bucket
+ * and the remaining suffix, so the plain-text list never ships in the
+ * bundle and a lookup only scans one small bucket.
+ *
+ * To add entries, append SHA-1(lower(password)) under its prefix.
+ */
+
+export const COMMON_PASSWORD_SHA1: Record<string, string[]> = {
+  '011c9': ['45f30ce2cbafc452f39840f025693339c42'],
+  '019db': ['0bfd5f85951cb46e4452e9642858c004155'],
+  '01b30': ['7acba4f54f55aafc33bb06bbbf6ca803e9a'],
+  '02e0a': ['999c50b1f88df7a8f5a04e1b76b35ea6a88'],
+  '05fe7': ['461c607c33229772d402505601016a7d0ea'],
+  '07313': ['f0e320f22cbfa35cfc220508eb3ff457c7e'],
+  '08d7d': ['e6cbf6c3fa0a26e094e5115bcd1a0e3d2c3'],
+  '091b5': ['035885c00170fec9ecf24224933e3de3fcc'],
+  '09a76': ['4b74ed0215c7353753789497fdc2bd6f7d3'],
+  '0ee2e': ['b19386b6f592e4e1c821c939a1692334bea'],
+  '0f125': ['41afcce175fb34bb05a79c95b76e765488b'],
+  '10c28': ['f9cf0668595d45c1090a7b4a2ae98edfa58'],
+  '12e92': ['93ec6b30c7fa8a0926af42807e929c1684f'],
+  '14116': ['78a0b9e25ee2f7c8b2f7ac92b6a74b3f9c5'],
+  '153fa': ['238cec90e5a24b85a79109f91ebe68ca481'],
+  '17b9e': ['1c64588c7fa6419b4d29dc1f4426279ba01'],
+  '18c28': ['604dd31094a8d69dae60f1bcd347f1afc5a'],
+  '1999e': ['4893f732ba38b948dbe8d34ed48cd54f058'],
+  '1cb5b': ['d5a9e45420321f44c72da5d90d7f0432ffb'],
+  '1cf4c': ['502ddd89b918c4bfefea76dadd590693b48'],
+  '1d7b7': ['4b0f11df605a6dff041c3c1d12544f882f2'],
+  '20eab': ['e5d64b0e216796e834f52d61fd0b70332fc'],
+  '2394e': ['eac9fc3db56189a894e221220b6089e78d3'],
+  '23f29': ['16e01209d6282f226be9677affaec44a8d6'],
+  '25846': ['5759831222d475216e3266e71e3567310dd'],
+  '285cc': ['f96c1be00b38b47b73e47c18b2f9246853b'],
+  '2942c': ['a8605012db754a661870524716ff29ce0e9'],
+  '2b888': ['9e80cb6afc64ea9923339183799475b1123'],
+  '2c4c3': ['891e2ac6958e9810a1e49c6705784fbfa1a'],
+  '2d27b': ['62c597ec858f6e7b54e7e58525e6a95e6d8'],
+  '2e2b6': ['533a81bc15430cf65de46dc097eeb5ba70c'],
+  '2e38d': ['47e05aaa48ce6b8a39da5ac7fb6440813d4'],
+  '2f060': ['9fb5eeec340ade82d1b1b97fbb668267fd5'],
+  '3179a': ['65eff2523bbde53c99b299b719c10a35235'],
+  '32715': ['6ab287c6aa52c8670e13163fc1bf660add4'],
+  '33590': ['1aa38d80c52f27c19c9014d2088431b3cf4'],
+  '33c76': ['f70af66754ca47d19b17da8dc232e125253'],
+  '36e61': ['8512a68721f032470bb0891adef3362cfa9'],
+  '38b96': ['de8e2f48556f058b218cc5f55073fc68374'],
+  '3acd0': ['be86de7dcccdbf91b20f94a68cea535922d'],
+  '3b004': ['ac6d8a602681f5ee3587c924855679e21d9'],
+  '3d0f3': ['b9ddcacec30c4008c5e030e6c13a478cb4f'],
+  '3d4f2': ['bf07dc1be38b20cd6e46949a1071f9d0e3d'],
+  '3daad': ['a1d4b7e49dd8657a7a3a36c0833b9116e6b'],
+  '3decd': ['49a6c6dce88c16a85b9a8e42b51aa36f1e2'],
+  '3f3c5': ['8ae42b9b422897ffc175014a2a4fcf16d7b'],
+  '3fb37': ['2a9023613ace074b4e66ecc4360a00f03b4'],
+  '3fcfc': ['1f7f34e78a937e81171ba51dc39538db993'],
+  '40123': ['e9c6273385ea69892c48c80aa6cb25b9113'],
+  '40d35': ['d55f267e36711ecb6dca59df4036a1dd556'],
+  '476e2': ['51cc54b60534f68d0f614fcc67950151353'],
+  '47dfd': ['61b81026a5065a72623ec9430a703c9a756'],
+  '48058': ['e0c99bf7d689ce71c360699a14ce2f99774'],
+  '48efc': ['4851e15940af5d477d3c0ce99211a70a3be'],
+  '4b18a': ['12b72bc7f767872f3eb46d7064733e7501b'],
+  '4c0d2': ['b951ffabd6f9a10489dc40fc356ec1d26d5'],
+  '4d901': ['2b4a77a9524d675dad27c3276ab5705e5e8'],
+  '4f26a': ['eafdb2367620a393c973eddbe8f8b846ebd'],
+  '51c47': ['6f0bcaf6bbb300a2632ec50b66fb012e9b6'],
+  '56259': ['dd1c4ea0117cd601fff7aefa0e8892a3b25'],
+  '57b2a': ['d99044d337197c0c39fd3823568ff81e48a'],
+  '59033': ['478180d07080d5e4f3baa0099996c364162'],
+  '5a8f7': ['0e725742ee64204353e700778b29f81b988'],
+  '5baa6': ['1e4c9b93f3f0682250b6cf8331b7ee68fd8'],
+  '5c17f': ['a03e6d5fc247565e1cd8ffa70e1bfe5b8d9'],
+  '5c6d9': ['edc3a951cda763f650235cfc41a3fc23fe8'],
+  '5cec1': ['75b165e3d5e62c9e13ce848ef6feac81bff'],
+  '5d74a': ['e093a16a00e5af127763f2dc7e13988f162'],
+  '5f50a': ['84c1fa3bcff146405017f36aec1a10a9e38'],
+  '5fa33': ['9bbbb1eeaced3b52e54f44576aaf0d77d96'],
+  '5fee0': ['0239940f883d4c2854e41c7f989e75278a3'],
+  '601f1': ['889667efaebb33b8c12572835da3f027f78'],
+  '624c2': ['2a8c8f8c93f18fe5ecd4713100c8d754507'],
+  '62f15': ['7898406f9cb23f3a738981c9b10fc916882'],
+  '6367c': ['48dd193d56ea7b0baad25b19455e529f5ee'],
+  '6420e': ['d4d831b436d1e92d25605d18297296374e3'],
+  '64356': ['bcfae350c970263c1ce575185b289f7b836'],
+  '64438': ['ee426438161da88554b3e2de796b0ca265e'],
+  '658de': ['a946b9e9a54bc3059ada2b245256992fd8a'],
+  '6740d': ['1ecb48c5c9ca3b2a3cb1ca2f4b4d4487473'],
+  '691ab': ['698a43fd6443f845ccd2b7f8f1607a14aee'],
+  '6a336': ['772f9af64a44a0559dd7f9dfc0551542c47'],
+  '6c616': ['f7c2d2fde9018a09f06eaefcfc7582bc7ba'],
+  '6e2f9': ['e6111e77edd0c446ea7a84e25323d137a61'],
+  '7110e': ['da4d09e062aa5e4a390b0a572ac0d2c0220'],
+  '7212a': ['9e01329ea93a57f574bd9bf77695d5fdca4'],
+  '721d6': ['5122734734800a1edd6e68c03210e7b2aca'],
+  '74a87': ['1acbf060dda5fc7260d05a5924a34e4c0e7'],
+  '775bb': ['961b81da1ca49217a48e533c832c337154a'],
+  '782f9': ['b10621e362d5bd0def3a279b5e0908c9ebb'],
+  '7ab51': ['5d12bd2cf431745511ac4ee13fed15ab578'],
+  '7c222': ['fb2927d828af22f592134e8932480637c0d'],
+  '7c4a8': ['d09ca3762af61e59520943dc26494f8941b'],
+  '7c6a6': ['1c68ef8b9b6b061b28c348bc1ed7921cb53'],
+  '7cf7e': ['ddb174125539dd241cd745391694250e526'],
+  '7e0e0': ['c4012fca9f0a18c802df01e758713a0751b'],
+  '7ea35': ['d812706d9213868749011af1ed4fa2f6aa0'],
+  '7ec8a': ['a461c2c28be905e1dfb0be256a971aa6108'],
+  '7ecfd': ['8f97b4729c6ff0799b0b4d40f870083b461'],
+  '7eda7': ['7675fee6b6dccbd9cd01587b9bcaf74e7fa'],
+  '88ea3': ['9439e74fa27c09a4fc0bc8ebe6d00978392'],
+  '8ac21': ['c6ecda35ffb18d58264aeb43ca800b3d758'],
+  '8c258': ['085654083b891cb5125cb6dcb740c8a73f8'],
+  '8c31b': ['65bdecdc9f18b695d7318186fd1feed690d'],
+  '8cb22': ['37d0679ca88db6464eac60da96345513964'],
+  '8d6e3': ['4f987851aa599257d3831a1af040886842f'],
+  '8d993': ['ccdf628e26e170a949ee2a3870455dbd8fa'],
+  '9048e': ['ad9080d9b27d6b2b6ed363cbf8cce795f7f'],
+  '91dfd': ['9ddb4198affc5c194cd8ce6d338fde470e2'],
+  '92119': ['e2c63e9366acfefe818b50537a85577e2db'],
+  '929d3': ['ba22d02b494dd0971784a3700c3dbf1d89f'],
+  '93ec7': ['1b22793a81569c94ca17e4d9c293d8e201f'],
+  '940c0': ['f26fd5a30775bb1cbd1f6840398d39bb813'],
+  '9752f': ['b540f7084ff266a7a6439fe883c380cf49f'],
+  '99515': ['88299adc0a29070c8830ec1614af9281adf'],
+  '99996': ['b911567c83cce17cdf194f314975c57ddf1'],
+  '9bc34': ['549d565d9505b287de0cd20ac77be1d3f2c'],
+  '9cf95': ['dacd226dcf43da376cdb6cbba7035218921'],
+  '9d4e1': ['e23bd5b727046a9e3b4b7db57bd8d6ee684'],
+  '9f2fe': ['b0f1ef425b292f2f94bc8482494df430413'],
+  '9f82a': ['9e8c93e69a1a6276a738d0b30626a7ca38e'],
+  '9fd8d': ['e5fc2a7c2c0d469b2fff1afde4e5def37ba'],
+  'a240a': ['1757ef2e0abf3f252dccec6895fc90d6385'],
+  'a2c90': ['1c8c6dea98958c219f6f2d038c44dc5d362'],
+  'a4ac9': ['14c09d7c097fe1f4f96b897e625b6922069'],
+  'a642a': ['77abd7d4f51bf9226ceaf891fcbb5b299b8'],
+  'a6f37': ['5a196cd4c89c41dbb4500553ebf3bab0a41'],
+  'ab87d': ['24bdc7452e55738deb5f868e1f16dea5ace'],
+  'ac137': ['c6ae0947718332991e7cb2f50eb20b62aaa'],
+  'ae903': ['0c665364eb2651d450e8321ae62dd51a726'],
+  'af897': ['8b1797b72acfff9595a5a2a373ec3d9106d'],
+  'aff8d': ['18e7ccca4b44489e74d3771812037649654'],
+  'b0399': ['d2029f64d445bd131ffaa399a42d2f8e7dc'],
+  'b0983': ['3cec69eff1bb667940a45e311262e85a422'],
+  'b1b37': ['73a05c0ed0176787a4f1574ff0075f7521e'],
+  'b3aca': ['92c793ee0e9b1a9b0a5f5fc044e05140df3'],
+  'b487a': ['f41779cffb9572b982e1a0bf83f0eafbe05'],
+  'b6b05': ['46ccbb573171234d3f56b8c6e5154db531a'],
+  'b7a87': ['5fc1ea228b9061041b7cec4bd3c52ab3ce3'],
+  'b7c40': ['b9c66bc88d38a59e554c639d743e77f1b65'],
+  'b80a9': ['aed8af17118e51d4d0c2d7872ae26e2109e'],
+  'b8468': ['9b769ab3d929f7cc14ee35e77c4ae6427c8'],
+  'badcf': ['a3c62742b3bcc1dcd893e78713bd36aa430'],
+  'bb49c': ['7585c5f8ccd540081e05bd02370f1bd9a73'],
+  'bcef7': ['a046258082993759bade995b3ae8bee26c7'],
+  'bde4f': ['cfe6cc9fbf17e4812357cf570f80ae4718b'],
+  'bf2f7': ['49e80c970f50552e9d5f3e8434e78b88d35'],
+  'bfd36': ['17727eab0e800e62a776c76381defbc4145'],
+  'bfe54': ['caa6d483cc3887dce9d1b8eb91408f1ea7a'],
+  'c0b13': ['7fe2d792459f26ff763cce44574a5b5ab03'],
+  'c2311': ['e92660de47b456e721b0dabc9f857ab48f0'],
+  'c5b50': ['d6102984281c0e94a97b591e174b66853fa'],
+  'c6026': ['6a8adad2f8ee67d793b4fd3fd0ffd73cc61'],
+  'c6922': ['b6ba9e0939583f973bc1682493351ad4fe8'],
+  'c85ef': ['666591bd1bf5f34b1ad2f82cfae685fcdd5'],
+  'c984a': ['ed014aec7623a54f0591da07a85fd4b762d'],
+  'cb45c': ['671cbc500627ea424eea5f91996221b5935'],
+  'cbf25': ['10a5f9f7eece23428da7125c06115839e2b'],
+  'cbfda': ['c6008f9cab4083784cbd1874f76618d2a97'],
+  'cdf54': ['7ed4c64e6994af35cfcd69c4204c9227a97'],
+  'cedf4': ['1fccb586dc39e1ce34bb482f0afe557b49f'],
+  'cf7c9': ['06bfbb48e72288fc016bac0e6ed58b0dc2a'],
+  'cfef1': ['1d457da9dc9dd29b23b4434bab5483519f1'],
+  'd033e': ['22ae348aeb5660fc2140aec35850c4da997'],
+  'd6058': ['ac17c549e50b19a107cdfe6aa49fcdfd9f5'],
+  'd637e': ['6edaf4193ffcd807b5f60282a26ff72989b'],
+  'd6955': ['d9721560531274cb8f50ff595a9bd39d66f'],
+  'd8cd1': ['0b920dcbdb5163ca0185e402357bc27c265'],
+  'dbbd4': ['6e0dccedfca1c2b903dc724f85844ce5595'],
+  'dc76e': ['9f0c0006e8f919e0c515c66dbba3982f785'],
+  'dd08b': ['58e1d30dad48d37a35a8760cffe8d756cfa'],
+  'dd5fe': ['f9c1c1da1394d6d34b248c51be2ad740840'],
+  'e0c95': ['748a455c27a80fd289269120d4944d1f318'],
+  'e2869': ['77b13f1a89e20d0459207545d15fe1eba08'],
+  'e34c4': ['aea0c56cfdb2dc008b7ded8cefb3e184759'],
+  'e35be': ['ce6c5e6e0e86ca51d0440e92282a9d6ac8a'],
+  'e38ad': ['214943daad1d64c102faec29de4afe9da3d'],
+  'e3cd9': ['f6469fc3e1acfb9f2bdbfc5a3d2bbb8e2ad'],
+  'e68e1': ['1be8b70e435c65aef8ba9798ff7775c361e'],
+  'e6b6a': ['fbd6d76bb5d2041542d7d2e3fac5bb05593'],
+  'e7578': ['7856c781087b5fb7845907043578f132e63'],
+  'e8126': ['c64c3486e84081fffad6a0ab22d4267bb41'],
+  'e9fe5': ['1f94eadabf54dbf2fbbd57188b9abee436e'],
+  'eb460': ['8cebfcfd4df81410cbd06507ea6af978d9c'],
+  'eba91': ['e9bfaae21158ef2ab24cb2dfe82ccc3aeea'],
+  'ed9d3': ['d832af899035363a69fd53cd3be8f71501c'],
+  'ee8d8': ['728f435fd550f83852aabab5234ce1da528'],
+  'f09b3': ['eb368b9d267a54b8878da46c9766f46663e'],
+  'f2847': ['b1bd9624f927e979c1846d9fe17dd65f518'],
+  'f2b14': ['f68eb995facb3a1c35287b778d5bd785511'],
+  'f2c57': ['870308dc87f432e5912d4de6f8e322721ba'],
+  'f2e69': ['a5cd49bdbe452f341c5cfae233666cdce32'],
+  'f3215': ['7a45887e4fe5adc0b5198f7ec4920a526d7'],
+  'f4ee7': ['415066b23ed0c5555e3a10aa76726a995d7'],
+  'f766e': ['1e8f4cd5a247079c0b3bedadff6a93d70c3'],
+  'f7a9e': ['24777ec23212c54d7a350bc5bea5477fdbb'],
+  'f7c3b': ['c1d808e04732adf679965ccc34ca7ae3441'],
+  'f80d0': ['ca101e967b50b730ddf8e8aca0de85e8df6'],
+  'f865b': ['53623b121fd34ee5426c792e5c33af8c227'],
+  'fa9be': ['b99e4029ad5a6615399e7bbae21356086b3'],
+  'fb15a': ['1bc444e13e2c58a0a502c74a54106b5a0dc'],
+  'fba9f': ['1c9ae2a8afe7815c9cdd492512622a66302'],
+  'fe2c9': ['038d7d5822c1fd6742f00d45cfd76a20ba2'],
+};
@@ -2,14 +2,36 @@
  * Cryptographic utilities for authentication.
  *
  * Uses the Web Crypto API (available in Cloudflare Workers).
- * Password hashing uses PBKDF2-SHA256 with 100,000 iterations
- * (Cloudflare Workers Web Crypto API limit).
+ *
+ * Password hashes are stored self-describing:
+ *
+ *   pbkdf2-sha256$<iterations>$<salt b64>$<hash b64>
+ *
+ * so the work factor or algorithm can change without a reset — see
+ * needsRehash(). Hashes written before this format are bare base64 with
+ * the salt in its own column; verifyPassword() still accepts them.
+ * New hashes use PBKDF2-SHA256 with 100,000 iterations (Cloudflare
+ * Workers Web Crypto API limit).
  */
 
+import { base64UrlEncode } from './base64url';
+
+/** Algorithm and work factor for newly written password hashes. */
+const PASSWORD_ALGORITHM = 'pbkdf2-sha256';
 const PBKDF2_ITERATIONS = 100_000;
 const SALT_BYTES = 16;
 const HASH_BYTES = 32; // 256 bits
 
+/** Web Crypto digest for each supported hash algorithm. */
+const PBKDF2_DIGESTS: Record<string, string> = {
+  'pbkdf2-sha256': 'SHA-256',
+  'pbkdf2-sha512': 'SHA-512',
+};
+
+/** Parameters of the unversioned hashes stored before the encoded format. */
+const LEGACY_ALGORITHM = 'pbkdf2-sha256';
+const LEGACY_ITERATIONS = 100_000;
+
 /* ---------- Helpers ---------- */
 
 function toBase64(buf: ArrayBuffer): string {
@@ -20,23 +42,36 @@ function fromBase64(b64: string): Uint8Array {
   return Uint8Array.from(atob(b64), (c) => c.charCodeAt(0));
 }
 
+/** Constant-time string comparison. */
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
 /* ---------- Password hashing ---------- */
 
+interface ParsedPasswordHash {
+  algorithm: string;
+  iterations: number;
+  salt: string;
+  hash: string;
+}
+
 /** Generate a random 16-byte salt, returned as base64. */
-export function generateSalt(): string {
+function generateSalt(): string {
   const salt = new Uint8Array(SALT_BYTES);
   crypto.getRandomValues(salt);
   return toBase64(salt.buffer);
 }
 
-/** Hash a password with PBKDF2-SHA256. Returns a base64 string. */
-export async function hashPassword(password: string, salt: string): Promise<string> {
-  const encoder = new TextEncoder();
-  const saltBytes = fromBase64(salt);
-
+async function pbkdf2(password: string, salt: string, digest: string, iterations: number): Promise<string> {
   const keyMaterial = await crypto.subtle.importKey(
     'raw',
-    encoder.encode(password),
+    new TextEncoder().encode(password),
     'PBKDF2',
     false,
     ['deriveBits'],
@@ -45,9 +80,9 @@ export async function hashPassword(password: string, salt: string): Promise<stri
   const bits = await crypto.subtle.deriveBits(
     {
       name: 'PBKDF2',
-      salt: saltBytes,
-      iterations: PBKDF2_ITERATIONS,
-      hash: 'SHA-256',
+      salt: fromBase64(salt),
+      iterations,
+      hash: digest,
     },
     keyMaterial,
     HASH_BYTES * 8,
@@ -56,21 +91,52 @@ export async function hashPassword(password: string, salt: string): Promise<stri
   return toBase64(bits);
 }
 
-/** Verify a password against a stored hash+salt. Constant-time comparison. */
+/**
+ * Split a stored hash into its parameters. Legacy bare hashes take their
+ * salt from the separate column. Returns null for anything unrecognised.
+ */
+function parsePasswordHash(stored: string, legacySalt?: string | null): ParsedPasswordHash | null {
+  const parts = stored.split('$');
+  if (parts.length === 1) {
+    if (!legacySalt) return null;
+    return { algorithm: LEGACY_ALGORITHM, iterations: LEGACY_ITERATIONS, salt: legacySalt, hash: stored };
+  }
+
+  const [algorithm, iterations, salt, hash] = parts;
+  const n = Number(iterations);
+  if (parts.length !== 4 || !PBKDF2_DIGESTS[algorithm] || !Number.isInteger(n) || n < 1) return null;
+  return { algorithm, iterations: n, salt, hash };
+}
+
+/** Hash a password with the current algorithm and a fresh salt. Returns the encoded hash. */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = generateSalt();
+  const hash = await pbkdf2(password, salt, PBKDF2_DIGESTS[PASSWORD_ALGORITHM], PBKDF2_ITERATIONS);
+  return `${PASSWORD_ALGORITHM}$${PBKDF2_ITERATIONS}$${salt}$${hash}`;
+}
+
+/**
+ * Verify a password against a stored hash in any supported format.
+ * `legacySalt` is the salt column, only needed for pre-encoding hashes.
+ * Constant-time comparison.
+ */
 export async function verifyPassword(
   password: string,
-  storedHash: string,
-  salt: string,
+  storedHash: string | null,
+  legacySalt?: string | null,
 ): Promise<boolean> {
-  const computed = await hashPassword(password, salt);
+  if (!storedHash) return false;
+  const parsed = parsePasswordHash(storedHash, legacySalt);
+  if (!parsed) return false;
 
-  // Constant-time comparison to prevent timing attacks
-  if (computed.length !== storedHash.length) return false;
-  let diff = 0;
-  for (let i = 0; i < computed.length; i++) {
-    diff |= computed.charCodeAt(i) ^ storedHash.charCodeAt(i);
-  }
-  return diff === 0;
+  const computed = await pbkdf2(password, parsed.salt, PBKDF2_DIGESTS[parsed.algorithm], parsed.iterations);
+  return timingSafeEqual(computed, parsed.hash);
+}
+
+/** True if a stored hash was not written with the current algorithm and work factor. */
+export function needsRehash(storedHash: string): boolean {
+  const parsed = parsePasswordHash(storedHash);
+  return !parsed || parsed.algorithm !== PASSWORD_ALGORITHM || parsed.iterations !== PBKDF2_ITERATIONS;
 }
 
 /* ---------- OTP ---------- */
@@ -88,9 +154,36 @@ export async function hashOTP(code: string): Promise<string> {
   return toBase64(digest);
 }
 
+/* ---------- Recovery codes ---------- */
+
+/** Unambiguous alphabet for recovery codes (no 0/O, 1/I/L). */
+const RECOVERY_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+/** Generate a random recovery code formatted as XXXXX-XXXXX (~49 bits). */
+export function generateRecoveryCode(): string {
+  const bytes = new Uint8Array(10);
+  crypto.getRandomValues(bytes);
+  const chars = Array.from(bytes, (b) => RECOVERY_ALPHABET[b % RECOVERY_ALPHABET.length]);
+  return `${chars.slice(0, 5).join('')}-${chars.slice(5).join('')}`;
+}
+
+/** Canonical form of a user-typed recovery code (uppercase, no separators). */
+export function normalizeRecoveryCode(code: string): string {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/* ---------- Refresh tokens ---------- */
+
+/** Generate an opaque 256-bit refresh token (base64url, prefixed for recognisability). */
+export function generateRefreshToken(): string {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return `rt_${base64UrlEncode(bytes)}`;
+}
+
 /* ---------- Token hashing ---------- */
 
-/** SHA-256 hash a JWT jti for session storage. Returns base64. */
+/** SHA-256 hash a session key or refresh token for storage. Returns base64. */
 export async function hashTokenId(jti: string): Promise<string> {
   const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(jti));
   return toBase64(digest);
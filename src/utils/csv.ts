@@ -0,0 +1,98 @@
+/**
+ * CSV helpers shared by the data export, the audit log export and the
+ * bulk user invite.
+ */
+
+import { corsHeaders } from '../middleware/cors';
+import type { RateLimitResult } from '../middleware/rate-limit';
+import { rateLimitHeaders } from '../middleware/rate-limit';
+
+function csvValue(val: unknown): string {
+  if (val === null || val === undefined) return '';
+  const str =
+    val instanceof Date ? val.toISOString() : typeof val === 'object' ? JSON.stringify(val) : String(val);
+  // Escape CSV: quote if contains comma, quote, or newline
+  if (str.includes(',') || str.includes('"') || str.includes('\n') || str.includes('\r')) {
+    return `"${str.replace(/"/g, '""')}"`;
+  }
+  return str;
+}
+
+/** Render rows as CSV with a header line taken from the first row's keys. */
+export function toCSV(rows: Record<string, unknown>[]): string {
+  if (rows.length === 0) return '';
+
+  const columns = Object.keys(rows[0]);
+  const csvLines: string[] = [columns.join(',')];
+  for (const row of rows) {
+    csvLines.push(columns.map((col) => csvValue(row[col])).join(','));
+  }
+  return csvLines.join('\n') + '\n';
+}
+
+/**
+ * Parse CSV (RFC 4180: quoted fields, doubled quotes, CRLF or LF) into
+ * rows keyed by the header line. Header names are trimmed and lowercased;
+ * blank lines and a leading byte-order mark (Excel exports) are skipped.
+ */
+export function parseCSV(text: string): Record<string, string>[] {
+  text = text.replace(/^\uFEFF/, '');
+  const lines: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      lines.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  row.push(field);
+  lines.push(row);
+
+  const nonBlank = lines.filter((l) => l.length > 1 || l[0].trim() !== '');
+  if (nonBlank.length === 0) return [];
+
+  const columns = nonBlank[0].map((c) => c.trim().toLowerCase());
+  return nonBlank.slice(1).map((values) => {
+    const record: Record<string, string> = {};
+    columns.forEach((col, i) => {
+      record[col] = (values[i] ?? '').trim();
+    });
+    return record;
+  });
+}
+
+/** A text/csv download response. */
+export function csvResponse(body: string, filename: string, rateLimit?: RateLimitResult): Response {
+  const headers: Record<string, string> = {
+    'Content-Type': 'text/csv',
+    'Content-Disposition': `attachment; filename="${filename}"`,
+    ...corsHeaders(),
+  };
+  if (rateLimit) {
+    Object.assign(headers, rateLimitHeaders(rateLimit));
+  }
+  return new Response(body, { headers });
+}
@@ -0,0 +1,93 @@
+/**
+ * Customer registry helpers (customers / customer_aliases, see
+ * migrations/018_customers.sql).
+ *
+ * A customer belongs to one tenant and has a name plus aliases: other
+ * spellings under which its rows appear in the report tables. Report
+ * queries for a customer match customer_name against all of them, so a
+ * rename (which keeps the old name as an alias) doesn't cut anyone off.
+ */
+
+import type postgres from 'postgres';
+import type { TenantInfo } from '../types';
+
+export interface CustomerRef {
+  id: string;
+  tenant_id: string;
+  name: string;
+}
+
+/**
+ * Find a customer of `tenantId` (any tenant if null) by id, or by name or
+ * alias (case-insensitive; names need a tenant). Returns null if there's
+ * no such customer.
+ */
+export async function findCustomer(
+  sql: postgres.Sql,
+  tenantId: string | null,
+  ref: { customer_id?: string | null; customer_name?: string | null },
+): Promise<CustomerRef | null> {
+  let rows;
+  if (ref.customer_id) {
+    if (!/^[0-9a-f-]{36}$/i.test(ref.customer_id)) return null;
+    rows = await sql`
+      SELECT id, tenant_id, name FROM customers
+      WHERE id = ${ref.customer_id} AND (${tenantId}::text IS NULL OR tenant_id = ${tenantId})
+    `;
+  } else if (ref.customer_name && tenantId) {
+    rows = await sql`
+      SELECT c.id, c.tenant_id, c.name FROM customers c
+      WHERE c.tenant_id = ${tenantId}
+        AND (LOWER(c.name) = LOWER(${ref.customer_name})
+             OR EXISTS (SELECT 1 FROM customer_aliases a
+                        WHERE a.customer_id = c.id AND LOWER(a.alias) = LOWER(${ref.customer_name})))
+      ORDER BY LOWER(c.name) = LOWER(${ref.customer_name}) DESC
+      LIMIT 1
+    `;
+  } else {
+    return null;
+  }
+  return rows.length > 0 ? (rows[0] as unknown as CustomerRef) : null;
+}
+
+/**
+ * Resolve a customer-scoped caller's customers: the current name of their
+ * own (first) customer and every spelling the report rows of any of them
+ * may carry. Callers bound by id follow renames (an API key may be limited
+ * to a customer of a descendant tenant, so the ids aren't tied to the
+ * caller's tenant); older sessions and keys that only carry a name are
+ * looked up by it in the caller's tenant, and fall back to that name alone
+ * if it isn't registered.
+ */
+export async function resolveCustomerScope(
+  sql: postgres.Sql,
+  tenant: TenantInfo,
+): Promise<{ name: string | null; names: string[] }> {
+  const ids = tenant.customer_ids ?? (tenant.customer_id ? [tenant.customer_id] : []);
+  const customers: CustomerRef[] = [];
+  if (ids.length > 0) {
+    const rows = await sql`SELECT id, tenant_id, name FROM customers WHERE id = ANY(${ids}::uuid[])`;
+    // Keep the caller's order, so their own customer comes first
+    for (const id of ids) {
+      const row = rows.find((r) => r.id === id);
+      if (row) customers.push(row as unknown as CustomerRef);
+    }
+  } else if (tenant.customer_name) {
+    const customer = await findCustomer(sql, tenant.tenant_id, { customer_name: tenant.customer_name });
+    if (customer) customers.push(customer);
+  }
+
+  if (customers.length === 0) {
+    // Customer ids that no longer resolve grant nothing
+    if (ids.length > 0 || !tenant.customer_name) return { name: null, names: [] };
+    return { name: tenant.customer_name, names: [tenant.customer_name] };
+  }
+
+  const aliases = await sql`
+    SELECT alias FROM customer_aliases WHERE customer_id = ANY(${customers.map((c) => c.id)}::uuid[])
+  `;
+  return {
+    name: customers[0].name,
+    names: [...new Set([...customers.map((c) => c.name), ...aliases.map((a) => a.alias as string)])],
+  };
+}
@@ -1,16 +1,26 @@
 /**
  * Email sending via Brevo (formerly Sendinblue) transactional API.
  *
- * Sends branded OTP emails for login verification and password resets.
+ * Sends branded OTP emails (login verification, password change and reset,
+ * account erasure), account invitations, and security notifications.
  */
 
 const BREVO_API_URL = 'https://api.brevo.com/v3/smtp/email';
 
+/** What each kind of OTP email calls the code (subject line, body text). */
+const OTP_PURPOSE_TEXT = {
+  login: { subject: 'verification code', body: 'login verification' },
+  password_reset: { subject: 'password reset code', body: 'password reset' },
+  password_change: { subject: 'password change code', body: 'password change' },
+  account_erasure: { subject: 'account erasure code', body: 'account erasure' },
+  notification_optout: { subject: 'security alert opt-out code', body: 'security alert opt-out' },
+} as const;
+
 interface SendOTPOptions {
   to: string;
   name: string;
   code: string;
-  purpose: 'login' | 'password_reset';
+  purpose: keyof typeof OTP_PURPOSE_TEXT;
   apiKey: string;
   fromEmail: string;
 }
@@ -23,6 +33,16 @@ interface SendInviteOptions {
   fromEmail: string;
 }
 
+interface SendNotificationOptions {
+  to: string;
+  name: string;
+  subject: string;
+  /** Plain-text paragraphs; rendered as <p> blocks in the HTML version */
+  paragraphs: string[];
+  apiKey: string;
+  fromEmail: string;
+}
+
 /**
  * Send an OTP email via Brevo.
  * Throws on failure so the caller can decide how to handle it.
@@ -30,13 +50,8 @@ interface SendInviteOptions {
 export async function sendOTPEmail(opts: SendOTPOptions): Promise<void> {
   const { to, name, code, purpose, apiKey, fromEmail } = opts;
 
-  const subject =
-    purpose === 'login'
-      ? `${code} is your S-IMSY verification code`
-      : `${code} is your S-IMSY password reset code`;
-
-  const purposeText =
-    purpose === 'login' ? 'login verification' : 'password reset';
+  const subject = `${code} is your S-IMSY ${OTP_PURPOSE_TEXT[purpose].subject}`;
+  const purposeText = OTP_PURPOSE_TEXT[purpose].body;
 
   const html = buildEmailHTML(name, code, purposeText);
   const text = `Hi ${name},\n\nYour ${purposeText} code is: ${code}\n\nThis code expires in 5 minutes. If you didn't request this, you can safely ignore this email.\n\n— S-IMSY Reporting Portal`;
@@ -109,6 +124,84 @@ export async function sendInviteEmail(opts: SendInviteOptions): Promise<void> {
   }
 }
 
+/**
+ * Send a security notification (e.g. a recovery code was used) via Brevo.
+ * Throws on failure; callers usually log and continue.
+ */
+export async function sendNotificationEmail(opts: SendNotificationOptions): Promise<void> {
+  const { to, name, subject, paragraphs, apiKey, fromEmail } = opts;
+
+  const html = buildNotificationHTML(name, paragraphs);
+  const text = `Hi ${name},\n\n${paragraphs.join('\n\n')}\n\n— S-IMSY Reporting Portal`;
+
+  const response = await fetch(BREVO_API_URL, {
+    method: 'POST',
+    headers: {
+      'api-key': apiKey,
+      'Content-Type': 'application/json',
+      'Accept': 'application/json',
+    },
+    body: JSON.stringify({
+      sender: {
+        name: 'S-IMSY Reporting',
+        email: fromEmail,
+      },
+      to: [{ email: to, name }],
+      subject,
+      htmlContent: html,
+      textContent: text,
+    }),
+  });
+
+  if (!response.ok) {
+    const body = await response.text().catch(() => 'unknown error');
+    console.error(`[EMAIL] Brevo notification error (${response.status}): ${body}`);
+    throw new Error(`Failed to send notification email: ${response.status}`);
+  }
+}
+
+function buildNotificationHTML(name: string, paragraphs: string[]): string {
+  const body = paragraphs
+    .map((p) => `<p style="color:#94a3b8;font-size:14px;line-height:1.6;margin:0 0 16px;">${p}</p>`)
+    .join('\n          ');
+
+  return `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1.0"></head>
+<body style="margin:0;padding:0;background:#0a0e1a;font-family:Arial,'Helvetica Neue',sans-serif;">
+  <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#0a0e1a;">
+    <tr><td align="center" style="padding:40px 20px;">
+      <table role="presentation" width="420" cellpadding="0" cellspacing="0" style="background:#1e293b;border-radius:16px;border:1px solid #334155;">
+        <tr><td style="padding:32px;">
+          <!-- Header -->
+          <table role="presentation" width="100%" cellpadding="0" cellspacing="0">
+            <tr>
+              <td style="padding-bottom:24px;">
+                <div style="display:inline-block;width:36px;height:36px;background:linear-gradient(135deg,#0ea5e9,#22d3ee);border-radius:10px;text-align:center;line-height:36px;font-size:18px;color:white;font-weight:bold;">S</div>
+                <span style="font-size:16px;font-weight:700;color:#f8fafc;vertical-align:middle;margin-left:8px;">S-IMSY Reporting</span>
+              </td>
+            </tr>
+          </table>
+
+          <!-- Body -->
+          <p style="color:#94a3b8;font-size:14px;line-height:1.6;margin:0 0 16px;">Hi ${name},</p>
+          ${body}
+
+          <!-- Divider -->
+          <hr style="border:none;border-top:1px solid #334155;margin:24px 0;">
+
+          <!-- Footer -->
+          <p style="color:#475569;font-size:11px;line-height:1.5;margin:0;">
+            If this wasn't you, contact your administrator immediately.
+            This is an automated message from the S-IMSY Reporting Portal.
+          </p>
+        </td></tr>
+      </table>
+    </td></tr>
+  </table>
+</body>
+</html>`;
+}
+
 function buildInviteHTML(name: string, inviteUrl: string): string {
   return `<!DOCTYPE html>
 <html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1.0"></head>
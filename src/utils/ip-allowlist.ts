@@ -0,0 +1,123 @@
+/**
+ * Per-tenant IP allowlists.
+ *
+ * Entries live in auth_tenant_ip_allowlists (see routes/ip-allowlist.ts);
+ * the Worker enforces them from a KV snapshot at `ipallow:<tenant_id>` —
+ * a JSON array of CIDRs, absent when the tenant has no allowlist — so
+ * the check costs no database round-trip. Every change re-syncs the
+ * snapshot via syncIpAllowlist(). A user granted further tenants (see
+ * utils/user-grants.ts) must pass each of their allowlists as well.
+ *
+ * Both IPv4 and IPv6 CIDRs are supported; a bare address is treated as a
+ * single host (/32 or /128).
+ */
+
+import type postgres from 'postgres';
+import type { Env } from '../types';
+
+interface ParsedIp {
+  version: 4 | 6;
+  value: bigint;
+}
+
+function parseIPv4(ip: string): bigint | null {
+  const parts = ip.split('.');
+  if (parts.length !== 4) return null;
+  let value = 0n;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part) || Number(part) > 255) return null;
+    value = (value << 8n) | BigInt(part);
+  }
+  return value;
+}
+
+function parseIPv6(ip: string): bigint | null {
+  // An embedded IPv4 tail (e.g. ::ffff:192.0.2.1) stands for the last two groups
+  let tail: bigint | null = null;
+  const lastColon = ip.lastIndexOf(':');
+  if (ip.includes('.', lastColon)) {
+    tail = parseIPv4(ip.slice(lastColon + 1));
+    if (tail === null) return null;
+    ip = `${ip.slice(0, lastColon + 1)}0:0`;
+  }
+
+  const halves = ip.split('::');
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(':') : [];
+  const rest = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - rest.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...rest];
+  let value = 0n;
+  for (const group of groups) {
+    if (!/^[0-9a-f]{1,4}$/i.test(group)) return null;
+    value = (value << 16n) | BigInt(parseInt(group, 16));
+  }
+  return tail === null ? value : value | tail;
+}
+
+/** Parse an IP address. IPv4-mapped IPv6 addresses come back as IPv4. */
+function parseIp(ip: string): ParsedIp | null {
+  if (!ip.includes(':')) {
+    const v4 = parseIPv4(ip);
+    return v4 === null ? null : { version: 4, value: v4 };
+  }
+  const v6 = parseIPv6(ip);
+  if (v6 === null) return null;
+  if (v6 >> 32n === 0xffffn) return { version: 4, value: v6 & 0xffffffffn };
+  return { version: 6, value: v6 };
+}
+
+/**
+ * Canonical form of a CIDR ("203.0.113.0/24"), with a missing prefix
+ * filled in. Returns null if it doesn't parse or has host bits set.
+ */
+export function normalizeCidr(cidr: string): string | null {
+  const [address, prefixText, ...extra] = cidr.trim().split('/');
+  if (extra.length > 0) return null;
+
+  const ip = parseIp(address);
+  if (!ip || (ip.version === 4 && address.includes(':'))) return null;
+
+  const bits = ip.version === 4 ? 32 : 128;
+  const prefix = prefixText === undefined ? bits : Number(prefixText);
+  if (!/^\d+$/.test(prefixText ?? '0') || prefix > bits) return null;
+
+  const hostMask = (1n << BigInt(bits - prefix)) - 1n;
+  if ((ip.value & hostMask) !== 0n) return null;
+
+  return `${address.toLowerCase()}/${prefix}`;
+}
+
+/** True if `ip` falls inside any of the (normalized) CIDRs. */
+export function ipInAllowlist(ip: string, cidrs: string[]): boolean {
+  const parsed = parseIp(ip);
+  if (!parsed) return false;
+
+  const bits = parsed.version === 4 ? 32 : 128;
+  return cidrs.some((cidr) => {
+    const [address, prefixText] = cidr.split('/');
+    const network = parseIp(address);
+    if (!network || network.version !== parsed.version) return false;
+    const shift = BigInt(bits - Number(prefixText));
+    return parsed.value >> shift === network.value >> shift;
+  });
+}
+
+/** The tenant's allowlist, or null if it has none (all IPs allowed). */
+export async function getIpAllowlist(env: Env, tenantId: string): Promise<string[] | null> {
+  return (await env.TENANT_KV.get(`ipallow:${tenantId}`, 'json')) as string[] | null;
+}
+
+/** Rewrite the tenant's KV snapshot from the database. */
+export async function syncIpAllowlist(sql: postgres.Sql, env: Env, tenantId: string): Promise<void> {
+  const rows = await sql`
+    SELECT cidr FROM auth_tenant_ip_allowlists WHERE tenant_id = ${tenantId}
+  `;
+  if (rows.length === 0) {
+    await env.TENANT_KV.delete(`ipallow:${tenantId}`);
+  } else {
+    await env.TENANT_KV.put(`ipallow:${tenantId}`, JSON.stringify(rows.map((r) => r.cidr)));
+  }
+}
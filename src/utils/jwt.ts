@@ -1,10 +1,22 @@
 /**
  * JWT creation and verification using the Web Crypto API.
  *
- * Uses HS256 (HMAC-SHA256) signing. No external dependencies.
- * Designed for Cloudflare Workers where native crypto is available.
+ * Tokens are signed with ES256 or RS256 using the private JWK in
+ * JWT_SIGNING_KEY and carry its `kid`. Verification accepts any key in the
+ * published set (the current key plus the previous keys listed in
+ * JWT_VERIFICATION_KEYS), so a rotation does not log anyone out.
+ *
+ * HS256 with JWT_SECRET remains as a migration path: it signs when no
+ * JWT_SIGNING_KEY is configured, and verifies outstanding HS256 tokens
+ * until JWT_SECRET is removed.
+ *
+ * No external dependencies. Designed for Cloudflare Workers where native
+ * crypto is available.
  */
 
+import type { Env } from '../types';
+import { base64UrlEncode, base64UrlDecode, base64UrlDecodeBytes } from './base64url';
+
 export interface JWTPayload {
   /** User ID */
   sub: string;
@@ -12,8 +24,20 @@ export interface JWTPayload {
   role: 'admin' | 'tenant' | 'customer';
   tenant_id: string;
   tenant_name: string;
+  /** Customer-role users: their customer (customers.id) */
+  customer_id?: string;
   customer_name?: string;
-  /** Unique token ID — used for session revocation */
+  /** Customer-role users: every customer they may see, customer_id first */
+  customer_ids?: string[];
+  /** Tenants granted beyond tenant_id (see src/utils/user-grants.ts) */
+  granted_tenant_ids?: string[];
+  /** Feature permissions resolved at login/refresh */
+  perms?: string[];
+  /** Session key shared by every access token of one login — used for revocation */
+  sid?: string;
+  /** Actor (RFC 8693) — set on impersonation tokens to the admin acting as `sub` */
+  act?: { sub: string; email: string };
+  /** Unique token ID (tokens minted before refresh support used this as the session key) */
   jti: string;
   /** Issued at (Unix seconds) */
   iat: number;
@@ -21,30 +45,138 @@ export interface JWTPayload {
   exp: number;
 }
 
-/* ---------- Base64-URL helpers ---------- */
+/* ---------- Keys ---------- */
+
+type AsymmetricAlg = 'ES256' | 'RS256';
+
+/** A JWK carrying the fields we need for lookup and algorithm selection. */
+type KeyedJWK = JsonWebKey & { kid?: string };
+
+export interface JWTKeys {
+  /** Private key used to sign new tokens (absent → sign with HS256) */
+  signing?: { kid: string; alg: AsymmetricAlg; jwk: KeyedJWK };
+  /** Public keys accepted for verification, by kid */
+  verification: Map<string, { alg: AsymmetricAlg; jwk: KeyedJWK }>;
+  /** Legacy HS256 secret, if still configured */
+  hmacSecret?: string;
+}
+
+const ALGORITHMS: Record<AsymmetricAlg, {
+  import: { name: string; hash?: string; namedCurve?: string };
+  sign: { name: string; hash?: string };
+}> = {
+  ES256: { import: { name: 'ECDSA', namedCurve: 'P-256' }, sign: { name: 'ECDSA', hash: 'SHA-256' } },
+  RS256: { import: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, sign: { name: 'RSASSA-PKCS1-v1_5' } },
+};
+
+/** Private members of EC / RSA JWKs, stripped when publishing. */
+const PRIVATE_JWK_FIELDS = ['d', 'p', 'q', 'dp', 'dq', 'qi', 'oth'] as const;
+
+/** Key configuration that can't be used: malformed JSON, a key without a kid, no key at all. */
+export class JWTConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JWTConfigError';
+  }
+}
+
+function jwkAlg(jwk: KeyedJWK): AsymmetricAlg {
+  if (jwk.kty === 'EC' && jwk.crv === 'P-256') return 'ES256';
+  if (jwk.kty === 'RSA') return 'RS256';
+  throw new JWTConfigError(`Unsupported JWT key type ${jwk.kty}${jwk.crv ? `/${jwk.crv}` : ''}`);
+}
+
+function publicPart(jwk: KeyedJWK): KeyedJWK {
+  const pub: KeyedJWK = { ...jwk };
+  for (const field of PRIVATE_JWK_FIELDS) delete pub[field];
+  delete pub.key_ops;
+  return pub;
+}
+
+/** The parsed key set, reused across requests in the same isolate while the config is unchanged. */
+let parsedKeys: { config: string; keys: JWTKeys } | null = null;
+
+/**
+ * Build the key set from the Worker's secrets.
+ *
+ *   JWT_SIGNING_KEY        — private JWK (EC P-256 or RSA) with a `kid`
+ *   JWT_VERIFICATION_KEYS  — JWKS ({"keys": [...]}) of previous public keys
+ *   JWT_SECRET             — legacy HS256 secret
+ *
+ * Parsed once per isolate (again only if the secrets change). Throws
+ * JWTConfigError if they can't be used.
+ */
+export function loadJWTKeys(env: Env): JWTKeys {
+  const config = [env.JWT_SIGNING_KEY, env.JWT_VERIFICATION_KEYS, env.JWT_SECRET].join('\n');
+  if (parsedKeys?.config !== config) {
+    parsedKeys = { config, keys: parseJWTKeys(env) };
+  }
+  return parsedKeys.keys;
+}
 
-function base64UrlEncode(input: string | ArrayBuffer): string {
-  const str =
-    typeof input === 'string'
-      ? btoa(input)
-      : btoa(String.fromCharCode(...new Uint8Array(input)));
-  return str.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+function parseJSONSetting<T>(name: string, value: string): T {
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    throw new JWTConfigError(`${name} is not valid JSON`);
+  }
 }
 
-function base64UrlDecode(str: string): string {
-  let padded = str.replace(/-/g, '+').replace(/_/g, '/');
-  while (padded.length % 4) padded += '=';
-  return atob(padded);
+function parseJWTKeys(env: Env): JWTKeys {
+  const keys: JWTKeys = { verification: new Map(), hmacSecret: env.JWT_SECRET || undefined };
+
+  if (env.JWT_VERIFICATION_KEYS) {
+    const jwks = parseJSONSetting<{ keys?: KeyedJWK[] }>('JWT_VERIFICATION_KEYS', env.JWT_VERIFICATION_KEYS);
+    if (!Array.isArray(jwks?.keys)) throw new JWTConfigError('JWT_VERIFICATION_KEYS must be a JWKS ({"keys": [...]})');
+    for (const jwk of jwks.keys) {
+      if (!jwk.kid) throw new JWTConfigError('Every key in JWT_VERIFICATION_KEYS needs a kid');
+      keys.verification.set(jwk.kid, { alg: jwkAlg(jwk), jwk: publicPart(jwk) });
+    }
+  }
+
+  if (env.JWT_SIGNING_KEY) {
+    const jwk = parseJSONSetting<KeyedJWK>('JWT_SIGNING_KEY', env.JWT_SIGNING_KEY);
+    if (!jwk?.kid) throw new JWTConfigError('JWT_SIGNING_KEY needs a kid');
+    const alg = jwkAlg(jwk);
+    keys.signing = { kid: jwk.kid, alg, jwk };
+    keys.verification.set(jwk.kid, { alg, jwk: publicPart(jwk) });
+  }
+
+  if (!keys.signing && !keys.hmacSecret) {
+    throw new JWTConfigError('No JWT signing key configured (set JWT_SIGNING_KEY or JWT_SECRET)');
+  }
+  return keys;
 }
 
-function base64UrlDecodeBytes(str: string): Uint8Array {
-  const raw = base64UrlDecode(str);
-  return Uint8Array.from(raw, (c) => c.charCodeAt(0));
+/** Public JWKS document for /.well-known/jwks.json. */
+export function publicJWKS(keys: JWTKeys): { keys: KeyedJWK[] } {
+  return {
+    keys: [...keys.verification.entries()].map(([kid, { alg, jwk }]) => ({
+      ...jwk,
+      kid,
+      alg,
+      use: 'sig',
+    })),
+  };
 }
 
-/* ---------- HMAC key ---------- */
+/** Imported CryptoKeys, reused across requests in the same isolate. */
+const keyCache = new Map<string, Promise<CryptoKey>>();
 
-async function getSigningKey(secret: string): Promise<CryptoKey> {
+function importAsymmetricKey(jwk: KeyedJWK, alg: AsymmetricAlg, usage: 'sign' | 'verify'): Promise<CryptoKey> {
+  const cacheKey = `${usage}:${alg}:${jwk.kid}:${jwk.x || jwk.n}`;
+  let key = keyCache.get(cacheKey);
+  if (!key) {
+    const material: KeyedJWK = usage === 'sign' ? { ...jwk } : publicPart(jwk);
+    delete material.key_ops;
+    delete material.alg;
+    key = crypto.subtle.importKey('jwk', material, ALGORITHMS[alg].import, false, [usage]);
+    keyCache.set(cacheKey, key);
+  }
+  return key;
+}
+
+async function getHmacKey(secret: string): Promise<CryptoKey> {
   return crypto.subtle.importKey(
     'raw',
     new TextEncoder().encode(secret),
@@ -68,32 +200,39 @@ export interface CreateJWTResult {
 /**
  * Create a signed JWT with the given payload claims.
  *
- * @param claims  - Payload fields (sub, email, role, tenant_id, tenant_name, customer_name?)
- * @param secret  - The HS256 signing secret
- * @param ttlHours - Token lifetime in hours
+ * @param claims  - Payload fields (sub, email, role, tenant_id, tenant_name, customer_id?, customer_name?, customer_ids?, granted_tenant_ids?, sid?)
+ * @param keys    - Key set from loadJWTKeys
+ * @param ttlSeconds - Token lifetime in seconds
  */
 export async function createJWT(
   claims: Omit<JWTPayload, 'jti' | 'iat' | 'exp'>,
-  secret: string,
-  ttlHours: number,
+  keys: JWTKeys,
+  ttlSeconds: number,
 ): Promise<CreateJWTResult> {
   const jti = crypto.randomUUID();
   const now = Math.floor(Date.now() / 1000);
-  const exp = now + ttlHours * 3600;
+  const exp = now + ttlSeconds;
 
-  const header = { alg: 'HS256', typ: 'JWT' };
+  const header = keys.signing
+    ? { alg: keys.signing.alg, typ: 'JWT', kid: keys.signing.kid }
+    : { alg: 'HS256', typ: 'JWT' };
   const payload: JWTPayload = { ...claims, jti, iat: now, exp };
 
   const encodedHeader = base64UrlEncode(JSON.stringify(header));
   const encodedPayload = base64UrlEncode(JSON.stringify(payload));
-  const signingInput = `${encodedHeader}.${encodedPayload}`;
+  const signingInput = new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`);
 
-  const key = await getSigningKey(secret);
-  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(signingInput));
-  const encodedSignature = base64UrlEncode(signature);
+  // Web Crypto's ECDSA output is already the raw r||s form JWS expects
+  const signature = keys.signing
+    ? await crypto.subtle.sign(
+        ALGORITHMS[keys.signing.alg].sign,
+        await importAsymmetricKey(keys.signing.jwk, keys.signing.alg, 'sign'),
+        signingInput,
+      )
+    : await crypto.subtle.sign('HMAC', await getHmacKey(keys.hmacSecret!), signingInput);
 
   return {
-    token: `${signingInput}.${encodedSignature}`,
+    token: `${encodedHeader}.${encodedPayload}.${base64UrlEncode(signature)}`,
     jti,
     expiresAt: new Date(exp * 1000),
   };
@@ -103,24 +242,34 @@ export async function createJWT(
  * Verify and decode a JWT.
  *
  * Returns the payload if valid and not expired, or null otherwise.
+ * The header's alg must match the key it names, so an asymmetric public
+ * key can never be used as an HMAC secret.
  */
-export async function verifyJWT(token: string, secret: string): Promise<JWTPayload | null> {
+export async function verifyJWT(token: string, keys: JWTKeys): Promise<JWTPayload | null> {
   try {
     const parts = token.split('.');
     if (parts.length !== 3) return null;
 
     const [encodedHeader, encodedPayload, encodedSignature] = parts;
-    const signingInput = `${encodedHeader}.${encodedPayload}`;
+    const signingInput = new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`);
+    const signatureBytes = base64UrlDecodeBytes(encodedSignature);
+    const header = JSON.parse(base64UrlDecode(encodedHeader)) as { alg?: string; kid?: string };
 
     // Verify signature
-    const key = await getSigningKey(secret);
-    const signatureBytes = base64UrlDecodeBytes(encodedSignature);
-    const valid = await crypto.subtle.verify(
-      'HMAC',
-      key,
-      signatureBytes,
-      new TextEncoder().encode(signingInput),
-    );
+    let valid: boolean;
+    if (header.alg === 'HS256') {
+      if (!keys.hmacSecret) return null;
+      valid = await crypto.subtle.verify('HMAC', await getHmacKey(keys.hmacSecret), signatureBytes, signingInput);
+    } else {
+      const entry = header.kid ? keys.verification.get(header.kid) : undefined;
+      if (!entry || entry.alg !== header.alg) return null;
+      valid = await crypto.subtle.verify(
+        ALGORITHMS[entry.alg].sign,
+        await importAsymmetricKey(entry.jwk, entry.alg, 'verify'),
+        signatureBytes,
+        signingInput,
+      );
+    }
     if (!valid) return null;
 
     // Decode payload
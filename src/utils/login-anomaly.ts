@@ -0,0 +1,120 @@
+/**
+ * New-device and new-country sign-in alerts.
+ *
+ * Every successful sign-in records the device (browser + OS, from the
+ * user agent) and country (from Cloudflare's request metadata) in
+ * auth_known_devices. A sign-in from a device or country the user has not
+ * used before is written to the audit log and emailed to the user (unless
+ * they have opted out of new_sign_in emails). A user's first recorded
+ * sign-in only establishes the baseline.
+ */
+
+import type postgres from 'postgres';
+import type { Env } from '../types';
+import { sendNotificationEmail } from './email';
+import { clientIp, clientUserAgent, recordAudit } from './audit';
+import { getUserPreferences, formatForUser } from './preferences';
+
+/** Country stored when Cloudflare doesn't report one. */
+const UNKNOWN_COUNTRY = 'XX';
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const PLATFORMS: [RegExp, string][] = [
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+interface SignInUser {
+  id: string;
+  email: string;
+  display_name?: string | null;
+  tenant_id: string;
+}
+
+/** Coarse device label, e.g. "Chrome on macOS" — stable across browser updates. */
+function describeDevice(userAgent: string): string {
+  const browser = BROWSERS.find(([re]) => re.test(userAgent))?.[1] || 'Unknown browser';
+  const platform = PLATFORMS.find(([re]) => re.test(userAgent))?.[1] || 'unknown OS';
+  return `${browser} on ${platform}`;
+}
+
+function requestLocation(request: Request): { country: string; city: string | null } {
+  const cf = request.cf as IncomingRequestCfProperties | undefined;
+  return { country: cf?.country || UNKNOWN_COUNTRY, city: cf?.city || null };
+}
+
+/**
+ * Record the sign-in's device and country, and alert the user if either is
+ * new. Never throws — a failure here must not block the sign-in.
+ */
+export async function checkLoginAnomaly(
+  sql: postgres.Sql,
+  request: Request,
+  env: Env,
+  user: SignInUser,
+  method: string,
+): Promise<void> {
+  try {
+    const device = describeDevice(clientUserAgent(request));
+    const { country, city } = requestLocation(request);
+    const ip = clientIp(request);
+
+    const known = await sql`
+      SELECT device, country FROM auth_known_devices WHERE user_id = ${user.id}
+    `;
+    const newDevice = known.length > 0 && !known.some((k) => k.device === device);
+    const newCountry = known.length > 0 && country !== UNKNOWN_COUNTRY && !known.some((k) => k.country === country);
+
+    await sql`
+      INSERT INTO auth_known_devices (user_id, device, country, last_ip)
+      VALUES (${user.id}, ${device}, ${country}, ${ip})
+      ON CONFLICT (user_id, device, country) DO UPDATE SET
+        last_seen_at = now(),
+        last_ip = EXCLUDED.last_ip
+    `;
+
+    if (!newDevice && !newCountry) return;
+
+    await recordAudit(sql, request, {
+      action: 'auth.login_anomaly',
+      actor: { user_id: user.id, email: user.email },
+      tenant_id: user.tenant_id,
+      target_type: 'user',
+      target_id: user.id,
+      metadata: { method, device, country, new_device: newDevice, new_country: newCountry },
+    });
+
+    const prefs = await getUserPreferences(sql, user.id);
+    if (!prefs.email_notifications.new_sign_in) return;
+
+    const location = country === UNKNOWN_COUNTRY ? 'an unknown location' : city ? `${city}, ${country}` : country;
+    const what = newDevice && newCountry
+      ? 'a new device and location'
+      : newDevice ? 'a new device' : 'a new location';
+
+    await sendNotificationEmail({
+      to: user.email,
+      name: user.display_name || user.email,
+      subject: 'New sign-in to your S-IMSY Reporting account',
+      paragraphs: [
+        `Your account was just signed in to from ${what}: ${device}, ${location} (IP ${ip}) at ${formatForUser(new Date(), prefs)}.`,
+        'If this was you, no action is needed. If not, change your password immediately and sign out of your other sessions.',
+      ],
+      apiKey: env.BREVO_API_KEY,
+      fromEmail: env.OTP_FROM_EMAIL || 'noreply@simsy.co.uk',
+    });
+  } catch (err) {
+    console.error('[AUTH] Login anomaly check failed:', err);
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * OpenID Connect relying-party helpers using the Web Crypto API.
+ *
+ * Covers what the authorization-code + PKCE flow needs:
+ *   - provider discovery (/.well-known/openid-configuration), cached in KV
+ *   - PKCE verifier/challenge generation (S256)
+ *   - id_token validation against the provider's JWKS (RS256 / ES256)
+ *
+ * Issuers must use https, except localhost / 127.0.0.1 so the flow can be
+ * exercised against a local mock IdP.
+ */
+
+import type { Env } from '../types';
+import { base64UrlEncode, base64UrlDecode, base64UrlDecodeBytes } from './base64url';
+
+const DISCOVERY_CACHE_TTL_SECONDS = 3600;
+const CLOCK_SKEW_SECONDS = 60;
+
+export interface OIDCDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+export interface IdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  iat: number;
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean | string;
+  name?: string;
+}
+
+/** True for https URLs, or http URLs pointing at the local machine. */
+export function isAllowedIssuerUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    if (url.protocol === 'https:') return true;
+    return url.protocol === 'http:' && ['localhost', '127.0.0.1', '[::1]'].includes(url.hostname);
+  } catch {
+    return false;
+  }
+}
+
+/* ---------- Discovery & JWKS ---------- */
+
+/** Fetch (or read from KV cache) the provider's discovery document. */
+export async function getDiscovery(issuer: string, env: Env): Promise<OIDCDiscovery> {
+  const cacheKey = `oidc_discovery:${issuer}`;
+  const cached = (await env.TENANT_KV.get(cacheKey, 'json')) as OIDCDiscovery | null;
+  if (cached) return cached;
+
+  const res = await fetch(`${issuer.replace(/\/$/, '')}/.well-known/openid-configuration`, {
+    headers: { Accept: 'application/json' },
+  });
+  if (!res.ok) throw new Error(`Discovery failed: ${res.status}`);
+
+  const doc = (await res.json()) as OIDCDiscovery;
+  if (doc.issuer !== issuer) throw new Error(`Discovery issuer mismatch: ${doc.issuer}`);
+  if (!doc.authorization_endpoint || !doc.token_endpoint || !doc.jwks_uri) {
+    throw new Error('Discovery document is missing required endpoints');
+  }
+
+  await env.TENANT_KV.put(cacheKey, JSON.stringify(doc), {
+    expirationTtl: DISCOVERY_CACHE_TTL_SECONDS,
+  });
+  return doc;
+}
+
+interface JWKS {
+  keys: (JsonWebKey & { kid?: string })[];
+}
+
+/**
+ * Find the signing key for `kid`, refreshing the cached JWKS once if the
+ * key is unknown (the provider may have rotated).
+ */
+async function getJwk(jwksUri: string, kid: string | undefined, env: Env): Promise<JsonWebKey> {
+  const cacheKey = `oidc_jwks:${jwksUri}`;
+
+  const find = (jwks: JWKS | null) =>
+    jwks?.keys.find((k) => (kid ? k.kid === kid : true) && k.use !== 'enc');
+
+  const cached = (await env.TENANT_KV.get(cacheKey, 'json')) as JWKS | null;
+  const hit = find(cached);
+  if (hit) return hit;
+
+  const res = await fetch(jwksUri, { headers: { Accept: 'application/json' } });
+  if (!res.ok) throw new Error(`JWKS fetch failed: ${res.status}`);
+  const jwks = (await res.json()) as JWKS;
+  await env.TENANT_KV.put(cacheKey, JSON.stringify(jwks), {
+    expirationTtl: DISCOVERY_CACHE_TTL_SECONDS,
+  });
+
+  const fresh = find(jwks);
+  if (!fresh) throw new Error(`No JWKS key matches kid ${kid}`);
+  return fresh;
+}
+
+/* ---------- PKCE ---------- */
+
+/** Generate a random URL-safe string (state, nonce, PKCE verifier). */
+export function randomToken(bytes: number = 32): string {
+  const buf = new Uint8Array(bytes);
+  crypto.getRandomValues(buf);
+  return base64UrlEncode(buf);
+}
+
+/** S256 code challenge for a PKCE verifier. */
+export async function pkceChallenge(verifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+  return base64UrlEncode(digest);
+}
+
+/* ---------- id_token validation ---------- */
+
+/** JWS algorithms accepted for id_tokens, as Web Crypto import/verify params. */
+const SIGNING_ALGORITHMS: Record<string, { import: { name: string; hash?: string; namedCurve?: string }; verify: { name: string; hash?: string } }> = {
+  RS256: { import: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, verify: { name: 'RSASSA-PKCS1-v1_5' } },
+  ES256: { import: { name: 'ECDSA', namedCurve: 'P-256' }, verify: { name: 'ECDSA', hash: 'SHA-256' } },
+};
+
+/**
+ * Verify an id_token's signature and standard claims.
+ * Throws with a descriptive message on any failure.
+ */
+export async function verifyIdToken(
+  idToken: string,
+  opts: { issuer: string; clientId: string; nonce: string; jwksUri: string },
+  env: Env,
+): Promise<IdTokenClaims> {
+  const parts = idToken.split('.');
+  if (parts.length !== 3) throw new Error('Malformed id_token');
+  const [encodedHeader, encodedPayload, encodedSignature] = parts;
+
+  const header = JSON.parse(base64UrlDecode(encodedHeader)) as { alg: string; kid?: string };
+  const jwk = await getJwk(opts.jwksUri, header.kid, env);
+
+  const params = SIGNING_ALGORITHMS[header.alg];
+  if (!params) throw new Error(`Unsupported id_token algorithm ${header.alg}`);
+
+  const key = await crypto.subtle.importKey('jwk', jwk, params.import, false, ['verify']);
+  const valid = await crypto.subtle.verify(
+    params.verify,
+    key,
+    base64UrlDecodeBytes(encodedSignature),
+    new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`),
+  );
+  if (!valid) throw new Error('Invalid id_token signature');
+
+  const claims = JSON.parse(base64UrlDecode(encodedPayload)) as IdTokenClaims;
+  const now = Math.floor(Date.now() / 1000);
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+
+  if (claims.iss !== opts.issuer) throw new Error('id_token issuer mismatch');
+  if (!audiences.includes(opts.clientId)) throw new Error('id_token audience mismatch');
+  if (claims.exp + CLOCK_SKEW_SECONDS < now) throw new Error('id_token expired');
+  if (claims.iat - CLOCK_SKEW_SECONDS > now) throw new Error('id_token issued in the future');
+  if (claims.nonce !== opts.nonce) throw new Error('id_token nonce mismatch');
+
+  return claims;
+}
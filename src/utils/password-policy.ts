@@ -0,0 +1,258 @@
+/**
+ * Password policy engine.
+ *
+ * Every path that sets a password (reset, invite acceptance, admin reset,
+ * self-service change, forced change of an expired password) validates it
+ * here against the user's tenant policy (auth_password_policies, or the
+ * defaults below):
+ *
+ *   - minimum length and required character classes
+ *   - no email local-part or name fragments
+ *   - not in the bundled common/breached password list
+ *   - not one of the user's last `history_count` passwords
+ *
+ * Violations come back as { code, message } pairs so the frontend can show
+ * each unmet rule. `max_age_days` is enforced at login (see handleLogin).
+ */
+
+import type postgres from 'postgres';
+import { jsonResponse } from './response';
+import { hashPassword, verifyPassword } from './crypto';
+import { COMMON_PASSWORD_SHA1 } from './common-passwords';
+
+/** Password history rows kept per user, whatever the tenant's history_count. */
+const MAX_HISTORY_ROWS = 24;
+
+/** Personal-info fragments shorter than this are ignored. */
+const MIN_PERSONAL_FRAGMENT = 3;
+
+/** Upper bound on password length, to keep PBKDF2 input reasonable. */
+const MAX_LENGTH = 256;
+
+export interface PasswordPolicy {
+  min_length: number;
+  require_uppercase: boolean;
+  require_lowercase: boolean;
+  require_digit: boolean;
+  require_symbol: boolean;
+  disallow_personal_info: boolean;
+  /** Number of previous passwords that may not be reused (0 = off) */
+  history_count: number;
+  /** Days before a password must be changed at login (null = never) */
+  max_age_days: number | null;
+}
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  min_length: 12,
+  require_uppercase: false,
+  require_lowercase: false,
+  require_digit: false,
+  require_symbol: false,
+  disallow_personal_info: true,
+  history_count: 5,
+  max_age_days: null,
+};
+
+export interface PasswordViolation {
+  code:
+    | 'too_short'
+    | 'too_long'
+    | 'missing_uppercase'
+    | 'missing_lowercase'
+    | 'missing_digit'
+    | 'missing_symbol'
+    | 'contains_personal_info'
+    | 'common_password'
+    | 'reused';
+  message: string;
+}
+
+/** The account a password is being set for. */
+export interface PasswordOwner {
+  id: string;
+  email: string;
+  display_name?: string | null;
+  tenant_id: string;
+}
+
+/** The tenant's policy, or the defaults if it has none. */
+export async function getPasswordPolicy(sql: postgres.Sql, tenantId: string): Promise<PasswordPolicy> {
+  const rows = await sql`
+    SELECT min_length, require_uppercase, require_lowercase, require_digit, require_symbol,
+           disallow_personal_info, history_count, max_age_days
+    FROM auth_password_policies
+    WHERE tenant_id = ${tenantId}
+  `;
+  if (rows.length === 0) return { ...DEFAULT_PASSWORD_POLICY };
+
+  const r = rows[0];
+  return {
+    min_length: Number(r.min_length),
+    require_uppercase: r.require_uppercase,
+    require_lowercase: r.require_lowercase,
+    require_digit: r.require_digit,
+    require_symbol: r.require_symbol,
+    disallow_personal_info: r.disallow_personal_info,
+    history_count: Number(r.history_count),
+    max_age_days: r.max_age_days === null ? null : Number(r.max_age_days),
+  };
+}
+
+/** True if the password appears in the bundled common-password list. */
+export async function isCommonPassword(password: string): Promise<boolean> {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(password.toLowerCase()));
+  const hex = [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, '0')).join('');
+  return (COMMON_PASSWORD_SHA1[hex.slice(0, 5)] || []).includes(hex.slice(5));
+}
+
+/** Lower-cased email local part and name words worth refusing inside a password. */
+function personalFragments(owner: PasswordOwner): string[] {
+  const local = owner.email.split('@')[0].toLowerCase();
+  const fragments = [local, ...local.split(/[._+-]+/)];
+  for (const word of (owner.display_name || '').toLowerCase().split(/\s+/)) fragments.push(word);
+  return [...new Set(fragments)].filter((f) => f.length >= MIN_PERSONAL_FRAGMENT);
+}
+
+/** True if the password matches the user's current or recent passwords. */
+async function isReused(sql: postgres.Sql, password: string, userId: string, historyCount: number): Promise<boolean> {
+  const previous = await sql`
+    (SELECT password_hash, salt FROM auth_users
+     WHERE id = ${userId} AND password_hash IS NOT NULL)
+    UNION ALL
+    (SELECT password_hash, salt FROM auth_password_history
+     WHERE user_id = ${userId}
+     ORDER BY created_at DESC
+     LIMIT ${historyCount})
+  `;
+  for (const p of previous) {
+    if (await verifyPassword(password, p.password_hash, p.salt)) return true;
+  }
+  return false;
+}
+
+/** Check a new password against a policy; returns every rule it breaks. */
+export async function validatePassword(
+  sql: postgres.Sql,
+  password: string,
+  owner: PasswordOwner,
+  policy: PasswordPolicy,
+): Promise<PasswordViolation[]> {
+  const violations: PasswordViolation[] = [];
+
+  if (password.length < policy.min_length) {
+    violations.push({ code: 'too_short', message: `Must be at least ${policy.min_length} characters` });
+  }
+  if (password.length > MAX_LENGTH) {
+    violations.push({ code: 'too_long', message: `Must be at most ${MAX_LENGTH} characters` });
+  }
+  if (policy.require_uppercase && !/[A-Z]/.test(password)) {
+    violations.push({ code: 'missing_uppercase', message: 'Must contain an uppercase letter' });
+  }
+  if (policy.require_lowercase && !/[a-z]/.test(password)) {
+    violations.push({ code: 'missing_lowercase', message: 'Must contain a lowercase letter' });
+  }
+  if (policy.require_digit && !/[0-9]/.test(password)) {
+    violations.push({ code: 'missing_digit', message: 'Must contain a digit' });
+  }
+  if (policy.require_symbol && !/[^A-Za-z0-9]/.test(password)) {
+    violations.push({ code: 'missing_symbol', message: 'Must contain a symbol' });
+  }
+
+  if (policy.disallow_personal_info) {
+    const lower = password.toLowerCase();
+    if (personalFragments(owner).some((f) => lower.includes(f))) {
+      violations.push({ code: 'contains_personal_info', message: 'Must not contain your name or email address' });
+    }
+  }
+
+  if (await isCommonPassword(password)) {
+    violations.push({ code: 'common_password', message: 'Is too common — choose something less predictable' });
+  }
+
+  // Only worth the PBKDF2 work if everything else passed
+  if (violations.length === 0 && policy.history_count > 0 && (await isReused(sql, password, owner.id, policy.history_count))) {
+    violations.push({
+      code: 'reused',
+      message: `Must not match any of your last ${policy.history_count} passwords`,
+    });
+  }
+
+  return violations;
+}
+
+/**
+ * Validate a new password for an existing user against their tenant's
+ * policy. Returns a 400 response listing the violations, or null if the
+ * password is acceptable.
+ */
+export async function checkNewPassword(
+  sql: postgres.Sql,
+  userId: string,
+  password: string,
+): Promise<Response | null> {
+  const users = await sql`
+    SELECT id, email, display_name, tenant_id FROM auth_users WHERE id = ${userId}
+  `;
+  if (users.length === 0) return null; // callers report a missing user themselves
+
+  const owner = users[0] as PasswordOwner;
+  const violations = await validatePassword(sql, password, owner, await getPasswordPolicy(sql, owner.tenant_id));
+  return violations.length > 0 ? passwordPolicyError(violations) : null;
+}
+
+/** 400 response carrying structured policy violations. */
+export function passwordPolicyError(violations: PasswordViolation[]): Response {
+  return jsonResponse(
+    {
+      error: 'Password does not meet the password policy',
+      status: 400,
+      detail: violations.map((v) => v.message).join('; '),
+      violations,
+    },
+    400,
+  );
+}
+
+/**
+ * Hash and store a user's new password, record it in the history and
+ * clear any lockout. Callers handle session revocation themselves.
+ */
+export async function setUserPassword(
+  sql: postgres.Sql,
+  userId: string,
+  password: string,
+): Promise<void> {
+  const passwordHash = await hashPassword(password);
+
+  await sql`
+    UPDATE auth_users
+    SET password_hash = ${passwordHash},
+        salt = NULL,
+        password_changed_at = now(),
+        failed_logins = 0,
+        locked_until = NULL,
+        updated_at = now()
+    WHERE id = ${userId}
+  `;
+
+  await sql`
+    INSERT INTO auth_password_history (user_id, password_hash)
+    VALUES (${userId}, ${passwordHash})
+  `;
+  await sql`
+    DELETE FROM auth_password_history
+    WHERE user_id = ${userId}
+      AND id NOT IN (
+        SELECT id FROM auth_password_history
+        WHERE user_id = ${userId}
+        ORDER BY created_at DESC
+        LIMIT ${MAX_HISTORY_ROWS}
+      )
+  `;
+}
+
+/** True if a password set at `changedAt` has outlived the policy's max age. */
+export function isPasswordExpired(policy: PasswordPolicy, changedAt: string | Date | null): boolean {
+  if (!policy.max_age_days || !changedAt) return false;
+  return Date.now() - new Date(changedAt).getTime() > policy.max_age_days * 86400 * 1000;
+}
@@ -0,0 +1,109 @@
+/**
+ * Per-user preferences (auth_user_preferences).
+ *
+ * Users without a row get DEFAULT_PREFERENCES. The timezone decides how
+ * the usage and revenue routes bucket days and months; the notification
+ * opt-ins gate the security alert emails (see wantsNotification). They
+ * default to on, and turning one off takes a step-up code so a stolen
+ * session can't silence them.
+ */
+
+import type postgres from 'postgres';
+import type { TenantInfo } from '../types';
+
+/** Alert emails a user can turn off (with step-up). OTP, invite and reset emails always send. */
+export const NOTIFICATION_TYPES = ['new_sign_in', 'recovery_code_used', 'password_changed'] as const;
+
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
+export interface UserPreferences {
+  /** IANA zone name, e.g. "Europe/London" */
+  timezone: string;
+  /** BCP 47 tag, e.g. "en-GB" */
+  locale: string;
+  /** ISO 4217 code amounts are displayed in (null = as stored) */
+  currency: string | null;
+  /** Dashboard filters applied on load */
+  default_tenant_id: string | null;
+  default_customer_name: string | null;
+  email_notifications: Record<NotificationType, boolean>;
+}
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  timezone: 'UTC',
+  locale: 'en-GB',
+  currency: null,
+  default_tenant_id: null,
+  default_customer_name: null,
+  email_notifications: { new_sign_in: true, recovery_code_used: true, password_changed: true },
+};
+
+export function isValidTimezone(tz: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en', { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function isValidLocale(locale: string): boolean {
+  try {
+    return Intl.getCanonicalLocales(locale).length === 1;
+  } catch {
+    return false;
+  }
+}
+
+/** The user's preferences, with defaults filled in for anything unset. */
+export async function getUserPreferences(sql: postgres.Sql, userId: string): Promise<UserPreferences> {
+  const rows = await sql`
+    SELECT timezone, locale, currency, default_tenant_id, default_customer_name, email_notifications
+    FROM auth_user_preferences
+    WHERE user_id = ${userId}
+  `;
+  if (rows.length === 0) {
+    return { ...DEFAULT_PREFERENCES, email_notifications: { ...DEFAULT_PREFERENCES.email_notifications } };
+  }
+
+  const r = rows[0];
+  return {
+    timezone: r.timezone,
+    locale: r.locale,
+    currency: r.currency,
+    default_tenant_id: r.default_tenant_id,
+    default_customer_name: r.default_customer_name,
+    email_notifications: { ...DEFAULT_PREFERENCES.email_notifications, ...(r.email_notifications || {}) },
+  };
+}
+
+/**
+ * Timezone for the caller's reports: the user's preference (JWT or API
+ * key owner), or UTC for service tokens.
+ */
+export async function getUserTimezone(sql: postgres.Sql, tenant: TenantInfo): Promise<string> {
+  if (!tenant.user_id) return DEFAULT_PREFERENCES.timezone;
+  const rows = await sql`SELECT timezone FROM auth_user_preferences WHERE user_id = ${tenant.user_id}`;
+  return rows[0]?.timezone || DEFAULT_PREFERENCES.timezone;
+}
+
+/** True unless the user has opted out of this kind of email. */
+export async function wantsNotification(
+  sql: postgres.Sql,
+  userId: string,
+  type: NotificationType,
+): Promise<boolean> {
+  const rows = await sql`
+    SELECT email_notifications FROM auth_user_preferences WHERE user_id = ${userId}
+  `;
+  return rows[0]?.email_notifications?.[type] !== false;
+}
+
+/** A moment formatted for an email in the user's locale and timezone. */
+export function formatForUser(date: Date, prefs: Pick<UserPreferences, 'locale' | 'timezone'>): string {
+  return new Intl.DateTimeFormat(prefs.locale, {
+    dateStyle: 'medium',
+    timeStyle: 'long',
+    timeZone: prefs.timezone,
+  }).format(date);
+}
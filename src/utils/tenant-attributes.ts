@@ -0,0 +1,90 @@
+/**
+ * Tenant attributes (columns of rpt_tenants, see
+ * migrations/017_tenant_attributes.sql):
+ *
+ *   tenant_kind      — 'platform' (exactly one: its admins get unscoped
+ *                      access), 'reseller' or 'customer_org'
+ *   show_in_pickers  — listed by GET /filters/tenants
+ *   branding         — { display_name?, logo_url?, primary_color? } for the UI
+ *   default_currency — ISO 4217 code reports default to (null = as stored)
+ *   is_active        — inactive tenants' users can't sign in or call the API
+ *
+ * Authentication needs the kind and active flag on every request, before
+ * any tenant context exists (rpt_tenants is under RLS), so they are kept
+ * in a KV snapshot at `tenantattrs:<tenant_id>`. A missing snapshot is
+ * rebuilt from the database through the SECURITY DEFINER function
+ * tenant_attributes(); every change through /admin/tenants re-syncs it,
+ * and the daily cron re-syncs them all (through all_tenant_attributes()).
+ */
+
+import type postgres from 'postgres';
+import type { Env, TenantKind } from '../types';
+
+export const TENANT_KINDS: readonly TenantKind[] = ['platform', 'reseller', 'customer_org'];
+
+export interface TenantSnapshot {
+  tenant_kind: TenantKind;
+  is_active: boolean;
+}
+
+/** A row of tenant_attributes() / all_tenant_attributes(). */
+interface TenantRow {
+  tenant_kind: TenantKind;
+  is_active: boolean | null;
+}
+
+/** The tenant's snapshot from KV, or null if it hasn't been synced. */
+export async function getTenantSnapshot(env: Env, tenantId: string): Promise<TenantSnapshot | null> {
+  return (await env.TENANT_KV.get(`tenantattrs:${tenantId}`, 'json')) as TenantSnapshot | null;
+}
+
+/**
+ * Rewrite the tenant's KV snapshot from the database. Returns it, or null
+ * if there is no such tenant.
+ */
+export async function syncTenantSnapshot(
+  sql: postgres.Sql,
+  env: Env,
+  tenantId: string,
+): Promise<TenantSnapshot | null> {
+  const rows = await sql`SELECT tenant_kind, is_active FROM tenant_attributes(${tenantId})`;
+  if (rows.length === 0) {
+    await env.TENANT_KV.delete(`tenantattrs:${tenantId}`);
+    return null;
+  }
+
+  return putTenantSnapshot(env, tenantId, rows[0] as unknown as TenantRow);
+}
+
+async function putTenantSnapshot(
+  env: Env,
+  tenantId: string,
+  row: TenantRow,
+): Promise<TenantSnapshot> {
+  const snapshot: TenantSnapshot = { tenant_kind: row.tenant_kind, is_active: row.is_active !== false };
+  await env.TENANT_KV.put(`tenantattrs:${tenantId}`, JSON.stringify(snapshot));
+  return snapshot;
+}
+
+/** The tenant's snapshot, rebuilt from the database if KV doesn't have it. */
+export async function loadTenantSnapshot(
+  sql: postgres.Sql,
+  env: Env,
+  tenantId: string,
+): Promise<TenantSnapshot | null> {
+  return (await getTenantSnapshot(env, tenantId)) ?? syncTenantSnapshot(sql, env, tenantId);
+}
+
+/** True if the tenant exists and is deactivated. */
+export async function isTenantDisabled(sql: postgres.Sql, env: Env, tenantId: string): Promise<boolean> {
+  return (await loadTenantSnapshot(sql, env, tenantId))?.is_active === false;
+}
+
+/** Re-sync every tenant's snapshot (tenants edited directly in the database). */
+export async function syncAllTenantSnapshots(sql: postgres.Sql, env: Env): Promise<void> {
+  // rpt_tenants itself is under RLS and the cron has no tenant context
+  const tenants = await sql`SELECT tenant_id, tenant_kind, is_active FROM all_tenant_attributes()`;
+  for (const t of tenants) {
+    await putTenantSnapshot(env, t.tenant_id, t as unknown as TenantRow);
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * TOTP (RFC 6238) utilities for authenticator-app second factor.
+ *
+ * Uses HMAC-SHA1 with 30-second steps and 6 digits — the defaults that
+ * every mainstream authenticator app (Google, Microsoft, 1Password) supports.
+ * Uses the Web Crypto API; no external dependencies.
+ */
+
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const SECRET_BYTES = 20; // 160 bits, as recommended by RFC 4226
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/** Issuer label shown in authenticator apps. */
+export const TOTP_ISSUER = 'S-IMSY Reporting';
+
+/* ---------- Base32 helpers ---------- */
+
+function base32Encode(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let out = '';
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    out += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return out;
+}
+
+function base32Decode(input: string): Uint8Array {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, '');
+  const out: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const char of clean) {
+    const idx = BASE32_ALPHABET.indexOf(char);
+    if (idx === -1) throw new Error('Invalid base32 character');
+    value = (value << 5) | idx;
+    bits += 5;
+    if (bits >= 8) {
+      out.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(out);
+}
+
+/* ---------- HOTP core ---------- */
+
+async function hotp(key: Uint8Array, counter: number): Promise<string> {
+  const counterBytes = new Uint8Array(8);
+  let c = counter;
+  for (let i = 7; i >= 0; i--) {
+    counterBytes[i] = c & 0xff;
+    c = Math.floor(c / 256);
+  }
+
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    key,
+    { name: 'HMAC', hash: 'SHA-1' },
+    false,
+    ['sign'],
+  );
+  const mac = new Uint8Array(await crypto.subtle.sign('HMAC', cryptoKey, counterBytes));
+
+  // Dynamic truncation (RFC 4226 §5.3)
+  const offset = mac[mac.length - 1] & 0x0f;
+  const binary =
+    ((mac[offset] & 0x7f) << 24) |
+    (mac[offset + 1] << 16) |
+    (mac[offset + 2] << 8) |
+    mac[offset + 3];
+
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+}
+
+/* ---------- Public API ---------- */
+
+/** Generate a random TOTP secret, returned as base32 (no padding). */
+export function generateTOTPSecret(): string {
+  const bytes = new Uint8Array(SECRET_BYTES);
+  crypto.getRandomValues(bytes);
+  return base32Encode(bytes);
+}
+
+/** The current TOTP time step (Unix seconds / 30). */
+export function currentTOTPStep(): number {
+  return Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS);
+}
+
+/**
+ * Verify a TOTP code against a base32 secret.
+ *
+ * Accepts codes from one step either side of now to tolerate clock drift.
+ * Steps at or before `lastUsedStep` are rejected so a code cannot be replayed.
+ *
+ * Returns the matched time step (store it as the new lastUsedStep), or null.
+ */
+export async function verifyTOTP(
+  secret: string,
+  code: string,
+  lastUsedStep: number | null = null,
+  window: number = 1,
+): Promise<number | null> {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d{6}$/.test(normalized)) return null;
+
+  let key: Uint8Array;
+  try {
+    key = base32Decode(secret);
+  } catch {
+    return null;
+  }
+
+  const now = currentTOTPStep();
+  for (let step = now - window; step <= now + window; step++) {
+    if (lastUsedStep !== null && step <= lastUsedStep) continue;
+    const expected = await hotp(key, step);
+
+    // Constant-time comparison
+    let diff = 0;
+    for (let i = 0; i < TOTP_DIGITS; i++) {
+      diff |= expected.charCodeAt(i) ^ normalized.charCodeAt(i);
+    }
+    if (diff === 0) return step;
+  }
+  return null;
+}
+
+/**
+ * Build an otpauth:// provisioning URI for QR-code enrolment.
+ * See https://github.com/google/google-authenticator/wiki/Key-Uri-Format
+ */
+export function buildOtpauthURI(secret: string, accountName: string): string {
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: TOTP_ISSUER,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
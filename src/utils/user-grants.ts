@@ -0,0 +1,105 @@
+/**
+ * Scope grants beyond a user's own tenant and customer (auth_user_tenants /
+ * auth_user_customers, see migrations/019_user_scope_grants.sql).
+ *
+ * A granted tenant adds it and its descendants to everything the user can
+ * see, exactly like their own tenant. A granted customer adds one more
+ * customer to a customer-role user's data; it must belong to a tenant the
+ * user can see, and grants that fall out of reach (the user moved, a
+ * tenant grant was withdrawn) are dropped.
+ *
+ * Grants reach requests through the access token and API key snapshots
+ * (customer_ids / granted_tenant_ids), so changes apply from the user's
+ * next token refresh.
+ */
+
+import type postgres from 'postgres';
+import type { TenantInfo } from '../types';
+import { tenantSubtree } from '../db';
+
+export interface UserGrants {
+  tenant_ids: string[];
+  customer_ids: string[];
+}
+
+/** A user's granted tenants and customers (not their own). */
+export async function loadUserGrants(sql: postgres.Sql, userId: string): Promise<UserGrants> {
+  const tenants = await sql`
+    SELECT tenant_id FROM auth_user_tenants WHERE user_id = ${userId} ORDER BY tenant_id
+  `;
+  const customers = await sql`
+    SELECT customer_id FROM auth_user_customers WHERE user_id = ${userId} ORDER BY created_at, customer_id
+  `;
+  return {
+    tenant_ids: tenants.map((r) => r.tenant_id as string),
+    customer_ids: customers.map((r) => r.customer_id as string),
+  };
+}
+
+/**
+ * Scope claims for a user's access token or API key snapshot: their
+ * granted tenants and, for customer-role users, every customer they may
+ * see (their own first). Empty sets are left out.
+ */
+export async function userScopeClaims(
+  sql: postgres.Sql,
+  user: { id: string; role: TenantInfo['role']; customer_id: string | null },
+): Promise<{ customer_ids?: string[]; granted_tenant_ids?: string[] }> {
+  const grants = await loadUserGrants(sql, user.id);
+  const customerIds =
+    user.role === 'customer'
+      ? [...new Set([...(user.customer_id ? [user.customer_id] : []), ...grants.customer_ids])]
+      : [];
+  return {
+    customer_ids: customerIds.length > 0 ? customerIds : undefined,
+    granted_tenant_ids: grants.tenant_ids.length > 0 ? grants.tenant_ids : undefined,
+  };
+}
+
+/**
+ * Replace the given grant sets of a user (undefined leaves a set alone),
+ * then drop customer grants outside the tenants the user can now see.
+ */
+export async function saveUserGrants(
+  sql: postgres.Sql,
+  userId: string,
+  grants: Partial<UserGrants>,
+  grantedBy: string | null,
+): Promise<void> {
+  if (grants.tenant_ids !== undefined) {
+    await sql`DELETE FROM auth_user_tenants WHERE user_id = ${userId}`;
+    for (const tenantId of new Set(grants.tenant_ids)) {
+      await sql`
+        INSERT INTO auth_user_tenants (user_id, tenant_id, granted_by)
+        VALUES (${userId}, ${tenantId}, ${grantedBy})
+      `;
+    }
+  }
+  if (grants.customer_ids !== undefined) {
+    await sql`DELETE FROM auth_user_customers WHERE user_id = ${userId}`;
+    for (const customerId of new Set(grants.customer_ids)) {
+      await sql`
+        INSERT INTO auth_user_customers (user_id, customer_id, granted_by)
+        VALUES (${userId}, ${customerId}, ${grantedBy})
+      `;
+    }
+  }
+
+  // The own tenant needs no grant
+  await sql`
+    DELETE FROM auth_user_tenants g USING auth_users u
+    WHERE g.user_id = ${userId} AND u.id = g.user_id AND g.tenant_id = u.tenant_id
+  `;
+  await sql.unsafe(
+    `DELETE FROM auth_user_customers g
+     WHERE g.user_id = $1
+       AND g.customer_id NOT IN (
+         SELECT c.id FROM customers c
+         WHERE c.tenant_id IN (${tenantSubtree(`ANY(ARRAY(
+           SELECT tenant_id FROM auth_users WHERE id = $1
+           UNION
+           SELECT tenant_id FROM auth_user_tenants WHERE user_id = $1))`)})
+       )`,
+    [userId],
+  );
+}
@@ -0,0 +1,127 @@
+/**
+ * User deletion and erasure.
+ *
+ * Deleting a user (DELETE /admin/users/:id) is a soft delete: the row and
+ * its history stay, the account is deactivated and everything that lets
+ * it act — sessions, API keys, pending invites — is revoked. An admin can
+ * restore it until the scheduled purge erases it, USER_RETENTION_DAYS
+ * after deletion.
+ *
+ * Erasure (the purge, or POST /auth/me/erase) anonymises rather than
+ * removes: the auth_users row stays as a tombstone so audit entries still
+ * resolve, its personal data is deleted or replaced, and the user's audit
+ * trail is scrubbed (see migrations/015_user_soft_delete.sql).
+ */
+
+import type postgres from 'postgres';
+import type { Env } from '../types';
+import { revokeUserApiKeys } from './api-keys';
+import { recordAudit } from './audit';
+
+const DEFAULT_RETENTION_DAYS = 30;
+
+/** Days a deleted user can still be restored before the purge erases it. */
+export function retentionDays(env: Env): number {
+  const days = parseInt(env.USER_RETENTION_DAYS || '');
+  return Number.isFinite(days) && days >= 0 ? days : DEFAULT_RETENTION_DAYS;
+}
+
+/** Sign the user out everywhere. Returns the number of sessions revoked. */
+export async function revokeUserSessions(sql: postgres.Sql, env: Env, userId: string): Promise<number> {
+  const sessions = await sql`
+    SELECT token_hash FROM auth_sessions WHERE user_id = ${userId}
+  `;
+  for (const session of sessions) {
+    await env.TENANT_KV.delete(`session:${session.token_hash}`);
+  }
+  await sql`DELETE FROM auth_sessions WHERE user_id = ${userId}`;
+  return sessions.length;
+}
+
+/**
+ * Revoke everything that lets the user act: sessions, API keys and
+ * pending invites. Returns the number of sessions revoked.
+ */
+export async function revokeUserAccess(sql: postgres.Sql, env: Env, userId: string): Promise<number> {
+  const sessionsRevoked = await revokeUserSessions(sql, env, userId);
+  await revokeUserApiKeys(sql, env, userId);
+
+  const invites = await sql`
+    UPDATE auth_otp SET used_at = now(), revoked_at = now()
+    WHERE user_id = ${userId} AND purpose = 'invite' AND used_at IS NULL
+    RETURNING code_hash
+  `;
+  for (const invite of invites) {
+    await env.TENANT_KV.delete(`invite:${invite.code_hash}`);
+  }
+
+  return sessionsRevoked;
+}
+
+/**
+ * Erase a user's personal data, keeping an anonymous auth_users row.
+ * Returns the number of audit entries anonymised.
+ */
+export async function eraseUser(sql: postgres.Sql, env: Env, userId: string): Promise<number> {
+  const users = await sql`SELECT email FROM auth_users WHERE id = ${userId}`;
+  if (users.length === 0) return 0;
+
+  await revokeUserAccess(sql, env, userId);
+
+  await sql`DELETE FROM auth_otp WHERE user_id = ${userId}`;
+  await sql`DELETE FROM auth_recovery_codes WHERE user_id = ${userId}`;
+  await sql`DELETE FROM auth_webauthn_credentials WHERE user_id = ${userId}`;
+  await sql`DELETE FROM auth_known_devices WHERE user_id = ${userId}`;
+  await sql`DELETE FROM auth_password_history WHERE user_id = ${userId}`;
+  await sql`DELETE FROM auth_user_preferences WHERE user_id = ${userId}`;
+  await sql`DELETE FROM auth_api_keys WHERE user_id = ${userId}`;
+
+  await sql`
+    UPDATE auth_users
+    SET email = ${`erased-${userId}@erased.invalid`},
+        display_name = 'Erased user',
+        password_hash = NULL,
+        salt = NULL,
+        mfa_method = 'email',
+        totp_secret = NULL,
+        totp_pending_secret = NULL,
+        totp_last_step = NULL,
+        totp_enrolled_at = NULL,
+        oidc_provider_id = NULL,
+        oidc_subject = NULL,
+        is_active = false,
+        failed_logins = 0,
+        locked_until = NULL,
+        deleted_at = COALESCE(deleted_at, now()),
+        erased_at = now(),
+        updated_at = now()
+    WHERE id = ${userId}
+  `;
+
+  const [{ erased }] = await sql`SELECT audit_log_erase_user(${userId}, ${users[0].email}) AS erased`;
+  return erased;
+}
+
+/** Erase every user deleted more than retentionDays() ago. Run by the cron trigger. */
+export async function purgeDeletedUsers(sql: postgres.Sql, env: Env): Promise<number> {
+  const days = retentionDays(env);
+  const due = await sql`
+    SELECT id, tenant_id, deleted_at
+    FROM auth_users
+    WHERE deleted_at < now() - make_interval(days => ${days})
+      AND erased_at IS NULL
+  `;
+
+  for (const user of due) {
+    const auditEntries = await eraseUser(sql, env, user.id);
+    await recordAudit(sql, null, {
+      action: 'user.purge',
+      tenant_id: user.tenant_id,
+      target_type: 'user',
+      target_id: user.id,
+      metadata: { deleted_at: user.deleted_at, retention_days: days, audit_entries_anonymised: auditEntries },
+    });
+  }
+
+  return due.length;
+}
@@ -0,0 +1,383 @@
+/**
+ * WebAuthn (passkey) verification using the Web Crypto API.
+ *
+ * Implements the parts of the WebAuthn Level 2 relying-party algorithms
+ * needed for registration and assertion ceremonies:
+ *   - a minimal CBOR decoder (attestation objects and COSE keys)
+ *   - authenticator data parsing
+ *   - COSE → JWK conversion for ES256 (P-256) and RS256 keys
+ *   - assertion signature verification
+ *
+ * Attestation statements are not verified: we request attestation 'none'
+ * and trust the credential on first use, as passkey providers recommend.
+ */
+
+import { base64UrlEncode, base64UrlDecode, base64UrlDecodeBytes } from './base64url';
+
+/** COSE algorithm identifiers we accept. */
+export const COSE_ALG_ES256 = -7;
+export const COSE_ALG_RS256 = -257;
+
+/* ---------- Authenticator data flags ---------- */
+
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_ATTESTED_CREDENTIAL_DATA = 0x40;
+
+/* ---------- CBOR ---------- */
+
+type CBORValue =
+  | number
+  | bigint
+  | string
+  | boolean
+  | null
+  | undefined
+  | Uint8Array
+  | CBORValue[]
+  | Map<CBORValue, CBORValue>;
+
+/**
+ * Decode one CBOR item starting at `offset`.
+ * Returns the value and the offset just past it.
+ */
+function decodeCBOR(bytes: Uint8Array, offset: number = 0): { value: CBORValue; offset: number } {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const initial = bytes[offset++];
+  const major = initial >> 5;
+  const info = initial & 0x1f;
+
+  const readLength = (): number => {
+    if (info < 24) return info;
+    if (info === 24) return bytes[offset++];
+    if (info === 25) { const v = view.getUint16(offset); offset += 2; return v; }
+    if (info === 26) { const v = view.getUint32(offset); offset += 4; return v; }
+    if (info === 27) { const v = Number(view.getBigUint64(offset)); offset += 8; return v; }
+    throw new Error('Unsupported CBOR length encoding');
+  };
+
+  switch (major) {
+    case 0:
+      return { value: readLength(), offset };
+    case 1:
+      return { value: -1 - readLength(), offset };
+    case 2: {
+      const len = readLength();
+      const value = bytes.slice(offset, offset + len);
+      return { value, offset: offset + len };
+    }
+    case 3: {
+      const len = readLength();
+      const value = new TextDecoder().decode(bytes.subarray(offset, offset + len));
+      return { value, offset: offset + len };
+    }
+    case 4: {
+      const len = readLength();
+      const arr: CBORValue[] = [];
+      for (let i = 0; i < len; i++) {
+        const item = decodeCBOR(bytes, offset);
+        arr.push(item.value);
+        offset = item.offset;
+      }
+      return { value: arr, offset };
+    }
+    case 5: {
+      const len = readLength();
+      const map = new Map<CBORValue, CBORValue>();
+      for (let i = 0; i < len; i++) {
+        const key = decodeCBOR(bytes, offset);
+        const val = decodeCBOR(bytes, key.offset);
+        map.set(key.value, val.value);
+        offset = val.offset;
+      }
+      return { value: map, offset };
+    }
+    case 6: {
+      // Tag — ignore the tag number, return the tagged item
+      readLength();
+      return decodeCBOR(bytes, offset);
+    }
+    case 7: {
+      if (info === 20) return { value: false, offset };
+      if (info === 21) return { value: true, offset };
+      if (info === 22) return { value: null, offset };
+      if (info === 23) return { value: undefined, offset };
+      throw new Error('Unsupported CBOR simple/float value');
+    }
+    default:
+      throw new Error('Invalid CBOR');
+  }
+}
+
+/* ---------- Authenticator data ---------- */
+
+export interface AuthenticatorData {
+  rpIdHash: Uint8Array;
+  flags: number;
+  userPresent: boolean;
+  userVerified: boolean;
+  signCount: number;
+  /** Present on registration only */
+  credentialId?: Uint8Array;
+  /** COSE public key map, present on registration only */
+  credentialPublicKey?: Map<CBORValue, CBORValue>;
+}
+
+function parseAuthenticatorData(data: Uint8Array): AuthenticatorData {
+  if (data.length < 37) throw new Error('Authenticator data too short');
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const flags = data[32];
+  const result: AuthenticatorData = {
+    rpIdHash: data.slice(0, 32),
+    flags,
+    userPresent: (flags & FLAG_USER_PRESENT) !== 0,
+    userVerified: (flags & FLAG_USER_VERIFIED) !== 0,
+    signCount: view.getUint32(33),
+  };
+
+  if (flags & FLAG_ATTESTED_CREDENTIAL_DATA) {
+    // aaguid (16) | credentialIdLength (2) | credentialId | credentialPublicKey (CBOR)
+    let offset = 37 + 16;
+    const idLength = view.getUint16(offset);
+    offset += 2;
+    result.credentialId = data.slice(offset, offset + idLength);
+    offset += idLength;
+    const key = decodeCBOR(data, offset);
+    if (!(key.value instanceof Map)) throw new Error('Invalid credential public key');
+    result.credentialPublicKey = key.value;
+  }
+
+  return result;
+}
+
+/* ---------- COSE keys ---------- */
+
+/** Convert a COSE_Key map to a JWK the Web Crypto API can import. */
+function coseToJwk(cose: Map<CBORValue, CBORValue>): { jwk: JsonWebKey; alg: number } {
+  const kty = cose.get(1);
+  const alg = cose.get(3);
+
+  if (kty === 2 && alg === COSE_ALG_ES256) {
+    const crv = cose.get(-1);
+    const x = cose.get(-2);
+    const y = cose.get(-3);
+    if (crv !== 1 || !(x instanceof Uint8Array) || !(y instanceof Uint8Array)) {
+      throw new Error('Unsupported EC2 key');
+    }
+    return {
+      jwk: { kty: 'EC', crv: 'P-256', x: base64UrlEncode(x), y: base64UrlEncode(y) },
+      alg: COSE_ALG_ES256,
+    };
+  }
+
+  if (kty === 3 && alg === COSE_ALG_RS256) {
+    const n = cose.get(-1);
+    const e = cose.get(-2);
+    if (!(n instanceof Uint8Array) || !(e instanceof Uint8Array)) {
+      throw new Error('Unsupported RSA key');
+    }
+    return {
+      jwk: { kty: 'RSA', n: base64UrlEncode(n), e: base64UrlEncode(e) },
+      alg: COSE_ALG_RS256,
+    };
+  }
+
+  throw new Error(`Unsupported COSE key (kty=${String(kty)}, alg=${String(alg)})`);
+}
+
+/**
+ * Convert an ASN.1 DER ECDSA signature (SEQUENCE { r INTEGER, s INTEGER })
+ * to the raw r||s form Web Crypto expects.
+ */
+function derToRawSignature(der: Uint8Array, size: number = 32): Uint8Array {
+  if (der[0] !== 0x30) throw new Error('Invalid DER signature');
+  let offset = 2;
+  if (der[1] & 0x80) offset += der[1] & 0x7f; // long-form length
+
+  const readInt = (): Uint8Array => {
+    if (der[offset] !== 0x02) throw new Error('Invalid DER integer');
+    const len = der[offset + 1];
+    let value = der.slice(offset + 2, offset + 2 + len);
+    offset += 2 + len;
+    // Strip sign padding, then left-pad to the curve size
+    while (value.length > size && value[0] === 0) value = value.slice(1);
+    const out = new Uint8Array(size);
+    out.set(value, size - value.length);
+    return out;
+  };
+
+  const r = readInt();
+  const s = readInt();
+  const raw = new Uint8Array(size * 2);
+  raw.set(r, 0);
+  raw.set(s, size);
+  return raw;
+}
+
+/* ---------- Shared checks ---------- */
+
+export interface RelyingParty {
+  /** Effective domain, e.g. "simsy-reporting.pages.dev" */
+  id: string;
+  /** Full origin the browser reports, e.g. "https://simsy-reporting.pages.dev" */
+  origin: string;
+}
+
+interface ClientData {
+  type: string;
+  challenge: string;
+  origin: string;
+}
+
+function checkClientData(
+  clientDataJSON: string,
+  expectedType: 'webauthn.create' | 'webauthn.get',
+  expectedChallenge: string,
+  rp: RelyingParty,
+): void {
+  const clientData = JSON.parse(base64UrlDecode(clientDataJSON)) as ClientData;
+  if (clientData.type !== expectedType) throw new Error('Unexpected ceremony type');
+  if (clientData.challenge !== expectedChallenge) throw new Error('Challenge mismatch');
+  if (clientData.origin !== rp.origin) throw new Error(`Unexpected origin ${clientData.origin}`);
+}
+
+async function checkAuthenticatorData(authData: AuthenticatorData, rp: RelyingParty): Promise<void> {
+  const expectedHash = new Uint8Array(
+    await crypto.subtle.digest('SHA-256', new TextEncoder().encode(rp.id)),
+  );
+  if (!bytesEqual(authData.rpIdHash, expectedHash)) throw new Error('RP ID mismatch');
+  if (!authData.userPresent) throw new Error('User presence flag not set');
+  if (!authData.userVerified) throw new Error('User verification flag not set');
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+}
+
+/* ---------- Public API ---------- */
+
+export interface RegistrationResponse {
+  clientDataJSON: string;
+  attestationObject: string;
+}
+
+export interface VerifiedRegistration {
+  /** base64url credential ID */
+  credentialId: string;
+  publicKey: JsonWebKey;
+  alg: number;
+  signCount: number;
+}
+
+/**
+ * Verify a navigator.credentials.create() response.
+ * Throws with a descriptive message on any failure.
+ */
+export async function verifyRegistration(
+  response: RegistrationResponse,
+  expectedChallenge: string,
+  rp: RelyingParty,
+): Promise<VerifiedRegistration> {
+  checkClientData(response.clientDataJSON, 'webauthn.create', expectedChallenge, rp);
+
+  const attestation = decodeCBOR(base64UrlDecodeBytes(response.attestationObject)).value;
+  if (!(attestation instanceof Map)) throw new Error('Invalid attestation object');
+  const authDataBytes = attestation.get('authData');
+  if (!(authDataBytes instanceof Uint8Array)) throw new Error('Missing authenticator data');
+
+  const authData = parseAuthenticatorData(authDataBytes);
+  await checkAuthenticatorData(authData, rp);
+  if (!authData.credentialId || !authData.credentialPublicKey) {
+    throw new Error('Missing attested credential data');
+  }
+
+  const { jwk, alg } = coseToJwk(authData.credentialPublicKey);
+  return {
+    credentialId: base64UrlEncode(authData.credentialId),
+    publicKey: jwk,
+    alg,
+    signCount: authData.signCount,
+  };
+}
+
+export interface AssertionResponse {
+  clientDataJSON: string;
+  authenticatorData: string;
+  signature: string;
+}
+
+/**
+ * Verify a navigator.credentials.get() response against a stored credential.
+ * Returns the authenticator's new signature counter. Throws on any failure.
+ */
+export async function verifyAssertion(
+  response: AssertionResponse,
+  expectedChallenge: string,
+  rp: RelyingParty,
+  credential: { publicKey: JsonWebKey; alg: number; signCount: number },
+): Promise<number> {
+  checkClientData(response.clientDataJSON, 'webauthn.get', expectedChallenge, rp);
+
+  const authDataBytes = base64UrlDecodeBytes(response.authenticatorData);
+  const authData = parseAuthenticatorData(authDataBytes);
+  await checkAuthenticatorData(authData, rp);
+
+  // Signed data = authenticatorData || SHA-256(clientDataJSON)
+  const clientDataHash = new Uint8Array(
+    await crypto.subtle.digest('SHA-256', base64UrlDecodeBytes(response.clientDataJSON)),
+  );
+  const signedData = new Uint8Array(authDataBytes.length + clientDataHash.length);
+  signedData.set(authDataBytes, 0);
+  signedData.set(clientDataHash, authDataBytes.length);
+
+  const signature = base64UrlDecodeBytes(response.signature);
+  let valid: boolean;
+
+  if (credential.alg === COSE_ALG_ES256) {
+    const key = await crypto.subtle.importKey(
+      'jwk',
+      credential.publicKey,
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      false,
+      ['verify'],
+    );
+    valid = await crypto.subtle.verify(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      key,
+      derToRawSignature(signature),
+      signedData,
+    );
+  } else if (credential.alg === COSE_ALG_RS256) {
+    const key = await crypto.subtle.importKey(
+      'jwk',
+      credential.publicKey,
+      { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+      false,
+      ['verify'],
+    );
+    valid = await crypto.subtle.verify('RSASSA-PKCS1-v1_5', key, signature, signedData);
+  } else {
+    throw new Error(`Unsupported credential algorithm ${credential.alg}`);
+  }
+
+  if (!valid) throw new Error('Invalid assertion signature');
+
+  // A counter that fails to increase suggests a cloned authenticator.
+  // Authenticators that don't implement counters always report 0.
+  if ((authData.signCount > 0 || credential.signCount > 0) && authData.signCount <= credential.signCount) {
+    throw new Error('Signature counter did not increase');
+  }
+
+  return authData.signCount;
+}
+
+/** Generate a random 32-byte challenge, returned as base64url. */
+export function generateChallenge(): string {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return base64UrlEncode(bytes);
+}
@@ -0,0 +1,113 @@
+/**
+ * tenantSubtree / tenantFilter against a real Postgres (PGlite): scoping
+ * follows parent_tenant_id all the way down and nowhere else.
+ *
+ *   platform
+ *   ├── reseller-a
+ *   │   └── reseller-a1
+ *   │       └── tenant-a1x
+ *   └── reseller-b
+ *       └── tenant-b1
+ */
+
+import { PGlite } from '@electric-sql/pglite';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { tenantFilter, tenantSubtree } from '../src/db';
+import type { TenantInfo } from '../src/types';
+
+const db = new PGlite();
+
+beforeAll(async () => {
+  await db.exec(`
+    CREATE TABLE rpt_tenants (
+      tenant_id        TEXT PRIMARY KEY,
+      parent_tenant_id TEXT REFERENCES rpt_tenants(tenant_id)
+    );
+    INSERT INTO rpt_tenants VALUES
+      ('platform', NULL),
+      ('reseller-a', 'platform'),
+      ('reseller-a1', 'reseller-a'),
+      ('tenant-a1x', 'reseller-a1'),
+      ('reseller-b', 'platform'),
+      ('tenant-b1', 'reseller-b');
+  `);
+});
+
+function caller(tenantId: string, extra: Partial<TenantInfo> = {}): TenantInfo {
+  return {
+    tenant_id: tenantId,
+    tenant_name: tenantId,
+    role: 'tenant',
+    tenant_kind: 'reseller',
+    permissions: [],
+    auth_method: 'jwt',
+    ...extra,
+  };
+}
+
+/** Tenant ids a caller's tenantFilter lets through, sorted. */
+async function visible(tenant: TenantInfo): Promise<string[]> {
+  const tf = tenantFilter(tenant, 1, 'r.tenant_id');
+  const result = await db.query<{ tenant_id: string }>(
+    `SELECT r.tenant_id FROM rpt_tenants r WHERE ${tf.clause} ORDER BY r.tenant_id`,
+    tf.params,
+  );
+  return result.rows.map((r) => r.tenant_id);
+}
+
+describe('tenantSubtree', () => {
+  it('includes the root and every tenant below it', async () => {
+    const result = await db.query<{ tenant_id: string }>(
+      `SELECT tenant_id FROM (${tenantSubtree('$1')}) s ORDER BY tenant_id`,
+      ['reseller-a'],
+    );
+    expect(result.rows.map((r) => r.tenant_id)).toEqual(['reseller-a', 'reseller-a1', 'tenant-a1x']);
+  });
+
+  it('stops at a hand-edited cycle', async () => {
+    await db.exec(`
+      INSERT INTO rpt_tenants VALUES ('cycle-1', NULL), ('cycle-2', 'cycle-1');
+      UPDATE rpt_tenants SET parent_tenant_id = 'cycle-2' WHERE tenant_id = 'cycle-1';
+    `);
+    const result = await db.query<{ tenant_id: string }>(
+      `SELECT tenant_id FROM (${tenantSubtree('$1')}) s ORDER BY tenant_id`,
+      ['cycle-1'],
+    );
+    expect(result.rows.map((r) => r.tenant_id)).toEqual(['cycle-1', 'cycle-2']);
+    await db.exec(`
+      UPDATE rpt_tenants SET parent_tenant_id = NULL WHERE tenant_id = 'cycle-1';
+      DELETE FROM rpt_tenants WHERE tenant_id IN ('cycle-2', 'cycle-1');
+    `);
+  });
+});
+
+describe('tenantFilter', () => {
+  it('lets a reseller see grandchildren through an intermediate reseller', async () => {
+    expect(await visible(caller('reseller-a'))).toEqual(['reseller-a', 'reseller-a1', 'tenant-a1x']);
+  });
+
+  it('excludes sibling tenants and their children', async () => {
+    const seen = await visible(caller('reseller-a1'));
+    expect(seen).toEqual(['reseller-a1', 'tenant-a1x']);
+    expect(seen).not.toContain('reseller-b');
+    expect(seen).not.toContain('tenant-b1');
+  });
+
+  it('scopes a leaf tenant to itself', async () => {
+    expect(await visible(caller('tenant-a1x', { role: 'customer' }))).toEqual(['tenant-a1x']);
+  });
+
+  it('adds granted tenants with their descendants', async () => {
+    expect(await visible(caller('reseller-a1', { granted_tenant_ids: ['reseller-b'] }))).toEqual([
+      'reseller-a1',
+      'reseller-b',
+      'tenant-a1x',
+      'tenant-b1',
+    ]);
+  });
+
+  it('does not scope the platform admin', async () => {
+    const tf = tenantFilter(caller('platform', { role: 'admin', tenant_kind: 'platform' }));
+    expect(tf).toEqual({ clause: '1=1', params: [], nextIdx: 1 });
+  });
+});